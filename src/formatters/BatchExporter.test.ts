@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BatchExporter, getExportFileNames, getDefaultExportPath } from './BatchExporter.js';
+import { RedactionProcessor } from '../processors/RedactionProcessor.js';
+import { SessionInfo } from '../types/index.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('BatchExporter', () => {
+  let tmpDir: string;
+  let projectDir: string;
+  const githubToken = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+
+  const sessionInfo = (sessionId: string, summary: string, created = '2025-07-01T10:00:00Z'): SessionInfo => ({
+    sessionId,
+    file: path.join(projectDir, `${sessionId}.jsonl`),
+    timestamp: created,
+    summary,
+    messageCount: 2,
+    modified: new Date(created),
+    created: new Date(created),
+    tokens: 0,
+    models: []
+  });
+
+  const writeSession = (sessionId: string, prompt: string) => {
+    const messages = [
+      { type: 'user', sessionId, uuid: `${sessionId}1`, timestamp: '2025-07-01T10:00:00Z', message: { role: 'user', content: prompt } },
+      { type: 'assistant', sessionId, uuid: `${sessionId}2`, parentUuid: `${sessionId}1`, timestamp: '2025-07-01T10:00:05Z', message: { role: 'assistant', content: [{ type: 'text', text: `Answer to ${prompt}` }] } }
+    ];
+    fs.writeFileSync(path.join(projectDir, `${sessionId}.jsonl`), messages.map(m => JSON.stringify(m)).join('\n'));
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-batch-'));
+    projectDir = path.join(tmpDir, 'project');
+    fs.mkdirSync(projectDir);
+    writeSession('a', 'First prompt');
+    writeSession('b', `Second prompt with ${githubToken}`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should combine the sessions into one document in order', async () => {
+    const destination = path.join(tmpDir, 'out', 'all.md');
+    const progress: number[] = [];
+
+    const result = await new BatchExporter().exportSessions(
+      [sessionInfo('b', 'Second'), sessionInfo('a', 'First')],
+      'combined',
+      destination,
+      ({ done }) => progress.push(done)
+    );
+
+    const markdown = fs.readFileSync(destination, 'utf8');
+    expect(result).toEqual({ destination, sessionCount: 2, files: [destination] });
+    expect(progress).toEqual([1, 2]);
+    expect(markdown.indexOf('Second prompt')).toBeLessThan(markdown.indexOf('First prompt'));
+    expect(markdown).toContain('\n\n---\n\n');
+  });
+
+  it('should write a file per session into a directory', async () => {
+    const destination = path.join(tmpDir, 'sessions');
+
+    const result = await new BatchExporter().exportSessions(
+      [sessionInfo('a', 'First'), sessionInfo('b', 'Second')],
+      'directory',
+      destination
+    );
+
+    expect(fs.readdirSync(destination).sort()).toEqual(['2025-07-01-first.md', '2025-07-01-second.md']);
+    expect(fs.readFileSync(result.files[0], 'utf8')).toContain('Answer to First prompt');
+  });
+
+  it('should zip the per-session files under a folder named after the archive', async () => {
+    const destination = path.join(tmpDir, 'sessions.zip');
+
+    const result = await new BatchExporter().exportSessions([sessionInfo('a', 'First')], 'zip', destination);
+
+    expect(result.files).toEqual(['sessions/2025-07-01-first.md']);
+    expect(fs.readFileSync(destination).readUInt32LE(0)).toBe(0x04034b50);
+  });
+
+  it('should redact every session with the shared processor', async () => {
+    const destination = path.join(tmpDir, 'all.md');
+    const redaction = new RedactionProcessor();
+
+    await new BatchExporter({ redaction }).exportSessions([sessionInfo('b', 'Second')], 'combined', destination);
+
+    expect(fs.readFileSync(destination, 'utf8')).not.toContain(githubToken);
+    expect(redaction.getReport().uniqueSecrets).toBe(1);
+  });
+});
+
+describe('getExportFileNames', () => {
+  const info = (summary: string, sessionId = 'abc'): SessionInfo => ({
+    sessionId,
+    file: '/tmp/abc.jsonl',
+    timestamp: '2025-07-01T10:00:00Z',
+    summary,
+    messageCount: 1,
+    modified: new Date(2025, 6, 1),
+    created: new Date(2025, 6, 1),
+    tokens: 0,
+    models: []
+  });
+
+  it('should name files from the creation date and summary', () => {
+    expect(getExportFileNames([info('Fix the Login form!'), info('Café résumé')])).toEqual([
+      '2025-07-01-fix-the-login-form.md',
+      '2025-07-01-cafe-resume.md'
+    ]);
+  });
+
+  it('should number files that would share a name', () => {
+    expect(getExportFileNames([info('Same'), info('Same'), info('Same')])).toEqual([
+      '2025-07-01-same.md',
+      '2025-07-01-same-2.md',
+      '2025-07-01-same-3.md'
+    ]);
+  });
+
+  it('should fall back to the session id when the summary has no usable characters', () => {
+    expect(getExportFileNames([info('日本語', 'abc-123')])).toEqual(['2025-07-01-abc-123.md']);
+  });
+});
+
+describe('getDefaultExportPath', () => {
+  it('should use a dated name with the extension for the format', () => {
+    const date = new Date(2025, 6, 1, 9, 5, 3);
+
+    expect(getDefaultExportPath('combined', date)).toBe(path.resolve('cc2md-export-2025-07-01-090503.md'));
+    expect(getDefaultExportPath('directory', date)).toBe(path.resolve('cc2md-export-2025-07-01-090503'));
+    expect(getDefaultExportPath('zip', date)).toBe(path.resolve('cc2md-export-2025-07-01-090503.zip'));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { SessionInfo, FormattingOptions, BatchExportFormat, BatchExportProgress, BatchExportResult } from '../types/index.js';
+import { DEFAULT_FORMATTING_OPTIONS, BATCH_EXPORT_SETTINGS } from '../types/constants.js';
+import { MarkdownFormatter } from './MarkdownFormatter.js';
+import { SessionParser } from '../parsers/SessionParser.js';
+import { RedactionProcessor } from '../processors/RedactionProcessor.js';
+import { createZip } from '../utils/zip.js';
+import { format } from 'date-fns';
+import Debug from 'debug';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const debug = Debug('session-to-md:batch');
+
+export interface BatchExportOptions {
+  formatting?: FormattingOptions;
+  // Shared by every session, so a secret gets the same placeholder throughout
+  redaction?: RedactionProcessor;
+}
+
+interface RenderedSession {
+  session: SessionInfo;
+  markdown: string;
+}
+
+/**
+ * Exports several sessions at once, as one combined markdown document, a
+ * directory with a file per session, or a zip of those files
+ */
+export class BatchExporter {
+  private formatter: MarkdownFormatter;
+  private redaction?: RedactionProcessor;
+
+  constructor(options: BatchExportOptions = {}) {
+    this.formatter = new MarkdownFormatter(options.formatting || DEFAULT_FORMATTING_OPTIONS);
+    this.redaction = options.redaction;
+  }
+
+  /**
+   * Render the sessions in order and write them to `destination`, reporting
+   * progress after each one
+   */
+  public async exportSessions(
+    sessions: SessionInfo[],
+    exportFormat: BatchExportFormat,
+    destination: string,
+    onProgress?: (progress: BatchExportProgress) => void
+  ): Promise<BatchExportResult> {
+    const rendered: RenderedSession[] = [];
+
+    for (const session of sessions) {
+      rendered.push({ session, markdown: await this.renderSession(session) });
+      onProgress?.({ done: rendered.length, total: sessions.length, session });
+    }
+
+    debug(`Writing ${rendered.length} sessions to ${destination} as ${exportFormat}`);
+
+    switch (exportFormat) {
+      case 'combined':
+        await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+        await fs.promises.writeFile(destination, rendered.map(entry => entry.markdown).join('\n\n---\n\n'));
+        return { destination, sessionCount: rendered.length, files: [destination] };
+
+      case 'directory': {
+        await fs.promises.mkdir(destination, { recursive: true });
+        const files = getExportFileNames(sessions).map(name => path.join(destination, name));
+        for (const [index, file] of files.entries()) {
+          await fs.promises.writeFile(file, rendered[index].markdown);
+        }
+        return { destination, sessionCount: rendered.length, files };
+      }
+
+      case 'zip': {
+        // Unzipping gives a directory named after the archive, like the directory export
+        const folder = path.basename(destination, '.zip');
+        const files = getExportFileNames(sessions).map(name => `${folder}/${name}`);
+        const zip = createZip(files.map((name, index) => ({
+          name,
+          data: rendered[index].markdown,
+          modified: rendered[index].session.modified
+        })));
+        await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+        await fs.promises.writeFile(destination, zip);
+        return { destination, sessionCount: rendered.length, files };
+      }
+    }
+  }
+
+  /**
+   * Render one session from its project's files, the same way the browser
+   * does when it copies a single session
+   */
+  public async renderSession(info: SessionInfo): Promise<string> {
+    const projectDir = path.dirname(info.file);
+    const files = fs.readdirSync(projectDir)
+      .filter(file => file.endsWith('.jsonl'))
+      .map(file => path.join(projectDir, file))
+      .sort();
+
+    const parser = new SessionParser();
+    let sessions = await parser.parseStream(parser.streamSessionData(info.sessionId, files));
+    if (this.redaction) {
+      sessions = this.redaction.redactSessions(sessions);
+    }
+
+    return Array.from(sessions.values())
+      .map(session => this.formatter.convertSession(session).markdown)
+      .join('\n\n---\n\n');
+  }
+}
+
+/**
+ * File names for per-session exports: creation date and summary, with a
+ * counter added where two sessions would share a name
+ */
+export function getExportFileNames(sessions: SessionInfo[], extension: string = '.md'): string[] {
+  const used = new Set<string>();
+
+  return sessions.map(session => {
+    const base = `${format(session.created, 'yyyy-MM-dd')}-${slugify(session.summary) || session.sessionId}`;
+    let name = `${base}${extension}`;
+    for (let counter = 2; used.has(name); counter++) {
+      name = `${base}-${counter}${extension}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Where an export goes unless the user picks a path: a dated name in the
+ * current directory
+ */
+export function getDefaultExportPath(exportFormat: BatchExportFormat, date: Date = new Date()): string {
+  const name = `${BATCH_EXPORT_SETTINGS.NAME_PREFIX}-${format(date, 'yyyy-MM-dd-HHmmss')}`;
+
+  switch (exportFormat) {
+    case 'combined':
+      return path.resolve(`${name}.md`);
+    case 'directory':
+      return path.resolve(name);
+    case 'zip':
+      return path.resolve(`${name}.zip`);
+  }
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, BATCH_EXPORT_SETTINGS.MAX_TITLE_LENGTH)
+    .replace(/^-+|-+$/g, '');
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { FileActivityFormatter } from './FileActivityFormatter.js';
+import { FileActivity } from '../types/index.js';
+
+const file = (path: string, operations: Partial<FileActivity['operations']>, linesAdded = 0, linesRemoved = 0): FileActivity => ({
+  path,
+  operations: { read: 0, edit: 0, write: 0, search: 0, ...operations },
+  linesAdded,
+  linesRemoved
+});
+
+describe('FileActivityFormatter', () => {
+  const formatter = new FileActivityFormatter();
+
+  it('should say when no files were touched', () => {
+    expect(formatter.formatReport([])).toBe('No files touched.');
+  });
+
+  it('should render a row per file with blanks for operations that did not happen', () => {
+    const report = formatter.formatReport([
+      file('src/a.ts', { read: 1, edit: 2 }, 1200, 4),
+      file('src/b|c.ts', { search: 1 })
+    ]);
+
+    expect(report).toContain('| File | Read | Edit | Write | Search | Added | Removed |');
+    expect(report).toContain('| `src/a.ts` | 1 | 2 |  |  | +1,200 | -4 |');
+    expect(report).toContain('| `src/b\\|c.ts` |  |  |  | 1 |  |  |');
+  });
+
+  it('should summarize the changed files and the rest', () => {
+    expect(formatter.formatSummary([
+      file('a.ts', { write: 1 }, 1),
+      file('b.ts', { read: 1 }),
+      file('c.ts', { search: 1 })
+    ])).toBe('1 file changed, 1 line added, 0 removed; 2 more read or searched');
+
+    expect(formatter.formatSummary([file('b.ts', { read: 3 })])).toBe('1 file read or searched');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { FileActivity } from '../types/index.js';
+import { isChanged } from '../processors/FileActivityProcessor.js';
+import { formatCount } from './UsageFormatter.js';
+
+/**
+ * Renders the files sessions touched as a markdown table, for the `files`
+ * command and the optional manifest at the top of converted sessions
+ */
+export class FileActivityFormatter {
+  public formatReport(files: FileActivity[]): string {
+    if (files.length === 0) {
+      return 'No files touched.';
+    }
+
+    return [this.formatSummary(files), '', this.formatTable(files)].join('\n');
+  }
+
+  /**
+   * One line in the spirit of `git diff --stat`, e.g.
+   * "2 files changed, 30 lines added, 4 removed; 3 more read or searched"
+   */
+  public formatSummary(files: FileActivity[]): string {
+    const changed = files.filter(isChanged);
+    const added = changed.reduce((sum, file) => sum + file.linesAdded, 0);
+    const removed = changed.reduce((sum, file) => sum + file.linesRemoved, 0);
+    const others = files.length - changed.length;
+
+    const parts = [];
+    if (changed.length > 0) {
+      parts.push(`${plural(changed.length, 'file')} changed, ${plural(added, 'line')} added, ${formatCount(removed)} removed`);
+    }
+    if (others > 0) {
+      parts.push(`${changed.length > 0 ? formatCount(others) + ' more' : plural(others, 'file')} read or searched`);
+    }
+    return parts.join('; ');
+  }
+
+  public formatTable(files: FileActivity[]): string {
+    return [
+      '| File | Read | Edit | Write | Search | Added | Removed |',
+      '|---|---:|---:|---:|---:|---:|---:|',
+      ...files.map(file => this.formatRow(file))
+    ].join('\n');
+  }
+
+  private formatRow(file: FileActivity): string {
+    // Blank rather than 0, so the operations that did happen stand out
+    const count = (value: number) => value > 0 ? formatCount(value) : '';
+    const cells = [
+      `\`${file.path.replace(/\|/g, '\\|')}\``,
+      count(file.operations.read),
+      count(file.operations.edit),
+      count(file.operations.write),
+      count(file.operations.search),
+      isChanged(file) ? `+${formatCount(file.linesAdded)}` : '',
+      isChanged(file) ? `-${formatCount(file.linesRemoved)}` : ''
+    ];
+
+    return `| ${cells.join(' | ')} |`;
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${formatCount(count)} ${noun}${count === 1 ? '' : 's'}`;
+}
\ No newline at end of file
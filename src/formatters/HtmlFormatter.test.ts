@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HtmlFormatter, escapeHtml } from './HtmlFormatter.js';
+
+describe('HtmlFormatter', () => {
+  let formatter: HtmlFormatter;
+
+  const toolSession = `{"type": "user", "sessionId": "test", "message": {"role": "user", "content": "Show me the file"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "message": {"role": "assistant", "content": [{"type": "tool_use", "id": "tool1", "name": "Read", "input": {"file_path": "/project/app.js"}}]}, "timestamp": "2024-01-01T00:01:00.000Z"}
+{"type": "user", "sessionId": "test", "message": {"role": "user", "content": [{"type": "tool_result", "tool_use_id": "tool1", "content": "     1→const answer = 42;"}]}, "timestamp": "2024-01-01T00:02:00.000Z"}`;
+
+  beforeEach(() => {
+    formatter = new HtmlFormatter();
+  });
+
+  describe('convertInput', () => {
+    it('should produce a standalone page', () => {
+      const html = formatter.convertInput(toolSession);
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<title>Show me the file</title>');
+      expect(html).toContain('<style>');
+      expect(html).not.toMatch(/<link|<script/);
+    });
+
+    it('should highlight code blocks with highlight.js', () => {
+      const html = formatter.convertInput(toolSession);
+
+      expect(html).toContain('class="hljs language-javascript"');
+      expect(html).toContain('<span class="hljs-keyword">const</span>');
+      expect(html).toContain('.hljs-keyword');
+    });
+
+    it('should keep tool sections collapsible', () => {
+      const html = formatter.convertInput(toolSession);
+
+      expect(html).toContain('<details><summary><b>Read:</b>');
+      expect(html).toContain('</details>');
+    });
+
+    it('should skip highlighting when disabled', () => {
+      const html = new HtmlFormatter({ syntaxHighlighting: false }).convertInput(toolSession);
+
+      expect(html).not.toContain('hljs-keyword');
+      expect(html).toContain('const answer = 42;');
+    });
+
+    it('should accept a stream of messages', async () => {
+      async function* stream() {
+        for (const line of toolSession.split('\n')) {
+          yield JSON.parse(line);
+        }
+      }
+
+      const html = await formatter.convertInput(stream());
+
+      expect(html).toBe(formatter.convertInput(toolSession));
+    });
+  });
+
+  describe('renderMarkdown', () => {
+    it('should escape markup that is not emitted by the processors', () => {
+      const html = formatter.renderMarkdown('> hello <script>alert(1)</script> <b>bold</b>');
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;');
+      expect(html).toContain('<b>bold</b>');
+    });
+
+    it('should strip attributes from allowed tags', () => {
+      const html = formatter.renderMarkdown('<details onclick="steal()"><summary>x</summary>\n\nbody\n\n</details>');
+
+      expect(html).toContain('<details><summary>x</summary>');
+      expect(html).not.toContain('onclick');
+    });
+
+    it('should show links and images with unsafe URLs as text', () => {
+      const html = formatter.renderMarkdown('[click](javascript:alert(1)) [tab](java\tscript:alert(1)) ![pic](data:text/html,x) <vbscript:msgbox>');
+
+      expect(html).not.toMatch(/<a |<img /);
+      expect(html).toContain('[click](javascript:alert(1))');
+      expect(html).toContain('![pic](data:text/html,x)');
+    });
+
+    it('should keep links and images with safe URLs', () => {
+      const html = formatter.renderMarkdown('[docs](https://example.com/a?b=1&c="2") [mail](mailto:a@example.com) [file](src/index.ts) ![logo](./logo.png "Logo")');
+
+      expect(html).toContain('<a href="https://example.com/a?b=1&amp;c=&quot;2&quot;">docs</a>');
+      expect(html).toContain('<a href="mailto:a@example.com">mail</a>');
+      expect(html).toContain('<a href="src/index.ts">file</a>');
+      expect(html).toContain('<img src="./logo.png" alt="logo" title="Logo">');
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('should escape special characters', () => {
+      expect(escapeHtml('<a href="x">&</a>')).toBe('&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { Session, MessageData, FormattingOptions } from '../types/index.js';
+import { DEFAULT_FORMATTING_OPTIONS, HTML_ALLOWED_TAGS, HTML_ALLOWED_URL_SCHEMES } from '../types/constants.js';
+import { MarkdownFormatter } from './MarkdownFormatter.js';
+import { SessionParser } from '../parsers/SessionParser.js';
+import { Marked, Tokens } from 'marked';
+import hljs from 'highlight.js';
+import { createRequire } from 'module';
+import * as fs from 'fs';
+
+const require = createRequire(import.meta.url);
+
+const PAGE_STYLES = `
+body { margin: 0; background: #f6f8fa; color: #1f2328; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+main { max-width: 960px; margin: 0 auto; padding: 32px 24px; background: #fff; min-height: 100vh; box-sizing: border-box; }
+h1 { border-bottom: 1px solid #d1d9e0; padding-bottom: 8px; }
+h3 { margin-top: 28px; color: #59636e; font-size: 13px; text-transform: uppercase; letter-spacing: 0.05em; }
+blockquote { margin: 0; padding: 4px 16px; border-left: 4px solid #0969da; background: #f0f6ff; border-radius: 0 6px 6px 0; }
+pre { background: #f6f8fa; border: 1px solid #d1d9e0; border-radius: 6px; padding: 12px; overflow-x: auto; font-size: 13px; line-height: 1.45; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+:not(pre) > code { background: #eff1f3; border-radius: 4px; padding: 1px 5px; font-size: 85%; }
+details { margin: 8px 0; border: 1px solid #d1d9e0; border-radius: 6px; padding: 4px 12px; }
+details[open] { padding-bottom: 8px; }
+summary { cursor: pointer; padding: 4px 0; }
+hr { border: 0; border-top: 2px solid #d1d9e0; margin: 48px 0; }
+`;
+
+/**
+ * Renders sessions as a standalone HTML page. The markdown produced by
+ * MarkdownFormatter is the source of truth; this class only changes how it
+ * is presented, highlighting code blocks with highlight.js and embedding all
+ * CSS so the page has no external dependencies.
+ */
+export class HtmlFormatter {
+  private markdownFormatter: MarkdownFormatter;
+  private options: FormattingOptions;
+  private marked: Marked;
+
+  constructor(options: FormattingOptions = DEFAULT_FORMATTING_OPTIONS) {
+    this.options = { ...DEFAULT_FORMATTING_OPTIONS, ...options };
+    this.markdownFormatter = new MarkdownFormatter(this.options);
+    this.marked = this.createMarked();
+  }
+
+  /**
+   * Convert JSONL input to a standalone HTML page
+   */
+  public convertInput(input: string): string;
+  public convertInput(input: AsyncIterable<MessageData>): Promise<string>;
+  public convertInput(input: string | AsyncIterable<MessageData>): string | Promise<string> {
+    const parser = new SessionParser();
+
+    if (typeof input !== 'string') {
+      return parser.parseStream(input).then(sessions => this.convertSessions(Array.from(sessions.values())));
+    }
+
+    return this.convertSessions(Array.from(parser.parseInput(input).values()));
+  }
+
+  /**
+   * Convert sessions to a single HTML page
+   */
+  public convertSessions(sessions: Session[]): string {
+    const results = sessions.map(session => this.markdownFormatter.convertSession(session));
+    const title = results.length === 1 ? results[0].summary : 'Claude Code Sessions';
+    const body = results.map(result => this.renderMarkdown(result.markdown)).join('\n<hr>\n');
+
+    return this.renderPage(title, body);
+  }
+
+  /**
+   * Convert a single session to a standalone HTML page
+   */
+  public convertSession(session: Session): string {
+    return this.convertSessions([session]);
+  }
+
+  /**
+   * Render a markdown fragment to HTML
+   */
+  public renderMarkdown(markdown: string): string {
+    return this.marked.parse(markdown, { async: false });
+  }
+
+  /**
+   * Wrap rendered HTML in a complete page with embedded styles
+   */
+  private renderPage(title: string, body: string): string {
+    const styles = this.options.syntaxHighlighting
+      ? `${PAGE_STYLES}\n${loadHighlightTheme()}`
+      : PAGE_STYLES;
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(title)}</title>`,
+      `<style>${styles}</style>`,
+      '</head>',
+      '<body>',
+      '<main>',
+      body,
+      '</main>',
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  private createMarked(): Marked {
+    const syntaxHighlighting = this.options.syntaxHighlighting;
+
+    return new Marked({
+      gfm: true,
+      renderer: {
+        code({ text, lang }: Tokens.Code): string {
+          const language = (lang || '').trim().split(/\s+/)[0];
+
+          if (syntaxHighlighting && language && hljs.getLanguage(language)) {
+            const highlighted = hljs.highlight(text, { language, ignoreIllegals: true }).value;
+            return `<pre><code class="hljs language-${escapeHtml(language)}">${highlighted}</code></pre>\n`;
+          }
+
+          return `<pre><code class="hljs">${escapeHtml(text)}</code></pre>\n`;
+        },
+        html({ text }: Tokens.HTML | Tokens.Tag): string {
+          return sanitizeHtml(text);
+        },
+        link({ href, title, tokens, raw }: Tokens.Link): string {
+          if (!isSafeUrl(href)) {
+            return escapeHtml(raw);
+          }
+
+          const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+          return `<a href="${escapeHtml(href)}"${titleAttribute}>${this.parser.parseInline(tokens)}</a>`;
+        },
+        image({ href, title, text, raw }: Tokens.Image): string {
+          if (!isSafeUrl(href)) {
+            return escapeHtml(raw);
+          }
+
+          const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+          return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttribute}>`;
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Keep the handful of tags the processors emit and escape everything else,
+ * so markup pasted into a transcript is shown rather than executed
+ */
+function sanitizeHtml(html: string): string {
+  return html.replace(/<[^>]*>?/g, tag => {
+    const match = tag.match(/^<(\/?)([a-zA-Z][\w-]*)[^>]*>$/);
+
+    if (match && HTML_ALLOWED_TAGS.includes(match[2].toLowerCase())) {
+      return `<${match[1]}${match[2].toLowerCase()}>`;
+    }
+
+    return escapeHtml(tag);
+  });
+}
+
+/**
+ * Whether a link or image URL is relative or uses an allowed scheme. Browsers
+ * ignore whitespace and control characters in a scheme, so they are too.
+ */
+function isSafeUrl(href: string): boolean {
+  const scheme = href.replace(/[\u0000-\u0020\u007f]/g, '').match(/^([a-zA-Z][a-zA-Z0-9+.-]*):/);
+  return !scheme || HTML_ALLOWED_URL_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+/**
+ * Load the highlight.js theme bundled with the package
+ */
+function loadHighlightTheme(): string {
+  try {
+    return fs.readFileSync(require.resolve('highlight.js/styles/github.css'), 'utf8');
+  } catch {
+    return '';
+  }
+}
\ No newline at end of file
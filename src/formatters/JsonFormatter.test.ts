@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JsonFormatter } from './JsonFormatter.js';
+import { SessionParser } from '../parsers/SessionParser.js';
+import { CONVERSATION_SCHEMA_VERSION } from '../types/constants.js';
+import { ConversationExport } from '../types/index.js';
+
+describe('JsonFormatter', () => {
+  let formatter: JsonFormatter;
+
+  const input = `{"type": "user", "sessionId": "test", "uuid": "u1", "parentUuid": null, "message": {"role": "user", "content": "Fix the bug"}, "timestamp": "2024-01-01T00:00:00.000Z", "cwd": "/project"}
+{"type": "assistant", "sessionId": "test", "uuid": "a1", "parentUuid": "u1", "message": {"role": "assistant", "model": "claude-opus-4", "usage": {"input_tokens": 10, "output_tokens": 5}, "content": [{"type": "text", "text": "Editing now."}, {"type": "tool_use", "id": "tool1", "name": "Edit", "input": {"file_path": "/project/a.js", "old_string": "a", "new_string": "b"}}]}, "timestamp": "2024-01-01T00:01:00.000Z"}
+{"type": "user", "sessionId": "test", "uuid": "u2", "parentUuid": "a1", "message": {"role": "user", "content": [{"type": "tool_result", "tool_use_id": "tool1", "content": "File updated"}]}, "toolUseResult": {"filePath": "/project/a.js", "structuredPatch": [{"oldStart": 1, "oldLines": 1, "newStart": 1, "newLines": 1, "lines": ["-a", "+b"]}]}, "timestamp": "2024-01-01T00:02:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "a2", "parentUuid": "u2", "message": {"role": "assistant", "content": [{"type": "tool_use", "id": "tool2", "name": "TodoWrite", "input": {"todos": [{"id": "1", "content": "Ship it", "status": "in_progress"}]}}]}, "timestamp": "2024-01-01T00:03:00.000Z"}
+{"type": "user", "sessionId": "test", "uuid": "u3", "parentUuid": "a2", "message": {"role": "user", "content": "<command-name>/review</command-name><command-args>now</command-args>"}, "timestamp": "2024-01-01T00:04:00.000Z"}`;
+
+  beforeEach(() => {
+    formatter = new JsonFormatter();
+  });
+
+  it('should emit a versioned document', () => {
+    const output: ConversationExport = JSON.parse(formatter.convertInput(input));
+
+    expect(output.schemaVersion).toBe(CONVERSATION_SCHEMA_VERSION);
+    expect(output.generator).toBe('cc2md');
+    expect(output.sessions).toHaveLength(1);
+    expect(output.sessions[0].cwd).toBe('/project');
+    expect(output.sessions[0].summary).toBe('Fix the bug');
+  });
+
+  it('should group messages into turns', () => {
+    const session = new JsonFormatter().buildExport(Array.from(new SessionParser().parseInput(input).values())).sessions[0];
+
+    expect(session.turns).toHaveLength(2);
+    expect(session.turns[0].prompt?.text).toBe('Fix the bug');
+    expect(session.turns[0].responses).toHaveLength(2);
+    expect(session.turns[1].prompt?.command).toEqual({ name: '/review', args: 'now' });
+    expect(session.turns[1].prompt?.text).toBe('/review now');
+  });
+
+  it('should pair tool calls with their results', () => {
+    const session = JSON.parse(formatter.convertInput(input)).sessions[0];
+    const edit = session.turns[0].responses[0].toolCalls[0];
+
+    expect(edit.name).toBe('Edit');
+    expect(edit.result.content).toBe('File updated');
+    expect(edit.result.isError).toBe(false);
+    expect(edit.result.filePath).toBe('/project/a.js');
+    expect(edit.result.structuredPatch[0].lines).toEqual(['-a', '+b']);
+    expect(edit.result.timestamp).toBe('2024-01-01T00:02:00.000Z');
+  });
+
+  it('should keep per-message timestamps, models and usage', () => {
+    const session = JSON.parse(formatter.convertInput(input)).sessions[0];
+    const response = session.turns[0].responses[0];
+
+    expect(response.timestamp).toBe('2024-01-01T00:01:00.000Z');
+    expect(response.model).toBe('claude-opus-4');
+    expect(response.usage).toEqual({ inputTokens: 10, outputTokens: 5, cacheCreationTokens: 0, cacheReadTokens: 0 });
+    expect(response.parentUuid).toBe('u1');
+  });
+
+  it('should expose todos from TodoWrite calls', () => {
+    const session = JSON.parse(formatter.convertInput(input)).sessions[0];
+    const todoCall = session.turns[0].responses[1].toolCalls[0];
+
+    expect(todoCall.todos).toEqual([{ id: '1', content: 'Ship it', status: 'in_progress' }]);
+    expect(todoCall.result).toBeUndefined();
+  });
+
+  it('should handle empty input', () => {
+    expect(JSON.parse(formatter.convertInput('')).sessions).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,190 @@
+import {
+  Session,
+  MessageData,
+  ContentItem,
+  ToolUseResult,
+  TokenUsage,
+  ConversationExport,
+  ConversationSession,
+  ConversationTurn,
+  ConversationMessage,
+  ConversationUsage,
+  ConversationToolCall,
+  ConversationToolResult
+} from '../types/index.js';
+import { CONVERSATION_SCHEMA_VERSION } from '../types/constants.js';
+import { MessageWrapper } from '../parsers/MessageWrapper.js';
+import { SessionParser } from '../parsers/SessionParser.js';
+
+/**
+ * Converts sessions to the versioned ConversationExport model, pairing each
+ * tool call with its result the same way the markdown processors do.
+ */
+export class JsonFormatter {
+  /**
+   * Convert JSONL input to a JSON document
+   */
+  public convertInput(input: string): string;
+  public convertInput(input: AsyncIterable<MessageData>): Promise<string>;
+  public convertInput(input: string | AsyncIterable<MessageData>): string | Promise<string> {
+    const parser = new SessionParser();
+
+    if (typeof input !== 'string') {
+      return parser.parseStream(input).then(sessions => this.stringify(Array.from(sessions.values())));
+    }
+
+    return this.stringify(Array.from(parser.parseInput(input).values()));
+  }
+
+  /**
+   * Build the export document for a set of sessions
+   */
+  public buildExport(sessions: Session[]): ConversationExport {
+    return {
+      schemaVersion: CONVERSATION_SCHEMA_VERSION,
+      generator: 'cc2md',
+      sessions: sessions.map(session => this.convertSession(session))
+    };
+  }
+
+  /**
+   * Convert a single session to its normalized form
+   */
+  public convertSession(session: Session): ConversationSession {
+    const toolCalls = new Map<string, ConversationToolCall>();
+    const turns: ConversationTurn[] = [];
+    let currentTurn: ConversationTurn | undefined;
+
+    const startTurn = (prompt?: ConversationMessage): ConversationTurn => {
+      currentTurn = { index: turns.length, prompt, responses: [] };
+      turns.push(currentTurn);
+      return currentTurn;
+    };
+
+    for (const data of session.messages) {
+      if (data.type !== 'user' && data.type !== 'assistant') {
+        continue;
+      }
+
+      const message = new MessageWrapper(data);
+      if (message.isCaveatMessage() || message.isApiError() || message.isEmptyCommandOutput()) {
+        continue;
+      }
+
+      if (data.type === 'assistant') {
+        const converted = this.convertMessage(message);
+        converted.toolCalls.forEach(toolCall => toolCalls.set(toolCall.id, toolCall));
+        (currentTurn || startTurn()).responses.push(converted);
+        continue;
+      }
+
+      const toolResults = message.getToolResults();
+      toolResults.forEach(toolResult => {
+        const toolCall = toolResult.tool_use_id ? toolCalls.get(toolResult.tool_use_id) : undefined;
+        if (toolCall) {
+          // toolUseResult describes the whole message, so only trust it when unambiguous
+          const toolUseResult = toolResults.length === 1 ? message.toolUseResult : undefined;
+          toolCall.result = this.convertToolResult(toolResult, data, toolUseResult);
+        }
+      });
+
+      const hasPrompt = message.isContentArray()
+        ? message.getRegularContent().length > 0
+        : (message.content as string).trim() !== '';
+      if (!hasPrompt || message.isInterruptionMessage()) {
+        continue;
+      }
+
+      if (message.isMeta) {
+        (currentTurn || startTurn()).responses.push(this.convertMessage(message));
+      } else {
+        startTurn(this.convertMessage(message));
+      }
+    }
+
+    return {
+      id: session.id,
+      summary: session.summary || session.generatedSummary || 'Untitled',
+      cwd: session.cwd,
+      firstTimestamp: session.firstTimestamp,
+      lastTimestamp: session.lastTimestamp,
+      messageCount: session.messageCount,
+      turns
+    };
+  }
+
+  private stringify(sessions: Session[]): string {
+    return JSON.stringify(this.buildExport(sessions), null, 2);
+  }
+
+  private convertMessage(message: MessageWrapper): ConversationMessage {
+    const data = message.data;
+    const command = message.extractCommand() || undefined;
+
+    return {
+      uuid: data.uuid,
+      parentUuid: data.parentUuid,
+      role: data.type === 'assistant' ? 'assistant' : 'user',
+      timestamp: data.timestamp,
+      model: data.message?.model,
+      usage: data.message?.usage ? this.convertUsage(data.message.usage) : undefined,
+      text: command ? `${command.name} ${command.args}`.trim() : message.getTextContent(),
+      command,
+      isMeta: message.isMeta || undefined,
+      isSidechain: data.isSidechain || undefined,
+      toolCalls: message.getToolUses().map(toolUse => this.convertToolCall(toolUse))
+    };
+  }
+
+  private convertUsage(usage: TokenUsage): ConversationUsage {
+    return {
+      inputTokens: usage.input_tokens || 0,
+      outputTokens: usage.output_tokens || 0,
+      cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+      cacheReadTokens: usage.cache_read_input_tokens || 0
+    };
+  }
+
+  private convertToolCall(toolUse: ContentItem): ConversationToolCall {
+    const input = toolUse.input || {};
+
+    return {
+      id: toolUse.id || '',
+      name: toolUse.name || 'unknown',
+      input,
+      todos: toolUse.name === 'TodoWrite' && Array.isArray(input.todos) ? input.todos : undefined
+    };
+  }
+
+  private convertToolResult(
+    toolResult: ContentItem,
+    data: MessageData,
+    toolUseResult?: ToolUseResult
+  ): ConversationToolResult {
+    return {
+      content: this.extractResultText(toolResult),
+      isError: toolResult.is_error || false,
+      timestamp: data.timestamp,
+      filePath: toolUseResult?.filePath || toolUseResult?.file?.filePath,
+      structuredPatch: toolUseResult?.structuredPatch,
+      stdout: toolUseResult?.stdout,
+      stderr: toolUseResult?.stderr,
+      interrupted: toolUseResult?.interrupted
+    };
+  }
+
+  private extractResultText(toolResult: ContentItem): string {
+    if (typeof toolResult.content === 'string') {
+      return toolResult.content;
+    }
+
+    if (Array.isArray(toolResult.content)) {
+      return toolResult.content
+        .filter(item => item.type === 'text')
+        .map(item => item.text || '')
+        .join('\n');
+    }
+
+    return '';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { MessageData, FormattingOptions } from '../types/index.js';
+import { DEFAULT_FORMATTING_OPTIONS } from '../types/constants.js';
+import { MarkdownFormatter } from './MarkdownFormatter.js';
+import { ConversationTree } from '../parsers/ConversationTree.js';
+import { MessageWrapper } from '../parsers/MessageWrapper.js';
+import { extractSessionTitle } from '../parsers/SessionParser.js';
+import { RedactionProcessor } from '../processors/RedactionProcessor.js';
+import Debug from 'debug';
+
+const debug = Debug('session-to-md:live');
+
+export interface LiveTranscriptOptions {
+  formatting?: FormattingOptions;
+  redaction?: RedactionProcessor;
+}
+
+/**
+ * Markdown for a session that is still being written. Messages are added as
+ * they arrive; each turn is rendered once it is followed by the next prompt,
+ * so an update only re-renders the turn in progress.
+ *
+ * Like a full conversion, only the active branch is shown. A message that
+ * forks from earlier in the conversation, as a retried or edited prompt
+ * does, makes the branch and every turn be worked out again.
+ */
+export class LiveTranscript {
+  private formatter: MarkdownFormatter;
+  private redaction?: RedactionProcessor;
+  private received: MessageData[] = [];
+  private active: MessageData[] = [];
+  private seen = new Set<string>();
+  // Uuid of the newest message on the active branch
+  private lastUuid?: string;
+  private summaries = new Map<string, string>();
+  // Indexes into `active` where each turn after the first begins
+  private turnStarts: number[] = [];
+  private settled: string[][] = [];
+
+  constructor(options: LiveTranscriptOptions = {}) {
+    this.formatter = new MarkdownFormatter(options.formatting || DEFAULT_FORMATTING_OPTIONS);
+    this.redaction = options.redaction;
+  }
+
+  public append(messages: MessageData[]): void {
+    let forked = false;
+
+    for (const message of messages) {
+      const data = this.redaction ? this.redaction.redactMessage(message) : message;
+
+      if (data.type === 'summary') {
+        if (data.leafUuid && data.summary) {
+          this.summaries.set(data.leafUuid, data.summary);
+        }
+        continue;
+      }
+
+      // Resumed sessions repeat earlier lines
+      if (data.uuid && this.seen.has(data.uuid)) {
+        continue;
+      }
+      this.received.push(data);
+
+      if (!data.uuid || data.isSidechain) {
+        this.addActive(data);
+        continue;
+      }
+      this.seen.add(data.uuid);
+
+      const parentUuid = data.parentUuid || data.logicalParentUuid || undefined;
+      if (forked || (this.lastUuid !== undefined && parentUuid !== this.lastUuid)) {
+        forked = true;
+      } else {
+        this.addActive(data);
+      }
+      this.lastUuid = data.uuid;
+    }
+
+    if (forked) {
+      this.rebuild();
+    }
+  }
+
+  /**
+   * Start over, for a file that was truncated or replaced
+   */
+  public clear(): void {
+    this.received = [];
+    this.seen.clear();
+    this.summaries.clear();
+    this.lastUuid = undefined;
+    this.reset([]);
+  }
+
+  public getMessageCount(): number {
+    return this.active.filter(data => data.type === 'user' || data.type === 'assistant').length;
+  }
+
+  public render(): string {
+    const turns = [0, ...this.turnStarts, this.active.length];
+
+    for (let turn = this.settled.length; turn < turns.length - 2; turn++) {
+      this.settled.push(this.formatter.convertMessages(this.active.slice(turns[turn], turns[turn + 1])));
+    }
+
+    const current = this.formatter.convertMessages(this.active.slice(turns[turns.length - 2]));
+    return [`# ${this.getTitle()}`, '', ...this.settled.flat(), ...current].join('\n');
+  }
+
+  private getTitle(): string {
+    // A summary written for any message in the session names it, as in a conversion
+    let summary: string | undefined;
+    for (const data of this.active) {
+      summary = (data.uuid && this.summaries.get(data.uuid)) || summary;
+    }
+    if (summary) {
+      return summary;
+    }
+
+    for (const data of this.active) {
+      const title = extractSessionTitle(data);
+      if (title) {
+        return title;
+      }
+    }
+    return 'Untitled';
+  }
+
+  private addActive(data: MessageData): void {
+    if (this.active.length > 0 && new MessageWrapper(data).isUserPrompt()) {
+      this.turnStarts.push(this.active.length);
+    }
+    this.active.push(data);
+  }
+
+  private rebuild(): void {
+    debug('Conversation forked, rebuilding the active branch');
+    const active = new ConversationTree(this.received).getActiveBranch();
+    this.lastUuid = [...active].reverse().find(data => data.uuid && !data.isSidechain)?.uuid;
+    this.reset(active);
+  }
+
+  private reset(active: MessageData[]): void {
+    this.active = [];
+    this.turnStarts = [];
+    this.settled = [];
+    active.forEach(data => this.addActive(data));
+  }
+}
\ No newline at end of file
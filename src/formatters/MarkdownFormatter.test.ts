@@ -124,6 +124,196 @@ invalid json line`;
       const result = formatter.convertInput('');
       expect(result).toBe('');
     });
+
+    it('should convert a stream of messages', async () => {
+      const input = `{"type": "user", "sessionId": "test", "message": {"role": "user", "content": "Hello"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "message": {"role": "assistant", "content": "Hi there!"}, "timestamp": "2024-01-01T00:01:00.000Z"}`;
+
+      async function* stream() {
+        for (const line of input.split('\n')) {
+          yield JSON.parse(line);
+        }
+      }
+
+      const result = await formatter.convertInput(stream());
+
+      expect(result).toBe(formatter.convertInput(input));
+      expect(result).toContain('Hi there!');
+    });
+  });
+
+  describe('formatting options', () => {
+    const longOutput = Array.from({ length: 20 }, (_, i) => `row ${i + 1}`).join('\\n');
+    const input = `{"type": "assistant", "sessionId": "test", "message": {"role": "assistant", "content": [{"type": "tool_use", "id": "tool1", "name": "Bash", "input": {"command": "seq 20"}}]}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "user", "sessionId": "test", "message": {"role": "user", "content": [{"type": "tool_result", "tool_use_id": "tool1", "content": "${longOutput}"}]}, "timestamp": "2024-01-01T00:01:00.000Z"}`;
+
+    it('should pass maxLines through to tool output', () => {
+      const result = new MarkdownFormatter({ maxLines: 10 }).convertInput(input);
+
+      expect(result).toContain('row 10');
+      expect(result).not.toContain('row 11');
+      expect(result).toContain('10 more lines truncated');
+    });
+
+    it('should apply options changed with setOptions', () => {
+      formatter.setOptions({ truncateLongOutput: false, maxLines: 10 });
+
+      const result = formatter.convertInput(input);
+
+      expect(result).toContain('row 20');
+    });
+  });
+
+  describe('sidechains', () => {
+    const input = `{"type": "user", "sessionId": "test", "uuid": "u1", "message": {"role": "user", "content": "Review my code"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "a1", "parentUuid": "u1", "message": {"role": "assistant", "content": [{"type": "tool_use", "id": "task1", "name": "Task", "input": {"description": "Review", "prompt": "Review src/app.js"}}]}, "timestamp": "2024-01-01T00:01:00.000Z"}
+{"type": "user", "sessionId": "test", "uuid": "s1", "parentUuid": null, "isSidechain": true, "message": {"role": "user", "content": "Review src/app.js"}, "timestamp": "2024-01-01T00:01:01.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "s2", "parentUuid": "s1", "isSidechain": true, "message": {"role": "assistant", "content": "Subagent says the code looks fine"}, "timestamp": "2024-01-01T00:01:02.000Z"}
+{"type": "user", "sessionId": "test", "uuid": "u2", "parentUuid": "a1", "message": {"role": "user", "content": [{"type": "tool_result", "tool_use_id": "task1", "content": "No issues found"}]}, "timestamp": "2024-01-01T00:02:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "a2", "parentUuid": "u2", "message": {"role": "assistant", "content": "All done"}, "timestamp": "2024-01-01T00:03:00.000Z"}`;
+
+    it('should nest subagent messages under the Task result', () => {
+      const result = formatter.convertInput(input);
+
+      const taskStart = result.indexOf('<b>Task:</b>');
+      const transcriptStart = result.indexOf('<b>Subagent transcript</b> (2 messages)');
+      const finalAnswer = result.indexOf('All done');
+
+      expect(taskStart).toBeGreaterThan(-1);
+      expect(transcriptStart).toBeGreaterThan(taskStart);
+      expect(result.indexOf('Subagent says the code looks fine')).toBeGreaterThan(transcriptStart);
+      expect(finalAnswer).toBeGreaterThan(transcriptStart);
+    });
+
+    it('should give the nested transcript its own deeper headings', () => {
+      const result = formatter.convertInput(input);
+
+      expect(result).toContain('#### User\n\n> Review src/app.js');
+      expect(result).toContain('#### Assistant\n\nSubagent says the code looks fine');
+      expect(result.match(/^### User$/gm)).toHaveLength(1);
+    });
+
+    it('should still show subagents whose Task never returned', () => {
+      const unfinished = input.split('\n').slice(0, 4).join('\n');
+
+      const result = formatter.convertInput(unfinished);
+
+      expect(result).toContain('Subagent transcript');
+      expect(result).toContain('Subagent says the code looks fine');
+    });
+  });
+
+  describe('cancelled edits', () => {
+    it('should show each edit a cancelled MultiEdit would have made', () => {
+      const input = `{"type": "user", "sessionId": "test", "message": {"role": "user", "content": "Rename the constants"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "message": {"role": "assistant", "content": [{"type": "tool_use", "id": "edit1", "name": "MultiEdit", "input": {"file_path": "/work/app.js", "edits": [{"old_string": "const A = 1", "new_string": "const ALPHA = 1"}, {"old_string": "const B = 2", "new_string": "const BETA = 2"}]}}]}, "timestamp": "2024-01-01T00:01:00.000Z"}
+{"type": "user", "sessionId": "test", "message": {"role": "user", "content": [{"type": "tool_result", "tool_use_id": "edit1", "content": "The user doesn't want to proceed with this tool use.", "is_error": true}]}, "timestamp": "2024-01-01T00:02:00.000Z"}`;
+
+      const result = formatter.convertInput(input);
+
+      expect(result).toContain('User cancelled tool execution');
+      expect(result).toContain('(2 edits)');
+      expect(result).toContain('```diff\n-const A = 1\n+const ALPHA = 1\n```');
+      expect(result).toContain('```diff\n-const B = 2\n+const BETA = 2\n```');
+      expect(result).not.toContain('[object Object]');
+    });
+  });
+
+  describe('conversation branches', () => {
+    const input = `{"type": "user", "sessionId": "test", "uuid": "u1", "parentUuid": null, "message": {"role": "user", "content": "First try"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "a1", "parentUuid": "u1", "message": {"role": "assistant", "content": "Old answer"}, "timestamp": "2024-01-01T00:01:00.000Z"}
+{"type": "user", "sessionId": "test", "uuid": "u2", "parentUuid": null, "message": {"role": "user", "content": "Edited prompt"}, "timestamp": "2024-01-01T00:02:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "a2", "parentUuid": "u2", "message": {"role": "assistant", "content": "New answer"}, "timestamp": "2024-01-01T00:03:00.000Z"}`;
+
+    it('should render only the active branch by default', () => {
+      const result = formatter.convertInput(input);
+
+      expect(result).toContain('New answer');
+      expect(result).not.toContain('Old answer');
+      expect(result).not.toContain('Alternate path');
+    });
+
+    it('should render abandoned branches as collapsed sections when enabled', () => {
+      const result = new MarkdownFormatter({ showAlternateBranches: true }).convertInput(input);
+
+      const alternate = result.indexOf('<b>Alternate path</b> (2 messages, not continued)');
+      expect(alternate).toBeGreaterThan(-1);
+      expect(result.indexOf('Old answer')).toBeGreaterThan(alternate);
+      expect(result.indexOf('Edited prompt')).toBeGreaterThan(result.indexOf('Old answer'));
+      expect(result).toContain('#### Assistant\n\nOld answer');
+    });
+  });
+
+  describe('usage footer', () => {
+    const input = `{"type": "user", "sessionId": "test", "message": {"role": "user", "content": "Hello"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "message": {"id": "msg_1", "role": "assistant", "model": "claude-sonnet-4-20250514", "content": "Hi", "usage": {"input_tokens": 1000000, "output_tokens": 2000}}, "timestamp": "2024-01-01T00:01:00.000Z"}`;
+
+    it('should not add a footer by default', () => {
+      expect(formatter.convertInput(input)).not.toContain('Token usage');
+    });
+
+    it('should total tokens and cost per model when enabled', () => {
+      const result = new MarkdownFormatter({ showUsage: true }).convertInput(input);
+
+      expect(result).toContain('**Token usage**');
+      expect(result).toContain('| claude-sonnet-4-20250514 | 1 | 1,000,000 | 2,000 | 0 | 0 | $3.03 |');
+    });
+
+    it('should use a custom price table', () => {
+      const priceTable = { 'claude-sonnet-4': { input: 1, output: 0, cacheWrite: 0, cacheRead: 0 } };
+      const result = new MarkdownFormatter({ showUsage: true, priceTable }).convertInput(input);
+
+      expect(result).toContain('| **Total** | 1 | 1,000,000 | 2,000 | 0 | 0 | $1.00 |');
+    });
+  });
+
+  describe('files manifest', () => {
+    const input = [
+      { type: 'assistant', sessionId: 'test', cwd: '/work/app', message: { role: 'assistant', content: [
+        { type: 'tool_use', id: 'call-1', name: 'Read', input: { file_path: '/work/app/src/index.ts' } }
+      ] } },
+      { type: 'user', sessionId: 'test', cwd: '/work/app', message: { role: 'user', content: [
+        { type: 'tool_result', tool_use_id: 'call-1', content: 'export {};' }
+      ] } }
+    ].map(line => JSON.stringify(line)).join('\n');
+
+    it('should not list files by default', () => {
+      expect(formatter.convertInput(input)).not.toContain('Files touched');
+    });
+
+    it('should list the files touched above the transcript when enabled', () => {
+      const result = new MarkdownFormatter({ showFiles: true }).convertInput(input);
+
+      expect(result).toContain('**Files touched**\n\n1 file read or searched');
+      expect(result).toContain('| `src/index.ts` | 1 |');
+      expect(result.indexOf('Files touched')).toBeLessThan(result.indexOf('<b>Read:</b>'));
+    });
+  });
+
+  describe('turn limit', () => {
+    const input = ['First question', 'Second question', 'Third question']
+      .flatMap((prompt, index) => [
+        { type: 'user', sessionId: 'test', message: { role: 'user', content: prompt } },
+        { type: 'assistant', sessionId: 'test', message: { role: 'assistant', content: `Answer ${index + 1}` } }
+      ])
+      .map(line => JSON.stringify(line))
+      .join('\n');
+
+    it('should render every turn by default', () => {
+      expect(formatter.convertInput(input)).toContain('Answer 3');
+    });
+
+    it('should stop before the first turn past the limit', () => {
+      const result = new MarkdownFormatter({ maxTurns: 2 }).convertInput(input);
+
+      expect(result).toContain('Answer 2');
+      expect(result).not.toContain('Third question');
+      expect(result).toContain('_… 1 more turn_');
+    });
+
+    it('should not add a note when the session fits', () => {
+      expect(new MarkdownFormatter({ maxTurns: 3 }).convertInput(input)).not.toContain('more turn');
+    });
   });
 
   describe('getSessionSummary', () => {
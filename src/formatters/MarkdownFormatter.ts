@@ -1,8 +1,14 @@
-import { Session, MessageData, ConversionResult, ProcessingContext, FormattingOptions } from '../types/index.js';
+import { Session, MessageData, ConversionResult, ProcessingContext, FormattingOptions, AlternateBranch } from '../types/index.js';
 import { DEFAULT_FORMATTING_OPTIONS } from '../types/constants.js';
 import { MessageProcessor } from '../processors/MessageProcessor.js';
 import { ToolResultProcessor } from '../processors/ToolResultProcessor.js';
+import { SidechainProcessor } from '../processors/SidechainProcessor.js';
+import { UsageProcessor } from '../processors/UsageProcessor.js';
+import { UsageFormatter } from './UsageFormatter.js';
+import { FileActivityProcessor } from '../processors/FileActivityProcessor.js';
+import { FileActivityFormatter } from './FileActivityFormatter.js';
 import { SessionParser } from '../parsers/SessionParser.js';
+import { MessageWrapper } from '../parsers/MessageWrapper.js';
 import Debug from 'debug';
 
 const debug = Debug('session-to-md:formatter');
@@ -11,20 +17,35 @@ export class MarkdownFormatter {
   private messageProcessor: MessageProcessor;
   private toolResultProcessor!: ToolResultProcessor;
   private options: FormattingOptions;
+  private headingLevel: number;
 
-  constructor(options: FormattingOptions = DEFAULT_FORMATTING_OPTIONS) {
+  constructor(options: FormattingOptions = DEFAULT_FORMATTING_OPTIONS, headingLevel: number = 3) {
     this.options = { ...DEFAULT_FORMATTING_OPTIONS, ...options };
-    this.messageProcessor = new MessageProcessor();
+    this.headingLevel = headingLevel;
+    this.messageProcessor = new MessageProcessor(headingLevel);
     // Don't create ToolResultProcessor here - create it fresh for each session
   }
 
   /**
-   * Convert JSONL input to markdown
+   * Convert JSONL input to markdown. Accepts either the raw JSONL text or a
+   * stream of parsed messages (see JsonlReader) for inputs too large to buffer.
    */
-  public convertInput(input: string): string {
+  public convertInput(input: string): string;
+  public convertInput(input: AsyncIterable<MessageData>): Promise<string>;
+  public convertInput(input: string | AsyncIterable<MessageData>): string | Promise<string> {
     const parser = new SessionParser();
-    const sessions = parser.parseInput(input);
     
+    if (typeof input !== 'string') {
+      return parser.parseStream(input).then(sessions => this.convertSessionMap(sessions));
+    }
+    
+    return this.convertSessionMap(parser.parseInput(input));
+  }
+
+  /**
+   * Convert parsed sessions to a single markdown document
+   */
+  public convertSessionMap(sessions: Map<string, Session>): string {
     const results: string[] = [];
     
     for (const [sessionId, session] of sessions) {
@@ -48,19 +69,151 @@ export class MarkdownFormatter {
   public convertSession(session: Session): ConversionResult {
     const summary = session.summary || session.generatedSummary || 'Untitled';
     
-    // Reset processor state for each session
+    const output: string[] = [];
+    output.push(`# ${summary}`, '');
+    
+    if (this.options.showFiles) {
+      output.push(...this.renderFilesManifest(session));
+    }
+    
+    const alternateBranches = this.options.showAlternateBranches ? session.alternateBranches : undefined;
+    const { messages, remainingTurns } = this.limitTurns(session.messages);
+    output.push(...this.renderMessages(messages, false, alternateBranches));
+    
+    if (remainingTurns > 0) {
+      output.push(`_… ${remainingTurns} more turn${remainingTurns === 1 ? '' : 's'}_`, '');
+    }
+    
+    if (this.options.showUsage) {
+      output.push(...this.renderUsageFooter(session));
+    }
+    
+    return {
+      markdown: output.join('\n'),
+      sessionId: session.id,
+      summary,
+      messageCount: session.messageCount
+    };
+  }
+
+  /**
+   * Render messages as a transcript without the session heading, for
+   * documents that are put together a piece at a time
+   */
+  public convertMessages(messages: MessageData[]): string[] {
+    return this.renderMessages(messages);
+  }
+
+  /**
+   * Cut the transcript before the prompt that starts turn `maxTurns + 1`
+   */
+  private limitTurns(messages: MessageData[]): { messages: MessageData[]; remainingTurns: number } {
+    if (this.options.maxTurns === undefined) {
+      return { messages, remainingTurns: 0 };
+    }
+    
+    const prompts = messages
+      .map((message, index) => new MessageWrapper(message).isUserPrompt() ? index : -1)
+      .filter(index => index !== -1);
+    
+    if (prompts.length <= this.options.maxTurns) {
+      return { messages, remainingTurns: 0 };
+    }
+    
+    return {
+      messages: messages.slice(0, prompts[this.options.maxTurns]),
+      remainingTurns: prompts.length - this.options.maxTurns
+    };
+  }
+
+  /**
+   * Render token usage and cost per model below the transcript
+   */
+  private renderUsageFooter(session: Session): string[] {
+    const usage = new UsageProcessor(this.options.priceTable);
+    usage.addSession(session);
+    
+    if (usage.getEntries().length === 0) {
+      return [];
+    }
+    
+    const table = new UsageFormatter().formatTable(['model'], usage.summarize(['model']), usage.getTotals());
+    return ['---', '', '**Token usage**', '', table, ''];
+  }
+
+  /**
+   * List the files the session touched above the transcript, so readers see
+   * what it changed before reading how
+   */
+  private renderFilesManifest(session: Session): string[] {
+    const activity = new FileActivityProcessor();
+    activity.addSession(session);
+    
+    const files = activity.getFiles();
+    if (files.length === 0) {
+      return [];
+    }
+    
+    return ['**Files touched**', '', new FileActivityFormatter().formatReport(files), '', '---', ''];
+  }
+
+  /**
+   * Render a transcript. Subagent (sidechain) messages are pulled out of the
+   * main flow and nested under the Task call that spawned them, and
+   * alternate branches are shown just before the point where the active
+   * branch diverged from them.
+   */
+  private renderMessages(
+    messages: MessageData[], 
+    isNested: boolean = false, 
+    alternateBranches: AlternateBranch[] = []
+  ): string[] {
+    let mainMessages = messages;
+    const transcripts: { [toolUseId: string]: string[] } = {};
+    const orphanedTranscripts: string[][] = [];
+    
+    if (!isNested) {
+      const grouped = new SidechainProcessor().groupSidechains(messages);
+      mainMessages = grouped.mainMessages;
+      
+      grouped.threads.forEach(thread => {
+        const transcript = this.renderNestedTranscript(
+          `<b>Subagent transcript</b> (${this.countConversationMessages(thread.messages)} messages)`,
+          thread.messages
+        );
+        if (thread.toolUseId) {
+          transcripts[thread.toolUseId] = transcript;
+        } else {
+          orphanedTranscripts.push(transcript);
+        }
+      });
+    }
+    
+    // Reset processor state for each transcript
     this.messageProcessor.resetContext();
+    const context = this.messageProcessor.getContext();
+    context.sidechainTranscripts = transcripts;
     
     // Create fresh ToolResultProcessor with current context after reset
-    this.toolResultProcessor = new ToolResultProcessor(this.messageProcessor.getContext());
+    this.toolResultProcessor = new ToolResultProcessor(context, this.options);
     
     const output: string[] = [];
-    output.push(`# ${summary}`, '');
+    
+    const branchesByResume = new Map<string, AlternateBranch[]>();
+    alternateBranches.forEach(branch => {
+      const key = branch.resumeUuid || '';
+      branchesByResume.set(key, [...(branchesByResume.get(key) || []), branch]);
+    });
     
     // Process each message
-    session.messages.forEach((message, index) => {
+    mainMessages.forEach((message, index) => {
+      if (message.uuid && branchesByResume.has(message.uuid)) {
+        branchesByResume.get(message.uuid)!.forEach(branch => output.push(...this.renderAlternateBranch(branch)));
+        branchesByResume.delete(message.uuid);
+      }
+      
       try {
-        const messageOutput = this.processMessage(message, session.messages, index);
+        const messageOutput = this.processMessage(message, mainMessages, index);
         output.push(...messageOutput);
       } catch (error) {
         console.error(`Error processing message at index ${index}:`, error);
@@ -73,12 +226,45 @@ export class MarkdownFormatter {
     const remainingResults = this.flushPendingToolResults();
     output.push(...remainingResults);
     
-    return {
-      markdown: output.join('\n'),
-      sessionId: session.id,
-      summary,
-      messageCount: session.messageCount
-    };
+    // Subagents whose Task call never returned (or was never found) go at the end
+    Object.values(context.sidechainTranscripts || {}).forEach(transcript => output.push(...transcript));
+    orphanedTranscripts.forEach(transcript => output.push(...transcript));
+    
+    // Same for branches whose resume point isn't rendered
+    branchesByResume.forEach(branches => {
+      branches.forEach(branch => output.push(...this.renderAlternateBranch(branch)));
+    });
+    
+    return output;
+  }
+
+  /**
+   * Render an abandoned branch as a collapsed section
+   */
+  private renderAlternateBranch(branch: AlternateBranch): string[] {
+    return this.renderNestedTranscript(
+      `<b>Alternate path</b> (${this.countConversationMessages(branch.messages)} messages, not continued)`,
+      branch.messages
+    );
+  }
+
+  /**
+   * Render messages as a collapsible transcript with deeper headings
+   */
+  private renderNestedTranscript(summary: string, messages: MessageData[]): string[] {
+    const nestedFormatter = new MarkdownFormatter(this.options, this.headingLevel + 1);
+    
+    return [
+      `<details><summary>${summary}</summary>`,
+      '',
+      ...nestedFormatter.renderMessages(messages, true),
+      '</details>',
+      ''
+    ];
+  }
+
+  private countConversationMessages(messages: MessageData[]): number {
+    return messages.filter(message => message.type === 'user' || message.type === 'assistant').length;
   }
 
   /**
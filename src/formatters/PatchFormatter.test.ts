@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { PatchFormatter } from './PatchFormatter.js';
+import { MessageData, ToolUseResult } from '../types/index.js';
+import { toolCall as loggedToolCall } from '../test/toolCalls.js';
+
+// The patch is written relative to the session's working directory
+const toolCall = (...args: Parameters<typeof loggedToolCall>): MessageData[] =>
+  loggedToolCall(...args).map(message => ({ ...message, cwd: '/work/app' }));
+
+const convert = (messages: MessageData[]) =>
+  new PatchFormatter().convertInput(messages.map(message => JSON.stringify(message)).join('\n'));
+
+describe('PatchFormatter', () => {
+  it('should add a new file written by the session', () => {
+    const patch = convert(toolCall(
+      'Write',
+      { file_path: '/work/app/src/new.ts', content: 'export const a = 1;\n' },
+      { type: 'create', filePath: '/work/app/src/new.ts', structuredPatch: [], originalFile: null }
+    ));
+
+    expect(patch).toBe([
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1,1 @@',
+      '+export const a = 1;',
+      ''
+    ].join('\n'));
+  });
+
+  it('should combine every change to a file into one diff', () => {
+    const original = 'one\ntwo\nthree\n';
+    const patch = convert([
+      ...toolCall(
+        'Edit',
+        { file_path: '/work/app/list.txt', old_string: 'one', new_string: 'ONE' },
+        { filePath: '/work/app/list.txt', oldString: 'one', newString: 'ONE', originalFile: original, structuredPatch: [] }
+      ),
+      ...toolCall(
+        'MultiEdit',
+        { file_path: '/work/app/list.txt', edits: [{ old_string: 'two', new_string: 'TWO' }, { old_string: 'three', new_string: 'THREE' }] },
+        { filePath: '/work/app/list.txt', originalFileContents: 'ONE\ntwo\nthree\n', structuredPatch: [] }
+      )
+    ]);
+
+    expect(patch).toBe([
+      'diff --git a/list.txt b/list.txt',
+      '--- a/list.txt',
+      '+++ b/list.txt',
+      '@@ -1,3 +1,3 @@',
+      '-one',
+      '-two',
+      '-three',
+      '+ONE',
+      '+TWO',
+      '+THREE',
+      ''
+    ].join('\n'));
+  });
+
+  it('should diff an overwritten file against what it held before', () => {
+    const patch = convert(toolCall(
+      'Write',
+      { file_path: '/work/app/a.txt', content: 'a\nc\n' },
+      { type: 'update', filePath: '/work/app/a.txt', originalFile: 'a\nb\n' }
+    ));
+
+    expect(patch).toContain('--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n');
+  });
+
+  it('should leave out failed and unrelated tool calls', () => {
+    const failedEdit = toolCall('Edit', { file_path: '/work/app/a.txt', old_string: 'a', new_string: 'b' }, undefined, true);
+    // A failed call records its error message where the result would go
+    failedEdit[1] = { ...failedEdit[1], toolUseResult: 'Error: String not found' as unknown as ToolUseResult };
+
+    const patch = convert([
+      ...failedEdit,
+      ...toolCall('Bash', { command: 'ls' }, { stdout: 'a.txt' })
+    ]);
+
+    expect(patch).toBe('');
+  });
+
+  it('should list files it cannot replay at the top', () => {
+    const patch = convert([
+      ...toolCall(
+        'Write',
+        { file_path: '/etc/hosts', content: '127.0.0.1 app\n' },
+        { type: 'update', filePath: '/etc/hosts', originalFile: '' }
+      ),
+      ...toolCall(
+        'Edit',
+        { file_path: '/work/app/old.txt', old_string: 'a', new_string: 'b' },
+        { filePath: '/work/app/old.txt', structuredPatch: [] }
+      ),
+      ...toolCall(
+        'Write',
+        { file_path: '/work/app/new.txt', content: 'new\n' },
+        { type: 'create', filePath: '/work/app/new.txt', originalFile: null }
+      )
+    ]);
+
+    const lines = patch.split('\n');
+    expect(lines[0]).toBe('# Skipped /etc/hosts: outside the working directory');
+    expect(lines[1]).toBe('# Skipped /work/app/old.txt: the session does not record what it held before it was changed');
+    expect(lines[2]).toBe('');
+    expect(lines[3]).toBe('diff --git a/new.txt b/new.txt');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { Session, MessageData, ContentItem, ToolUseResult, FileEdit } from '../types/index.js';
+import { MessageWrapper } from '../parsers/MessageWrapper.js';
+import { SessionParser } from '../parsers/SessionParser.js';
+import { createStructuredPatch, formatHunkHeader } from '../utils/diff.js';
+import Debug from 'debug';
+import * as path from 'path';
+
+const debug = Debug('session-to-md:patch');
+
+interface FileChange {
+  // Path in the patch, relative to the working directory of the session
+  name: string;
+  original: string;
+  current: string;
+  created: boolean;
+}
+
+interface TextEdit {
+  oldString: string;
+  newString: string;
+  replaceAll: boolean;
+}
+
+/**
+ * Builds one patch with every file change the sessions made through Edit,
+ * MultiEdit and Write, so `git apply` can replay them. Each file is diffed
+ * from its content before the first change to its content after the last,
+ * so a file edited many times still gets a single diff.
+ *
+ * Claude Code records what a file held before each change. A file whose
+ * earlier content is not recorded, or that is outside the working directory,
+ * is listed at the top of the patch instead, where `git apply` ignores it.
+ */
+export class PatchFormatter {
+  /**
+   * Convert JSONL input to a patch
+   */
+  public convertInput(input: string): string;
+  public convertInput(input: AsyncIterable<MessageData>): Promise<string>;
+  public convertInput(input: string | AsyncIterable<MessageData>): string | Promise<string> {
+    const parser = new SessionParser();
+
+    if (typeof input !== 'string') {
+      return parser.parseStream(input).then(sessions => this.convertSessions(Array.from(sessions.values())));
+    }
+
+    return this.convertSessions(Array.from(parser.parseInput(input).values()));
+  }
+
+  public convertSessions(sessions: Session[]): string {
+    const files = new Map<string, FileChange>();
+    const skipped = new Map<string, string>();
+    // Shared because a session split at a summary can have a tool call on
+    // one side and its result on the other
+    const toolCalls = new Map<string, ContentItem>();
+
+    for (const session of sessions) {
+      this.collectChanges(session, toolCalls, files, skipped);
+    }
+
+    const notes = Array.from(skipped, ([file, reason]) => `# Skipped ${file}: ${reason}`);
+    const diffs = Array.from(files.values()).flatMap(file => this.formatFileDiff(file));
+
+    return [...notes, ...(notes.length > 0 && diffs.length > 0 ? [''] : []), ...diffs]
+      .map(line => `${line}\n`)
+      .join('');
+  }
+
+  private collectChanges(
+    session: Session,
+    toolCalls: Map<string, ContentItem>,
+    files: Map<string, FileChange>,
+    skipped: Map<string, string>
+  ): void {
+    for (const data of session.messages) {
+      const message = new MessageWrapper(data);
+      message.getToolUses().forEach(toolUse => toolUse.id && toolCalls.set(toolUse.id, toolUse));
+
+      const toolResults = message.getToolResults();
+      // toolUseResult describes the whole message, so only trust it when unambiguous
+      const toolUseResult = toolResults.length === 1 && typeof message.toolUseResult === 'object'
+        ? message.toolUseResult
+        : undefined;
+      const toolCall = toolResults[0]?.tool_use_id ? toolCalls.get(toolResults[0].tool_use_id) : undefined;
+      if (!toolUseResult || !toolCall || toolResults[0].is_error) {
+        continue;
+      }
+
+      const filePath = toolCall.input?.file_path || toolUseResult.filePath;
+      if (!filePath || skipped.has(filePath)) {
+        continue;
+      }
+
+      const name = this.getPatchPath(filePath, session.cwd);
+      if (!name) {
+        skipped.set(filePath, 'outside the working directory');
+        continue;
+      }
+
+      const change = this.applyChange(toolCall, toolUseResult, files.get(filePath));
+      if (typeof change === 'string') {
+        debug(`Skipping ${filePath}: ${change}`);
+        skipped.set(filePath, change);
+        files.delete(filePath);
+      } else if (change) {
+        files.set(filePath, { name, ...change });
+      }
+    }
+  }
+
+  /**
+   * Apply one tool call to a file, returning the file's new state, a reason
+   * the file can't be part of the patch, or undefined for other tools
+   */
+  private applyChange(
+    toolCall: ContentItem,
+    toolUseResult: ToolUseResult,
+    file?: FileChange
+  ): Omit<FileChange, 'name'> | string | undefined {
+    const input = toolCall.input || {};
+    const recorded = toolUseResult.originalFile ?? toolUseResult.originalFileContents;
+    const created = !file && toolCall.name === 'Write' && toolUseResult.type === 'create';
+    // What the file held just before this change
+    const before = typeof recorded === 'string' ? recorded : created ? '' : file?.current;
+
+    let after: string | undefined;
+    switch (toolCall.name) {
+      case 'Write':
+        after = typeof input.content === 'string' ? input.content : toolUseResult.content;
+        break;
+      case 'Edit':
+        after = before === undefined ? undefined : applyEdits(before, [{
+          oldString: toolUseResult.oldString ?? input.old_string,
+          newString: toolUseResult.newString ?? input.new_string,
+          replaceAll: toolUseResult.replaceAll ?? input.replace_all === true
+        }]);
+        break;
+      case 'MultiEdit': {
+        const edits: FileEdit[] = toolUseResult.edits || input.edits || [];
+        after = before === undefined ? undefined : applyEdits(before, edits.map(edit => ({
+          oldString: edit.old_string,
+          newString: edit.new_string,
+          replaceAll: edit.replace_all === true
+        })));
+        break;
+      }
+      default:
+        return undefined;
+    }
+
+    if (before === undefined) {
+      return 'the session does not record what it held before it was changed';
+    }
+    if (after === undefined) {
+      return `a ${toolCall.name} could not be replayed`;
+    }
+
+    return {
+      original: file ? file.original : before,
+      current: after,
+      created: file ? file.created : created
+    };
+  }
+
+  private formatFileDiff(file: FileChange): string[] {
+    const hunks = createStructuredPatch(file.original, file.current);
+    if (hunks.length === 0) {
+      return [];
+    }
+
+    return [
+      `diff --git a/${file.name} b/${file.name}`,
+      ...(file.created ? ['new file mode 100644', '--- /dev/null'] : [`--- a/${file.name}`]),
+      `+++ b/${file.name}`,
+      ...hunks.flatMap(hunk => [formatHunkHeader(hunk), ...hunk.lines])
+    ];
+  }
+
+  /**
+   * The path of a file relative to the session's working directory, or
+   * undefined for files outside it
+   */
+  private getPatchPath(filePath: string, cwd?: string): string | undefined {
+    if (!cwd) {
+      return filePath.replace(/^\/+/, '');
+    }
+
+    const relative = path.relative(cwd, filePath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return undefined;
+    }
+    return relative.split(path.sep).join('/');
+  }
+}
+
+/**
+ * Replace text the way Edit does, or return undefined when the text to
+ * replace is missing
+ */
+function applyEdits(content: string, edits: TextEdit[]): string | undefined {
+  let result = content;
+
+  for (const edit of edits) {
+    if (typeof edit.oldString !== 'string' || typeof edit.newString !== 'string' || !result.includes(edit.oldString)) {
+      return undefined;
+    }
+
+    if (edit.replaceAll) {
+      result = result.split(edit.oldString).join(edit.newString);
+    } else {
+      const index = result.indexOf(edit.oldString);
+      result = result.slice(0, index) + edit.newString + result.slice(index + edit.oldString.length);
+    }
+  }
+
+  return result;
+}
\ No newline at end of file
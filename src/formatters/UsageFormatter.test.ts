@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { UsageFormatter, formatCost, formatCount } from './UsageFormatter.js';
+import { UsageProcessor } from '../processors/UsageProcessor.js';
+
+describe('UsageFormatter', () => {
+  const formatter = new UsageFormatter();
+
+  it('should say when there is no usage', () => {
+    expect(formatter.formatReport(new UsageProcessor(), [['model']])).toBe('No token usage found.');
+  });
+
+  it('should render a table per grouping with a total row', () => {
+    const usage = new UsageProcessor();
+    usage.addMessage({
+      type: 'assistant',
+      sessionId: 'abc',
+      timestamp: '2025-07-01T10:00:00Z',
+      message: { id: 'msg_1', role: 'assistant', model: 'claude-sonnet-4-20250514', content: 'Hi', usage: { output_tokens: 1500 } }
+    });
+
+    const report = formatter.formatReport(usage, [['session'], ['month', 'model']]);
+
+    expect(report).toContain('| Session | Responses | Input | Output | Cache write | Cache read | Cost |');
+    expect(report).toContain('| abc | 1 | 0 | 1,500 | 0 | 0 | $0.02 |');
+    expect(report).toContain('| Month / Model |');
+    expect(report).toContain('| 2025-07 / claude-sonnet-4-20250514 |');
+    expect(report.match(/\| \*\*Total\*\* \|/g)).toHaveLength(2);
+  });
+
+  it('should note models without a price', () => {
+    const usage = new UsageProcessor({});
+    usage.addMessage({
+      type: 'assistant',
+      sessionId: 'abc',
+      message: { id: 'msg_1', role: 'assistant', model: 'mystery-model', content: 'Hi', usage: { output_tokens: 1 } }
+    });
+
+    expect(formatter.formatReport(usage, [['model']])).toContain('No price configured for: mystery-model');
+  });
+
+  it('should format counts and costs', () => {
+    expect(formatCount(1234567)).toBe('1,234,567');
+    expect(formatCost(0.195)).toBe('$0.20');
+  });
+});
\ No newline at end of file
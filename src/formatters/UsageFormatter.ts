@@ -0,0 +1,70 @@
+import { UsageTotals, UsageGrouping, UsageRow } from '../types/index.js';
+import { UsageProcessor } from '../processors/UsageProcessor.js';
+
+const GROUPING_LABELS: Record<UsageGrouping, string> = {
+  session: 'Session',
+  model: 'Model',
+  day: 'Day',
+  month: 'Month',
+  project: 'Project'
+};
+
+/**
+ * Renders token usage as markdown tables, for the `usage` command and the
+ * optional usage footer of converted sessions
+ */
+export class UsageFormatter {
+  /**
+   * Render one table per grouping set, e.g. `[['model'], ['month', 'project']]`
+   */
+  public formatReport(processor: UsageProcessor, groupings: UsageGrouping[][]): string {
+    if (processor.getEntries().length === 0) {
+      return 'No token usage found.';
+    }
+
+    const sections = groupings.map(by => this.formatTable(by, processor.summarize(by), processor.getTotals()));
+
+    const unpriced = processor.getUnpricedModels();
+    if (unpriced.length > 0) {
+      sections.push(`_No price configured for: ${unpriced.join(', ')}. Their cost is counted as $0._`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Render rows as a table with a closing total row
+   */
+  public formatTable(by: UsageGrouping[], rows: UsageRow[], total: UsageTotals): string {
+    const label = by.map(grouping => GROUPING_LABELS[grouping]).join(' / ');
+
+    return [
+      `| ${label} | Responses | Input | Output | Cache write | Cache read | Cost |`,
+      '|---|---:|---:|---:|---:|---:|---:|',
+      ...rows.map(row => this.formatRow(row.key, row.totals)),
+      this.formatRow('**Total**', total)
+    ].join('\n');
+  }
+
+  private formatRow(key: string, totals: UsageTotals): string {
+    const cells = [
+      key.replace(/\|/g, '\\|'),
+      formatCount(totals.responses),
+      formatCount(totals.inputTokens),
+      formatCount(totals.outputTokens),
+      formatCount(totals.cacheCreationTokens),
+      formatCount(totals.cacheReadTokens),
+      formatCost(totals.cost)
+    ];
+
+    return `| ${cells.join(' | ')} |`;
+  }
+}
+
+export function formatCount(count: number): string {
+  return count.toLocaleString('en-US');
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { Session, MessageData, FormattingOptions, OutputFormat } from '../types/index.js';
+import { OUTPUT_FORMATS } from '../types/constants.js';
+import { MarkdownFormatter } from './MarkdownFormatter.js';
+import { HtmlFormatter } from './HtmlFormatter.js';
+import { JsonFormatter } from './JsonFormatter.js';
+import { PatchFormatter } from './PatchFormatter.js';
+import { SessionParser } from '../parsers/SessionParser.js';
+import { RedactionProcessor } from '../processors/RedactionProcessor.js';
+
+/**
+ * Check that a user-supplied format name is one we can produce
+ */
+export function parseOutputFormat(format: string): OutputFormat {
+  const normalized = format.toLowerCase();
+  if (normalized === 'md') {
+    return 'markdown';
+  }
+
+  if (!OUTPUT_FORMATS.includes(normalized as OutputFormat)) {
+    throw new Error(`Unknown format '${format}'. Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  return normalized as OutputFormat;
+}
+
+/**
+ * Get the file extension conventionally used for a format
+ */
+export function getFormatExtension(format: OutputFormat): string {
+  switch (format) {
+    case 'html':
+      return '.html';
+    case 'json':
+      return '.json';
+    case 'patch':
+      return '.patch';
+    case 'markdown':
+      return '.md';
+  }
+}
+
+/**
+ * Convert a stream of messages to the requested format, redacting secrets
+ * from the parsed sessions first when a redaction processor is given
+ */
+export async function convertInputToFormat(
+  input: AsyncIterable<MessageData>,
+  format: OutputFormat,
+  options?: FormattingOptions,
+  redaction?: RedactionProcessor
+): Promise<string> {
+  let sessions = await new SessionParser().parseStream(input);
+  if (redaction) {
+    sessions = redaction.redactSessions(sessions);
+  }
+
+  return convertSessionsToFormat(sessions, format, options);
+}
+
+/**
+ * Convert parsed sessions to a single document in the requested format
+ */
+export function convertSessionsToFormat(
+  sessions: Map<string, Session>,
+  format: OutputFormat,
+  options?: FormattingOptions
+): string {
+  switch (format) {
+    case 'html':
+      return new HtmlFormatter(options).convertSessions(Array.from(sessions.values()));
+    case 'json':
+      return JSON.stringify(new JsonFormatter().buildExport(Array.from(sessions.values())), null, 2);
+    case 'patch':
+      return new PatchFormatter().convertSessions(Array.from(sessions.values()));
+    case 'markdown':
+      return new MarkdownFormatter(options).convertSessionMap(sessions);
+  }
+}
+
+/**
+ * Convert a single parsed session to the requested format
+ */
+export function convertSessionToFormat(
+  session: Session,
+  format: OutputFormat,
+  options?: FormattingOptions
+): string {
+  switch (format) {
+    case 'html':
+      return new HtmlFormatter(options).convertSession(session);
+    case 'json':
+      return JSON.stringify(new JsonFormatter().buildExport([session]), null, 2);
+    case 'patch':
+      return new PatchFormatter().convertSessions([session]);
+    case 'markdown':
+      return new MarkdownFormatter(options).convertSession(session).markdown;
+  }
+}
\ No newline at end of file
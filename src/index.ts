@@ -2,8 +2,31 @@
 
 import { Command } from 'commander';
 import { MarkdownFormatter } from './formatters/MarkdownFormatter.js';
+import { convertInputToFormat, parseOutputFormat } from './formatters/formats.js';
 import { SessionParser } from './parsers/SessionParser.js';
-import { DEFAULT_FORMATTING_OPTIONS } from './types/constants.js';
+import { readJsonlFile, readJsonlStream } from './parsers/JsonlReader.js';
+import { JsonlTail, TailRead } from './parsers/JsonlTail.js';
+import { LiveTranscript } from './formatters/LiveTranscript.js';
+import { UsageFormatter } from './formatters/UsageFormatter.js';
+import { FileActivityFormatter } from './formatters/FileActivityFormatter.js';
+import { UsageProcessor, loadPriceTable } from './processors/UsageProcessor.js';
+import { RedactionProcessor } from './processors/RedactionProcessor.js';
+import { FileActivityProcessor } from './processors/FileActivityProcessor.js';
+import { SearchProcessor, parseSearchQuery } from './processors/SearchProcessor.js';
+import { loadToolRenderers, findToolRendererConfig } from './renderers/ToolRendererRegistry.js';
+import {
+  listProjectDirectories,
+  findProjectCwd,
+  getProjectDisplayName,
+  findSessionFile,
+  findProjectForDirectory,
+  findLatestSessionFile,
+  ProjectDirectory
+} from './utils/projects.js';
+import { normalizePath } from './utils/paths.js';
+import { formatTimestamp } from './utils/time.js';
+import { DEFAULT_FORMATTING_OPTIONS, USAGE_GROUPINGS, SEARCH_SETTINGS } from './types/constants.js';
+import { UsageGrouping, ToolRendererMap } from './types/index.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -17,29 +40,84 @@ program
 
 program
   .command('convert')
-  .description('Convert JSONL input to markdown')
+  .description('Convert JSONL input to markdown, HTML or JSON')
   .option('-i, --input <file>', 'Input JSONL file (default: stdin)')
-  .option('-o, --output <file>', 'Output markdown file (default: stdout)')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('-f, --format <format>', 'Output format: markdown, html, json or patch', 'markdown')
   .option('--no-syntax-highlighting', 'Disable syntax highlighting')
   .option('--no-relative-paths', 'Disable path relativization')
   .option('--no-truncate', 'Disable truncation of long output')
   .option('--max-lines <number>', 'Maximum lines for truncation', '50')
+  .option('--alternate-branches', 'Include abandoned conversation branches as collapsed sections')
+  .option('--usage', 'Append a token usage and cost footer to each session')
+  .option('--files', 'List the files each session touched above its transcript')
+  .option('--prices <file>', 'JSON price table overriding the built-in model prices')
+  .option('--renderers <file>', 'Module of custom tool renderers (default: ~/.config/cc2md/renderers.js when present)')
+  .option('--redact', 'Replace API keys, tokens and other secrets with placeholders')
+  .option('--redact-pattern <regex>', 'Additional pattern to redact (repeatable, implies --redact)', collect, [])
   .action(async (options) => {
     try {
-      const input = options.input ? fs.readFileSync(options.input, 'utf8') : await readStdin();
+      const format = parseOutputFormat(options.format);
+      const maxLines = parseInt(options.maxLines, 10);
+      if (isNaN(maxLines) || maxLines < 1) {
+        throw new Error(`Invalid --max-lines value: ${options.maxLines}`);
+      }
       
-      const formatter = new MarkdownFormatter({
+      const input = options.input ? readJsonlFile(options.input) : readJsonlStream(process.stdin);
+      const redaction = options.redact || options.redactPattern.length > 0
+        ? new RedactionProcessor({ customPatterns: options.redactPattern })
+        : undefined;
+      
+      const output = await convertInputToFormat(input, format, {
         syntaxHighlighting: options.syntaxHighlighting !== false,
         relativizePaths: options.relativePaths !== false,
         truncateLongOutput: options.truncate !== false,
-        maxLines: parseInt(options.maxLines, 10)
-      });
+        maxLines,
+        showAlternateBranches: options.alternateBranches === true,
+        showUsage: options.usage === true,
+        showFiles: options.files === true,
+        priceTable: options.prices ? loadPriceTable(options.prices) : undefined,
+        toolRenderers: await loadRenderers(options.renderers)
+      }, redaction);
       
-      const markdown = formatter.convertInput(input);
+      // Report on stderr so stdout stays clean for piping
+      if (redaction) {
+        console.error(redaction.formatReport());
+      }
       
       if (options.output) {
-        fs.writeFileSync(options.output, markdown);
+        fs.writeFileSync(options.output, output);
         console.log(`Converted session to ${options.output}`);
+      } else {
+        console.log(output);
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export [session]')
+  .description('Export one session to markdown by id, path or selector')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('-p, --projects-dir <dir>', 'Claude projects directory', '~/.claude/projects')
+  .option('--latest', 'Export the most recent session')
+  .option('--project <path>', 'Only consider sessions of the project for this directory or project directory name')
+  .option('--cwd <dir>', 'Only consider sessions of the project for this directory or the closest parent that has one')
+  .option('--files', 'List the files the session touched above the transcript')
+  .option('--renderers <file>', 'Module of custom tool renderers (default: ~/.config/cc2md/renderers.js when present)')
+  .action(async (session, options) => {
+    try {
+      const { sessionId, files } = await selectSession(session, options);
+      const markdown = await convertInputToFormat(new SessionParser().streamSessionData(sessionId, files), 'markdown', {
+        ...DEFAULT_FORMATTING_OPTIONS,
+        showFiles: options.files === true,
+        toolRenderers: await loadRenderers(options.renderers)
+      });
+      if (options.output) {
+        fs.writeFileSync(options.output, markdown);
+        console.log(`Exported session ${sessionId} to ${options.output}`);
       } else {
         console.log(markdown);
       }
@@ -49,14 +127,47 @@ program
     }
   });
 
+program
+  .command('files [session]')
+  .description('List the files a session read, edited, wrote or searched')
+  .option('-p, --projects-dir <dir>', 'Claude projects directory', '~/.claude/projects')
+  .option('--latest', 'Use the most recent session')
+  .option('--project <path>', 'Only consider sessions of the project for this directory or project directory name')
+  .option('--cwd <dir>', 'Only consider sessions of the project for this directory or the closest parent that has one')
+  .option('--json', 'Output the files as JSON')
+  .action(async (session, options) => {
+    try {
+      const { sessionId, files } = await selectSession(session, options);
+      const parser = new SessionParser();
+      const sessions = parser.parseInput(parser.getSessionData(sessionId, files));
+      
+      const activity = new FileActivityProcessor();
+      sessions.forEach(data => activity.addSession(data));
+      
+      if (options.json) {
+        console.log(JSON.stringify({ sessionId, files: activity.getFiles() }, null, 2));
+      } else {
+        console.log(new FileActivityFormatter().formatReport(activity.getFiles()));
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('browse')
   .description('Browse Claude Code sessions interactively')
   .option('-p, --projects-dir <dir>', 'Claude projects directory', '~/.claude/projects')
+  .option('--no-cache', 'Read every session file instead of using the session index in ~/.cache/cc2md')
+  .option('--renderers <file>', 'Module of custom tool renderers (default: ~/.config/cc2md/renderers.js when present)')
   .action(async (options) => {
     try {
       const { SessionBrowser } = await import('./ui/SessionBrowser.js');
-      const browser = new SessionBrowser(options.projectsDir);
+      const browser = new SessionBrowser(options.projectsDir, {
+        cache: options.cache,
+        toolRenderers: await loadRenderers(options.renderers)
+      });
       await browser.run();
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : error);
@@ -64,6 +175,155 @@ program
     }
   });
 
+program
+  .command('watch <session>')
+  .description('Keep a markdown transcript of a running session up to date as it grows')
+  .option('-o, --output <file>', 'Markdown file to rewrite on every change (default: a live terminal view)')
+  .option('-p, --projects-dir <dir>', 'Claude projects directory', '~/.claude/projects')
+  .option('--redact', 'Replace API keys, tokens and other secrets with placeholders')
+  .option('--renderers <file>', 'Module of custom tool renderers (default: ~/.config/cc2md/renderers.js when present)')
+  .action(async (session, options) => {
+    try {
+      if (!options.output && !process.stdout.isTTY) {
+        throw new Error('Output is not a terminal, use --output to write the transcript to a file');
+      }
+      
+      // A path to a session file, or the id of a session in the projects directory
+      const file = fs.existsSync(session) && fs.statSync(session).isFile()
+        ? session
+        : findSessionFile(normalizePath(options.projectsDir), session);
+      const transcript = new LiveTranscript({
+        formatting: { ...DEFAULT_FORMATTING_OPTIONS, toolRenderers: await loadRenderers(options.renderers) },
+        redaction: options.redact ? new RedactionProcessor() : undefined
+      });
+      const tail = new JsonlTail(file);
+      
+      const update = ({ messages, restarted }: TailRead) => {
+        if (restarted) {
+          transcript.clear();
+        }
+        if (messages.length === 0 && !restarted) {
+          return;
+        }
+        transcript.append(messages);
+        
+        const markdown = transcript.render();
+        const status = `Watching ${file} · ${transcript.getMessageCount()} messages · updated ${formatTimestamp(new Date().toISOString())} · Ctrl+C to stop`;
+        if (options.output) {
+          writeFileAtomic(options.output, markdown);
+          console.log(status);
+        } else {
+          showTail(markdown, status);
+        }
+      };
+      
+      update(await tail.read());
+      // Keep watching through a failed update; the next change may succeed
+      const unwatch = tail.follow(update, error => console.error('Error:', error instanceof Error ? error.message : error));
+      
+      process.on('SIGINT', () => {
+        unwatch();
+        if (!options.output) {
+          process.stdout.write('\n');
+        }
+        process.exit(0);
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('usage')
+  .description('Report token usage and cost per session, model and day')
+  .option('-i, --input <file>', 'Input JSONL file (default: every project in the projects directory)')
+  .option('-p, --projects-dir <dir>', 'Claude projects directory', '~/.claude/projects')
+  .option('-b, --by <groupings>', `Comma-separated groupings for a single table: ${USAGE_GROUPINGS.join(', ')}`)
+  .option('--prices <file>', 'JSON price table overriding the built-in model prices')
+  .option('--json', 'Output the report as JSON')
+  .action(async (options) => {
+    try {
+      const usage = new UsageProcessor(options.prices ? loadPriceTable(options.prices) : undefined);
+      
+      if (options.input) {
+        for await (const data of readJsonlFile(options.input)) {
+          usage.addMessage(data);
+        }
+      } else {
+        for (const project of listProjectDirectories(normalizePath(options.projectsDir))) {
+          const label = getProjectDisplayName(project.name, await findProjectCwd(project.files));
+          for (const file of project.files) {
+            for await (const data of readJsonlFile(file)) {
+              usage.addMessage(data, label);
+            }
+          }
+        }
+      }
+      
+      // Monthly spend per project is the default view across all projects
+      const groupings: UsageGrouping[][] = options.by
+        ? [parseUsageGroupings(options.by)]
+        : options.input
+          ? [['session'], ['model'], ['day']]
+          : [['month', 'project'], ['model']];
+      
+      if (options.json) {
+        console.log(JSON.stringify({
+          totals: usage.getTotals(),
+          groups: groupings.map(by => ({ by, rows: usage.summarize(by) })),
+          unpricedModels: usage.getUnpricedModels()
+        }, null, 2));
+      } else {
+        console.log(new UsageFormatter().formatReport(usage, groupings));
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('search <query>')
+  .description('Search prompts, responses and tool calls across all sessions')
+  .option('-p, --projects-dir <dir>', 'Claude projects directory', '~/.claude/projects')
+  .option('-r, --regex', 'Treat the query text as a regular expression')
+  .option('-l, --limit <number>', 'Maximum number of results', String(SEARCH_SETTINGS.DEFAULT_LIMIT))
+  .action(async (query, options) => {
+    try {
+      const limit = parseInt(options.limit, 10);
+      if (isNaN(limit) || limit < 1) {
+        throw new Error(`Invalid --limit value: ${options.limit}`);
+      }
+      
+      const searchQuery = parseSearchQuery(query, { regex: options.regex === true });
+      const results = await new SearchProcessor(searchQuery).searchProjects(normalizePath(options.projectsDir), limit);
+      
+      if (results.length === 0) {
+        console.log('No matches found.');
+        return;
+      }
+      
+      // Highlight with ANSI colors on a terminal and markdown bold otherwise
+      const [open, close] = process.stdout.isTTY ? ['\x1b[1;33m', '\x1b[0m'] : ['**', '**'];
+      
+      for (const result of results) {
+        const { snippet, highlight } = result;
+        const where = result.toolName ? `${result.field}, ${result.toolName}` : result.field;
+        console.log(`${result.project}  ${result.sessionId}  ${result.timestamp ? formatTimestamp(result.timestamp) : ''}  (${where})`);
+        const matched = snippet.slice(highlight.start, highlight.end);
+        console.log(`  ${snippet.slice(0, highlight.start)}${matched ? open + matched + close : ''}${snippet.slice(highlight.end)}`);
+        console.log(`  ${result.file}${result.uuid ? `#${result.uuid}` : ''}`);
+        console.log('');
+      }
+      
+      console.log(`${results.length} match(es)${results.length === limit ? ' (limit reached)' : ''}`);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('validate')
   .description('Validate JSONL input')
@@ -136,14 +396,12 @@ program
       if (process.stdin.isTTY) {
         // No pipe detected, launch browse mode
         const { SessionBrowser } = await import('./ui/SessionBrowser.js');
-        const browser = new SessionBrowser('~/.claude/projects');
+        const browser = new SessionBrowser('~/.claude/projects', { toolRenderers: await loadRenderers() });
         await browser.run();
       } else {
-        // Data is being piped, process it as before
-        const input = await readStdin();
-        
-        const formatter = new MarkdownFormatter(DEFAULT_FORMATTING_OPTIONS);
-        const markdown = formatter.convertInput(input);
+        // Data is being piped, stream it line by line
+        const formatter = new MarkdownFormatter({ ...DEFAULT_FORMATTING_OPTIONS, toolRenderers: await loadRenderers() });
+        const markdown = await formatter.convertInput(readJsonlStream(process.stdin));
         
         console.log(markdown);
       }
@@ -153,6 +411,111 @@ program
     }
   });
 
+// Helper function to collect repeatable options
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Helper function to load custom tool renderers from --renderers, or from
+// the config directory when it has a renderers module
+async function loadRenderers(file?: string): Promise<ToolRendererMap | undefined> {
+  const config = file ? normalizePath(file) : findToolRendererConfig();
+  return config ? loadToolRenderers(config) : undefined;
+}
+
+// Helper function to find the session a file holds: the one it is named
+// after, or for a renamed copy the last one it records
+async function findFileSessionId(file: string): Promise<string> {
+  const name = path.basename(file, '.jsonl');
+  let sessionId: string | undefined;
+  
+  for await (const data of readJsonlFile(file)) {
+    if (data.sessionId === name) {
+      return name;
+    }
+    sessionId = data.sessionId || sessionId;
+  }
+  
+  if (!sessionId) {
+    throw new Error(`No session messages in ${file}`);
+  }
+  return sessionId;
+}
+
+// Helper function to pick the session a command works on, by id, path or
+// selector, along with the files of its project
+async function selectSession(
+  session: string | undefined,
+  options: { projectsDir: string; latest?: boolean; project?: string; cwd?: string }
+): Promise<{ sessionId: string; files: string[] }> {
+  const projectsDir = normalizePath(options.projectsDir);
+  const selector = options.latest || options.project || options.cwd;
+  if (session && selector) {
+    throw new Error('Give either a session or --latest, --project and --cwd, not both');
+  }
+  if (!session && !selector) {
+    throw new Error('Give a session id or file, or select one with --latest, --project or --cwd');
+  }
+  if (options.project && options.cwd) {
+    throw new Error('Give only one of --project and --cwd');
+  }
+  
+  let file: string;
+  if (session) {
+    file = fs.existsSync(session) && fs.statSync(session).isFile()
+      ? session
+      : findSessionFile(projectsDir, session);
+  } else {
+    const project = options.project
+      ? await findProject(projectsDir, options.project)
+      : options.cwd
+        ? await findProjectForDirectory(projectsDir, options.cwd, { parents: true })
+        : undefined;
+    const files = project ? project.files : listProjectDirectories(projectsDir).flatMap(dir => dir.files);
+    file = findLatestSessionFile(files);
+  }
+  
+  // A session continues across files when it is resumed, so read its whole project
+  const sessionId = await findFileSessionId(file);
+  const files = fs.readdirSync(path.dirname(file))
+    .filter(name => name.endsWith('.jsonl'))
+    .map(name => path.join(path.dirname(file), name));
+  
+  return { sessionId, files };
+}
+
+// Helper function to find a project by directory name or by the directory it is for
+async function findProject(projectsDir: string, value: string): Promise<ProjectDirectory> {
+  const byName = listProjectDirectories(projectsDir).find(project => project.name === value);
+  return byName || findProjectForDirectory(projectsDir, value);
+}
+
+// Helper function to parse --by groupings
+function parseUsageGroupings(value: string): UsageGrouping[] {
+  return value.split(',').map(grouping => {
+    const normalized = grouping.trim().toLowerCase();
+    if (!USAGE_GROUPINGS.includes(normalized as UsageGrouping)) {
+      throw new Error(`Unknown grouping '${grouping}'. Expected one of: ${USAGE_GROUPINGS.join(', ')}`);
+    }
+    return normalized as UsageGrouping;
+  });
+}
+
+// Helper function to replace a file without readers seeing it half written
+function writeFileAtomic(file: string, content: string): void {
+  const temp = path.join(path.dirname(file), `.${path.basename(file)}.${process.pid}.tmp`);
+  fs.writeFileSync(temp, content);
+  fs.renameSync(temp, file);
+}
+
+// Helper function to redraw the terminal with the end of the transcript
+function showTail(markdown: string, status: string): void {
+  const rows = process.stdout.rows || 24;
+  const columns = process.stdout.columns || 80;
+  const lines = markdown.split('\n').map(line => line.slice(0, columns)).slice(-(rows - 1));
+  process.stdout.write(`\x1b[2J\x1b[H${lines.join('\n')}\n\x1b[7m${status.slice(0, columns)}\x1b[0m`);
+}
+
 // Helper function to read from stdin
 async function readStdin(): Promise<string> {
   return new Promise((resolve, reject) => {
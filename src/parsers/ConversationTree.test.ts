@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { ConversationTree } from './ConversationTree.js';
+import { MessageData } from '../types/index.js';
+
+const message = (
+  uuid: string | undefined,
+  parentUuid: string | null,
+  timestamp: string,
+  overrides: Partial<MessageData> = {}
+): MessageData => ({
+  type: 'user',
+  sessionId: 'test',
+  uuid,
+  parentUuid,
+  timestamp: `2024-01-01T00:${timestamp}:00.000Z`,
+  message: { role: 'user', content: uuid || 'no uuid' },
+  ...overrides
+});
+
+describe('ConversationTree', () => {
+  it('should keep linear conversations unchanged', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('b', 'a', '01'),
+      message('c', 'b', '02')
+    ];
+
+    const tree = new ConversationTree(messages);
+
+    expect(tree.getActiveBranch()).toEqual(messages);
+    expect(tree.getAlternateBranches()).toEqual([]);
+  });
+
+  it('should keep messages without uuids', () => {
+    const messages = [message(undefined, null, '00'), message(undefined, null, '01')];
+
+    expect(new ConversationTree(messages).getActiveBranch()).toEqual(messages);
+  });
+
+  it('should follow the branch ending at the latest leaf', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('b', 'a', '01'),
+      message('c', 'b', '02'),
+      message('b2', 'a', '03'),
+      message('c2', 'b2', '04')
+    ];
+
+    const tree = new ConversationTree(messages);
+
+    expect(tree.getLatestLeaf()?.uuid).toBe('c2');
+    expect(tree.getActiveBranch().map(m => m.uuid)).toEqual(['a', 'b2', 'c2']);
+  });
+
+  it('should group abandoned messages by fork point', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('b', 'a', '01'),
+      message('c', 'b', '02'),
+      message('b2', 'a', '03'),
+      message('c2', 'b2', '04')
+    ];
+
+    const branches = new ConversationTree(messages).getAlternateBranches();
+
+    expect(branches).toHaveLength(1);
+    expect(branches[0].forkUuid).toBe('a');
+    expect(branches[0].resumeUuid).toBe('b2');
+    expect(branches[0].messages.map(m => m.uuid)).toEqual(['b', 'c']);
+  });
+
+  it('should break timestamp ties by file order', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('b', 'a', '01'),
+      message('b2', 'a', '01')
+    ];
+
+    expect(new ConversationTree(messages).getLatestLeaf()?.uuid).toBe('b2');
+  });
+
+  it('should leave sidechain messages in place', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('s1', null, '05', { isSidechain: true }),
+      message('b', 'a', '01')
+    ];
+
+    const tree = new ConversationTree(messages);
+
+    expect(tree.getLatestLeaf()?.uuid).toBe('b');
+    expect(tree.getActiveBranch().map(m => m.uuid)).toEqual(['a', 's1', 'b']);
+  });
+
+  it('should show repeated lines only once', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('b', 'a', '01'),
+      message('a', null, '00'),
+      message('b', 'a', '01')
+    ];
+
+    expect(new ConversationTree(messages).getActiveBranch().map(m => m.uuid)).toEqual(['a', 'b']);
+  });
+
+  it('should follow logicalParentUuid across compaction boundaries', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('b', 'a', '01'),
+      message('c', null, '02', { logicalParentUuid: 'b' }),
+      message('d', 'c', '03')
+    ];
+
+    const tree = new ConversationTree(messages);
+
+    expect(tree.getActiveBranch().map(m => m.uuid)).toEqual(['a', 'b', 'c', 'd']);
+    expect(tree.getAlternateBranches()).toEqual([]);
+  });
+
+  it('should keep the results of parallel tool calls', () => {
+    const toolUse = (id: string) => ({ type: 'assistant' as const, message: { role: 'assistant' as const, content: [{ type: 'tool_use' as const, id }] } });
+    const toolResult = (id: string) => ({ message: { role: 'user' as const, content: [{ type: 'tool_result' as const, tool_use_id: id }] } });
+    const messages = [
+      message('a', null, '00'),
+      message('t1', 'a', '01', toolUse('call-1')),
+      message('t2', 't1', '02', toolUse('call-2')),
+      message('r1', 't1', '03', toolResult('call-1')),
+      message('r2', 't2', '04', toolResult('call-2')),
+      message('b', 'r2', '05')
+    ];
+
+    const tree = new ConversationTree(messages);
+
+    expect(tree.getActiveBranch().map(m => m.uuid)).toEqual(['a', 't1', 't2', 'r1', 'r2', 'b']);
+    expect(tree.getAlternateBranches()).toEqual([]);
+  });
+
+  it('should keep every chain whose root is in the file', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('b', 'a', '01'),
+      message('c', 'missing-from-other-file', '02'),
+      message('d', 'c', '03')
+    ];
+
+    const tree = new ConversationTree(messages);
+
+    expect(tree.getActiveBranch().map(m => m.uuid)).toEqual(['a', 'b', 'c', 'd']);
+    expect(tree.getAlternateBranches()).toEqual([]);
+  });
+
+  it('should treat messages without a parent as forks of one chain', () => {
+    const messages = [
+      message('u1', null, '00'),
+      message('a1', 'u1', '01'),
+      message('c', 'missing-from-other-file', '02'),
+      message('u2', null, '03'),
+      message('a2', 'u2', '04')
+    ];
+
+    const tree = new ConversationTree(messages);
+
+    expect(tree.getActiveBranch().map(m => m.uuid)).toEqual(['c', 'u2', 'a2']);
+    expect(tree.getAlternateBranches()).toEqual([
+      { forkUuid: undefined, resumeUuid: 'u2', messages: [messages[0], messages[1]] }
+    ]);
+  });
+
+  it('should only hide abandoned branches within their own chain', () => {
+    const messages = [
+      message('a', null, '00'),
+      message('b', 'a', '01'),
+      message('b2', 'a', '02'),
+      message('c', 'missing-from-other-file', '03'),
+      message('d', 'c', '04')
+    ];
+
+    const tree = new ConversationTree(messages);
+
+    expect(tree.getActiveBranch().map(m => m.uuid)).toEqual(['a', 'b2', 'c', 'd']);
+    expect(tree.getAlternateBranches().map(branch => branch.messages.map(m => m.uuid))).toEqual([['b']]);
+  });
+
+  it('should treat messages whose parent is missing as roots', () => {
+    const messages = [
+      message('b', 'elsewhere', '01'),
+      message('c', 'b', '02')
+    ];
+
+    expect(new ConversationTree(messages).getActiveBranch().map(m => m.uuid)).toEqual(['b', 'c']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,237 @@
+import { MessageData, AlternateBranch } from '../types/index.js';
+import { parseTimestamp } from '../utils/time.js';
+
+/**
+ * The uuid/parentUuid graph of a session's messages. Retries, edited prompts
+ * and resumed sessions fork the chain; at each fork only the child leading
+ * to the most recent leaf is on the active branch, and the others start
+ * abandoned alternate paths.
+ *
+ * A message whose parent is not in the file, as in resumed and compacted
+ * sessions, starts a chain of its own, and every such chain is kept in file
+ * order. Messages without a parent, such as a first prompt and its edits,
+ * are forks of one chain.
+ *
+ * Sidechain (subagent) messages and messages without a uuid are not part of
+ * the graph and always stay on the active branch in file order.
+ */
+export class ConversationTree {
+  private messages: MessageData[];
+  private byUuid: Map<string, MessageData> = new Map();
+  private children: Map<string, MessageData[]> = new Map();
+  private positions: Map<MessageData, number> = new Map();
+  private activeUuids: Set<string>;
+
+  constructor(messages: MessageData[]) {
+    this.messages = messages;
+
+    messages.forEach((message, index) => {
+      this.positions.set(message, index);
+
+      if (this.isTreeNode(message) && !this.byUuid.has(message.uuid!)) {
+        this.byUuid.set(message.uuid!, message);
+      }
+    });
+
+    for (const message of this.byUuid.values()) {
+      const parent = this.getParent(message);
+      if (parent) {
+        if (!this.children.has(parent.uuid!)) {
+          this.children.set(parent.uuid!, []);
+        }
+        this.children.get(parent.uuid!)!.push(message);
+      }
+    }
+
+    this.activeUuids = new Set(this.getLatestLeafPerRoot().flatMap(leaf => this.getPathTo(leaf).map(message => message.uuid!)));
+
+    // Parallel tool calls are logged as a chain of tool_use lines, and the
+    // result of each call but the last hangs off its own line. Those results
+    // belong to the active branch although the chain continues elsewhere.
+    for (const uuid of Array.from(this.activeUuids)) {
+      for (const child of this.children.get(uuid) || []) {
+        if (!this.children.has(child.uuid!) && this.isToolResult(child)) {
+          this.activeUuids.add(child.uuid!);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the most recent message that nothing else continues from
+   */
+  public getLatestLeaf(): MessageData | undefined {
+    return this.getLeaves().reduce<MessageData | undefined>(
+      (latest, leaf) => !latest || this.isLater(leaf, latest) ? leaf : latest,
+      undefined
+    );
+  }
+
+  /**
+   * Get the most recent leaf of each chain. Chains whose parent is in another
+   * file are keyed by their root, and the rest share one key.
+   */
+  private getLatestLeafPerRoot(): MessageData[] {
+    const latest = new Map<string | undefined, MessageData>();
+
+    for (const leaf of this.getLeaves()) {
+      const root = this.getPathTo(leaf)[0];
+      const key = this.hasMissingParent(root) ? root.uuid : undefined;
+      const current = latest.get(key);
+      if (!current || this.isLater(leaf, current)) {
+        latest.set(key, leaf);
+      }
+    }
+
+    return Array.from(latest.values());
+  }
+
+  private getLeaves(): MessageData[] {
+    return Array.from(this.byUuid.values()).filter(message => !this.children.has(message.uuid!));
+  }
+
+  /**
+   * Compare by timestamp, breaking ties by file order
+   */
+  private isLater(message: MessageData, other: MessageData): boolean {
+    const time = this.time(message);
+    const otherTime = this.time(other);
+    return time > otherTime || (time === otherTime && this.position(message) > this.position(other));
+  }
+
+  private time(message: MessageData): number {
+    return message.timestamp ? parseTimestamp(message.timestamp).getTime() : 0;
+  }
+
+  /**
+   * Get the chain of messages from the root down to the given message
+   */
+  public getPathTo(message: MessageData): MessageData[] {
+    const path: MessageData[] = [];
+    const seen = new Set<string>();
+    let current: MessageData | undefined = message;
+
+    while (current && !seen.has(current.uuid!)) {
+      seen.add(current.uuid!);
+      path.unshift(current);
+      current = this.getParent(current);
+    }
+
+    return path;
+  }
+
+  /**
+   * Get the messages to render by default, in file order
+   */
+  public getActiveBranch(): MessageData[] {
+    if (this.activeUuids.size === 0) {
+      return [...this.messages];
+    }
+
+    const emitted = new Set<string>();
+
+    return this.messages.filter(message => {
+      if (!this.isTreeNode(message)) {
+        return true;
+      }
+
+      // Resumed sessions can repeat earlier lines; show each message once
+      if (!this.activeUuids.has(message.uuid!) || emitted.has(message.uuid!)) {
+        return false;
+      }
+
+      emitted.add(message.uuid!);
+      return true;
+    });
+  }
+
+  /**
+   * Group messages that are off the active branch by where they forked from it
+   */
+  public getAlternateBranches(): AlternateBranch[] {
+    if (this.activeUuids.size === 0) {
+      return [];
+    }
+
+    const branches = new Map<string, AlternateBranch>();
+
+    for (const message of this.byUuid.values()) {
+      if (this.activeUuids.has(message.uuid!)) {
+        continue;
+      }
+
+      const branchRoot = this.getBranchRoot(message);
+      if (!branches.has(branchRoot.uuid!)) {
+        const fork = this.getParent(branchRoot);
+        branches.set(branchRoot.uuid!, {
+          forkUuid: fork?.uuid,
+          resumeUuid: this.getActiveContinuation(fork)?.uuid,
+          messages: []
+        });
+      }
+      branches.get(branchRoot.uuid!)!.messages.push(message);
+    }
+
+    return Array.from(branches.values()).map(branch => ({
+      ...branch,
+      messages: branch.messages.sort((a, b) => this.position(a) - this.position(b))
+    }));
+  }
+
+  private isToolResult(message: MessageData): boolean {
+    const content = message.message?.content;
+    return message.type === 'user' && Array.isArray(content) && content.length > 0 &&
+      content.every(item => item.type === 'tool_result');
+  }
+
+  private isTreeNode(message: MessageData): boolean {
+    return Boolean(message.uuid) && !message.isSidechain;
+  }
+
+  private getParent(message: MessageData): MessageData | undefined {
+    // Compaction restarts the chain but links back through logicalParentUuid
+    const parentUuid = message.parentUuid || message.logicalParentUuid;
+    if (!parentUuid || parentUuid === message.uuid) {
+      return undefined;
+    }
+
+    return this.byUuid.get(parentUuid);
+  }
+
+  private hasMissingParent(message: MessageData): boolean {
+    const parentUuid = message.parentUuid || message.logicalParentUuid;
+    return Boolean(parentUuid) && parentUuid !== message.uuid && !this.byUuid.has(parentUuid!);
+  }
+
+  /**
+   * Walk up from an abandoned message to the first message off the active branch
+   */
+  private getBranchRoot(message: MessageData): MessageData {
+    let root = message;
+    let parent = this.getParent(root);
+    const seen = new Set<string>([root.uuid!]);
+
+    while (parent && !this.activeUuids.has(parent.uuid!) && !seen.has(parent.uuid!)) {
+      seen.add(parent.uuid!);
+      root = parent;
+      parent = this.getParent(root);
+    }
+
+    return root;
+  }
+
+  /**
+   * Find where the active branch continues from a fork point
+   */
+  private getActiveContinuation(fork?: MessageData): MessageData | undefined {
+    const candidates = fork
+      ? this.children.get(fork.uuid!) || []
+      : Array.from(this.byUuid.values()).filter(message => !this.getParent(message) && !this.hasMissingParent(message));
+
+    return candidates.find(message => this.activeUuids.has(message.uuid!));
+  }
+
+  private position(message: MessageData): number {
+    return this.positions.get(message) ?? 0;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseJsonlLine, parseJsonlText, readJsonlStream, readJsonlFiles } from './JsonlReader.js';
+import { Readable } from 'stream';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('JsonlReader', () => {
+  describe('parseJsonlLine', () => {
+    it('should parse a valid line', () => {
+      const data = parseJsonlLine('{"type": "user", "sessionId": "test"}');
+      expect(data?.type).toBe('user');
+      expect(data?.sessionId).toBe('test');
+    });
+
+    it('should skip blank lines', () => {
+      expect(parseJsonlLine('   ')).toBeUndefined();
+    });
+
+    it('should skip invalid JSON', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      
+      expect(parseJsonlLine('not json')).toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalled();
+      
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('parseJsonlText', () => {
+    it('should yield every valid line', () => {
+      const input = `{"type": "user", "sessionId": "a"}
+
+{"type": "assistant", "sessionId": "a"}`;
+
+      const messages = Array.from(parseJsonlText(input));
+      expect(messages.map(m => m.type)).toEqual(['user', 'assistant']);
+    });
+  });
+
+  describe('readJsonlStream', () => {
+    it('should read lines split across chunks', async () => {
+      const stream = Readable.from([
+        '{"type": "user", "sess',
+        'ionId": "a"}\n{"type": "assistant",',
+        ' "sessionId": "a"}\r\n'
+      ]);
+
+      const messages = [];
+      for await (const data of readJsonlStream(stream)) {
+        messages.push(data);
+      }
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0].sessionId).toBe('a');
+      expect(messages[1].type).toBe('assistant');
+    });
+  });
+
+  describe('readJsonlFiles', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-reader-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should read files in order', async () => {
+      const first = path.join(tmpDir, 'first.jsonl');
+      const second = path.join(tmpDir, 'second.jsonl');
+      fs.writeFileSync(first, '{"type": "user", "sessionId": "a"}\n');
+      fs.writeFileSync(second, '{"type": "user", "sessionId": "b"}\n');
+
+      const ids = [];
+      for await (const data of readJsonlFiles([first, second])) {
+        ids.push(data.sessionId);
+      }
+
+      expect(ids).toEqual(['a', 'b']);
+    });
+  });
+});
\ No newline at end of file
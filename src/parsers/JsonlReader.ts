@@ -0,0 +1,108 @@
+import { MessageData } from '../types/index.js';
+import * as fs from 'fs';
+import * as readline from 'readline';
+
+/**
+ * Parse a single JSONL line, returning undefined for blank or invalid lines
+ */
+export function parseJsonlLine(line: string): MessageData | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(line);
+  } catch (error) {
+    console.error(`Error parsing line: ${line}`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Parse JSONL text that is already in memory
+ */
+export function* parseJsonlText(input: string): Generator<MessageData> {
+  for (const line of input.split('\n')) {
+    const data = parseJsonlLine(line);
+    if (data) {
+      yield data;
+    }
+  }
+}
+
+/**
+ * Read messages line by line from a readable stream without buffering it whole
+ */
+export async function* readJsonlStream(input: NodeJS.ReadableStream): AsyncGenerator<MessageData> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      const data = parseJsonlLine(line);
+      if (data) {
+        yield data;
+      }
+    }
+  } finally {
+    lines.close();
+  }
+}
+
+/**
+ * Read messages line by line from a JSONL file
+ */
+export async function* readJsonlFile(file: string): AsyncGenerator<MessageData> {
+  yield* readJsonlStream(fs.createReadStream(file, { encoding: 'utf8' }));
+}
+
+/**
+ * Read messages from several JSONL files in order
+ */
+export async function* readJsonlFiles(files: string[]): AsyncGenerator<MessageData> {
+  for (const file of files) {
+    yield* readJsonlFile(file);
+  }
+}
+
+/**
+ * Read the lines from `start` to the end of the file, with the byte offset
+ * each one ends at. A final line without a newline is only returned once it
+ * parses, since Claude Code may still be writing it.
+ */
+export async function* readCompleteLines(file: string, start: number): AsyncGenerator<{ line: string; end: number }> {
+  let offset = start;
+  let pending: Buffer[] = [];
+
+  for await (const chunk of fs.createReadStream(file, { start }) as AsyncIterable<Buffer>) {
+    let lineStart = 0;
+    let newline = chunk.indexOf(0x0a);
+
+    while (newline !== -1) {
+      const line = Buffer.concat([...pending, chunk.subarray(lineStart, newline)]);
+      pending = [];
+      offset += line.length + 1;
+      yield { line: line.toString('utf8'), end: offset };
+
+      lineStart = newline + 1;
+      newline = chunk.indexOf(0x0a, lineStart);
+    }
+
+    if (lineStart < chunk.length) {
+      pending.push(chunk.subarray(lineStart));
+    }
+  }
+
+  const rest = Buffer.concat(pending);
+  if (rest.length > 0 && isCompleteJson(rest.toString('utf8'))) {
+    yield { line: rest.toString('utf8'), end: offset + rest.length };
+  }
+}
+
+function isCompleteJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JsonlTail } from './JsonlTail.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('JsonlTail', () => {
+  let dir: string;
+  let file: string;
+
+  const line = (uuid: string) => JSON.stringify({ type: 'user', sessionId: 'test', uuid }) + '\n';
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-tail-'));
+    file = path.join(dir, 'session.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read only the lines added since the last read', async () => {
+    fs.writeFileSync(file, line('a') + line('b'));
+    const tail = new JsonlTail(file);
+
+    expect((await tail.read()).messages.map(m => m.uuid)).toEqual(['a', 'b']);
+    expect((await tail.read()).messages).toEqual([]);
+
+    fs.appendFileSync(file, line('c'));
+    expect(await tail.read()).toEqual({ messages: [expect.objectContaining({ uuid: 'c' })], restarted: false });
+  });
+
+  it('should wait for a partly written line to be finished', async () => {
+    const partial = line('b');
+    fs.writeFileSync(file, line('a') + partial.slice(0, 10));
+    const tail = new JsonlTail(file);
+
+    expect((await tail.read()).messages.map(m => m.uuid)).toEqual(['a']);
+
+    fs.appendFileSync(file, partial.slice(10));
+    expect((await tail.read()).messages.map(m => m.uuid)).toEqual(['b']);
+  });
+
+  it('should start over when the file is truncated', async () => {
+    fs.writeFileSync(file, line('a') + line('b'));
+    const tail = new JsonlTail(file);
+    await tail.read();
+
+    fs.writeFileSync(file, line('c'));
+    expect(await tail.read()).toEqual({ messages: [expect.objectContaining({ uuid: 'c' })], restarted: true });
+  });
+
+  it('should start over when the file is replaced', async () => {
+    fs.writeFileSync(file, line('a'));
+    const tail = new JsonlTail(file);
+    await tail.read();
+
+    const replacement = path.join(dir, 'replacement.jsonl');
+    fs.writeFileSync(replacement, line('b') + line('c'));
+    fs.renameSync(replacement, file);
+    expect((await tail.read()).restarted).toBe(true);
+  });
+
+  it('should report a failing callback and keep following', async () => {
+    fs.writeFileSync(file, line('a'));
+    const tail = new JsonlTail(file);
+    await tail.read();
+
+    const reads: string[] = [];
+    const errors: unknown[] = [];
+    const unwatch = tail.follow(({ messages }) => {
+      reads.push(...messages.map(m => m.uuid!));
+      throw new Error('render failed');
+    }, error => errors.push(error), 10);
+
+    try {
+      fs.appendFileSync(file, line('b'));
+      await vi.waitFor(() => expect(errors).toHaveLength(1));
+      fs.appendFileSync(file, line('c'));
+      await vi.waitFor(() => expect(errors).toHaveLength(2));
+    } finally {
+      unwatch();
+    }
+
+    expect(reads).toEqual(['b', 'c']);
+    expect((errors[0] as Error).message).toBe('render failed');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { MessageData } from '../types/index.js';
+import { WATCH_SETTINGS } from '../types/constants.js';
+import { parseJsonlLine, readCompleteLines } from './JsonlReader.js';
+import Debug from 'debug';
+import * as fs from 'fs';
+
+const debug = Debug('session-to-md:tail');
+
+export interface TailRead {
+  messages: MessageData[];
+  // The file was truncated or replaced, so earlier messages no longer apply
+  restarted: boolean;
+}
+
+/**
+ * Follows a JSONL file as it grows, reading only the bytes added since the
+ * last read. A file that shrinks or is replaced is read again from the start.
+ */
+export class JsonlTail {
+  private file: string;
+  private offset = 0;
+  private ino?: number;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  /**
+   * Read the complete lines added since the last call
+   */
+  public async read(): Promise<TailRead> {
+    const stats = await fs.promises.stat(this.file);
+    const restarted = this.ino !== undefined && (stats.ino !== this.ino || stats.size < this.offset);
+    if (restarted) {
+      debug(`${this.file} was replaced or truncated, reading it again`);
+      this.offset = 0;
+    }
+    this.ino = stats.ino;
+
+    const messages: MessageData[] = [];
+    if (stats.size > this.offset) {
+      for await (const { line, end } of readCompleteLines(this.file, this.offset)) {
+        this.offset = end;
+        const data = parseJsonlLine(line);
+        if (data) {
+          messages.push(data);
+        }
+      }
+    }
+
+    return { messages, restarted };
+  }
+
+  /**
+   * Read the file again whenever it changes, until the returned function is
+   * called. Reads never overlap; changes made during one are picked up right
+   * after it. A failed read or a callback that throws is passed to onError,
+   * and following goes on.
+   */
+  public follow(
+    onRead: (read: TailRead) => void,
+    onError: (error: unknown) => void = error => debug(`Could not read ${this.file}: ${error instanceof Error ? error.message : error}`),
+    interval: number = WATCH_SETTINGS.POLL_INTERVAL_MS
+  ): () => void {
+    let reading = false;
+    let changed = false;
+
+    const check = () => {
+      if (reading) {
+        changed = true;
+        return;
+      }
+
+      reading = true;
+      this.read()
+        .then(onRead)
+        .catch(onError)
+        .finally(() => {
+          reading = false;
+          if (changed) {
+            changed = false;
+            check();
+          }
+        });
+    };
+
+    fs.watchFile(this.file, { interval }, check);
+    return () => fs.unwatchFile(this.file, check);
+  }
+}
\ No newline at end of file
@@ -288,6 +288,32 @@ describe('MessageWrapper', () => {
     });
   });
 
+  describe('user prompt detection', () => {
+    it('should detect typed prompts', () => {
+      const message: MessageData = {
+        type: 'user',
+        message: {
+          role: 'user',
+          content: [{ type: 'text', text: 'Fix the failing test' }]
+        }
+      };
+
+      expect(new MessageWrapper(message).isUserPrompt()).toBe(true);
+    });
+
+    it('should not treat tool results, meta or subagent messages as prompts', () => {
+      const messages: MessageData[] = [
+        { type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }] } },
+        { type: 'user', isMeta: true, message: { role: 'user', content: 'Caveat: local command output' } },
+        { type: 'user', isSidechain: true, message: { role: 'user', content: 'Search the codebase' } },
+        { type: 'user', message: { role: 'user', content: '[Request interrupted by user for tool use]' } },
+        { type: 'assistant', message: { role: 'assistant', content: 'Done' } }
+      ];
+
+      messages.forEach(message => expect(new MessageWrapper(message).isUserPrompt()).toBe(false));
+    });
+  });
+
   describe('regular content extraction', () => {
     it('should get regular content excluding tool results', () => {
       const content: ContentItem[] = [
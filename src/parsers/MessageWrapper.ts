@@ -96,6 +96,19 @@ export class MessageWrapper {
     return false;
   }
 
+  /**
+   * Check if this message is a prompt the user typed, as opposed to tool
+   * results, interruptions and other messages sent on their behalf. Each
+   * prompt starts a new turn.
+   */
+  public isUserPrompt(): boolean {
+    if (this.type !== 'user' || this.isMeta || this.data.isSidechain || this.isInterruptionMessage()) {
+      return false;
+    }
+    
+    return this.getTextContent().trim() !== '';
+  }
+
   /**
    * Check if this is a command message
    */
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RecentSessions } from './RecentSessions.js';
+import { SessionIndex } from './SessionIndex.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('RecentSessions', () => {
+  let tmpDir: string;
+  let projectsDir: string;
+  let index: SessionIndex;
+
+  // Writes a one-message session whose file was last written when the message was
+  const writeSession = (project: string, sessionId: string, timestamp: string) => {
+    const dir = path.join(projectsDir, project);
+    const file = path.join(dir, `${sessionId}.jsonl`);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({
+      type: 'user', sessionId, uuid: `${sessionId}1`, cwd: `/work/${project}`, timestamp,
+      message: { role: 'user', content: `Prompt ${sessionId}` }
+    }) + '\n');
+    fs.utimesSync(file, new Date(timestamp), new Date(timestamp));
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-recent-'));
+    projectsDir = path.join(tmpDir, 'projects');
+    index = new SessionIndex({ persist: false });
+
+    writeSession('app', 'a1', '2025-07-10T10:00:00Z');
+    writeSession('app', 'a2', '2025-07-01T10:00:00Z');
+    writeSession('site', 's1', '2025-07-08T10:00:00Z');
+    writeSession('site', 's2', '2025-07-05T10:00:00Z');
+    writeSession('old', 'o1', '2025-06-01T10:00:00Z');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should merge the sessions of every project, newest first', async () => {
+    const recent = new RecentSessions(index, await index.getProjects(projectsDir));
+
+    const sessions = await recent.loadMore(10);
+
+    expect(sessions.map(session => session.sessionId)).toEqual(['a1', 's1', 's2', 'a2', 'o1']);
+    expect(sessions.map(session => session.project)).toEqual(['/work/app', '/work/site', '/work/site', '/work/app', '/work/old']);
+    expect(recent.hasMore()).toBe(false);
+  });
+
+  it('should only read the projects a page needs', async () => {
+    const recent = new RecentSessions(index, await index.getProjects(projectsDir));
+    const getSessions = vi.spyOn(index, 'getSessions');
+
+    const firstPage = await recent.loadMore(3);
+
+    expect(firstPage.map(session => session.sessionId)).toEqual(['a1', 's1', 's2']);
+    expect(getSessions.mock.calls.map(([projectPath]) => path.basename(projectPath))).toEqual(['app', 'site']);
+    expect(recent.hasMore()).toBe(true);
+
+    const secondPage = await recent.loadMore(3);
+
+    expect(secondPage.map(session => session.sessionId)).toEqual(['a1', 's1', 's2', 'a2', 'o1']);
+    expect(recent.hasMore()).toBe(false);
+  });
+});
\ No newline at end of file
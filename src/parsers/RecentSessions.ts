@@ -0,0 +1,67 @@
+import { SessionInfo, ProjectInfo } from '../types/index.js';
+import { RECENT_SESSIONS_SETTINGS } from '../types/constants.js';
+import { SessionIndex } from './SessionIndex.js';
+import Debug from 'debug';
+
+const debug = Debug('session-to-md:recent');
+
+/**
+ * Pages through the sessions of every project, newest first. Projects are
+ * read in order of their newest session file, and only until the sessions
+ * already read are all newer than anything the next project can hold, so a
+ * page usually needs just the first few projects.
+ */
+export class RecentSessions {
+  private index: SessionIndex;
+  private projects: ProjectInfo[];
+  private nextProject = 0;
+  // Read but not yet listed, because an unread project may hold newer ones
+  private pending: SessionInfo[] = [];
+  private sessions: SessionInfo[] = [];
+
+  constructor(index: SessionIndex, projects: ProjectInfo[]) {
+    this.index = index;
+    this.projects = [...projects].sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+  }
+
+  /**
+   * List up to `count` more sessions, reading projects as needed. Returns
+   * every session listed so far.
+   */
+  public async loadMore(count: number = RECENT_SESSIONS_SETTINGS.PAGE_SIZE): Promise<SessionInfo[]> {
+    let added = 0;
+
+    while (added < count) {
+      // A session can't be newer than the file it was written to
+      const bound = this.nextProject < this.projects.length
+        ? this.projects[this.nextProject].lastModified.getTime()
+        : -Infinity;
+
+      while (added < count && this.pending.length > 0 && this.pending[0].modified.getTime() >= bound) {
+        this.sessions.push(this.pending.shift()!);
+        added++;
+      }
+
+      if (added >= count || this.nextProject >= this.projects.length) {
+        break;
+      }
+      await this.readProject(this.projects[this.nextProject++]);
+    }
+
+    return [...this.sessions];
+  }
+
+  public hasMore(): boolean {
+    return this.pending.length > 0 || this.nextProject < this.projects.length;
+  }
+
+  private async readProject(project: ProjectInfo): Promise<void> {
+    try {
+      const sessions = await this.index.getSessions(project.path);
+      this.pending.push(...sessions.map(session => ({ ...session, project: project.displayName })));
+      this.pending.sort((a, b) => b.modified.getTime() - a.modified.getTime());
+    } catch (error) {
+      debug(`Skipping ${project.path}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SessionIndex } from './SessionIndex.js';
+import { SessionParser } from './SessionParser.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('SessionIndex', () => {
+  let tmpDir: string;
+  let projectsDir: string;
+  let projectDir: string;
+  let cacheDir: string;
+
+  const line = (data: object) => JSON.stringify(data) + '\n';
+
+  const message = (sessionId: string, uuid: string, type: 'user' | 'assistant', content: string, timestamp: string, parentUuid: string | null = null) =>
+    line({ type, sessionId, uuid, parentUuid, cwd: '/work/app', timestamp, message: { role: type, content } });
+
+  const parseDirectly = () => {
+    const files = fs.readdirSync(projectDir).map(file => path.join(projectDir, file)).sort().reverse();
+    return new SessionParser().parseFilesAsync(files);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-index-'));
+    projectsDir = path.join(tmpDir, 'projects');
+    projectDir = path.join(projectsDir, '-work-app');
+    cacheDir = path.join(tmpDir, 'cache');
+    fs.mkdirSync(projectDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('getSessions', () => {
+    it('should list the same sessions as parsing the files', async () => {
+      fs.copyFileSync(path.join(__dirname, '../test/fixtures/real-session-sample.jsonl'), path.join(projectDir, 'a.jsonl'));
+      fs.writeFileSync(path.join(projectDir, 'b.jsonl'),
+        line({ type: 'summary', summary: 'Fix the login form', leafUuid: 'b2' }) +
+        message('b', 'b1', 'user', '<command-name>/clear</command-name>', '2025-07-02T10:00:00Z') +
+        message('b', 'b2', 'assistant', 'Done', '2025-07-02T10:01:00Z') +
+        message('b', 'b3', 'user', 'Now the signup form', '2025-07-02T10:02:00Z'));
+
+      const sessions = await new SessionIndex({ cacheDir }).getSessions(projectDir);
+
+      expect(sessions).toEqual(await parseDirectly());
+      expect(sessions.map(session => session.summary)).toContain('Fix the login form');
+      expect(sessions.some(session => session.tokens > 0 && session.models.length > 0)).toBe(true);
+    });
+
+    it('should leave abandoned branches and sidechains out of the message count', async () => {
+      const reply = (uuid: string, parentUuid: string, extra: object = {}) =>
+        line({ type: 'assistant', sessionId: 'a', uuid, parentUuid, timestamp: '2025-07-01T10:01:00Z', message: { role: 'assistant', content: 'Hi' }, ...extra });
+      fs.writeFileSync(path.join(projectDir, 'a.jsonl'),
+        line({ type: 'user', sessionId: 'a', uuid: 'a1', parentUuid: null, timestamp: '2025-07-01T10:00:00Z', message: { role: 'user', content: 'Hello' } }) +
+        reply('a2', 'a1') +
+        reply('a3', 'a1') +
+        reply('s1', 'a1', { isSidechain: true }));
+
+      const sessions = await new SessionIndex({ cacheDir }).getSessions(projectDir);
+
+      expect(sessions[0].messageCount).toBe(3);
+      expect(sessions).toEqual(await parseDirectly());
+    });
+
+    it('should reuse the cache while a file is unchanged', async () => {
+      const file = path.join(projectDir, 'a.jsonl');
+      fs.writeFileSync(file, message('a', 'a1', 'user', 'First prompt', '2025-07-01T10:00:00Z'));
+      await new SessionIndex({ cacheDir }).getSessions(projectDir);
+
+      // Same size and mtime, so the index has no way to notice
+      const { mtime } = fs.statSync(file);
+      fs.writeFileSync(file, message('a', 'a1', 'user', 'Other prompt', '2025-07-01T10:00:00Z'));
+      fs.utimesSync(file, mtime, mtime);
+
+      const sessions = await new SessionIndex({ cacheDir }).getSessions(projectDir);
+
+      expect(sessions[0].summary).toBe('First prompt');
+    });
+
+    it('should pick up lines appended to a file', async () => {
+      const file = path.join(projectDir, 'a.jsonl');
+      fs.writeFileSync(file, message('a', 'a1', 'user', 'First prompt', '2025-07-01T10:00:00Z'));
+      const index = new SessionIndex({ cacheDir });
+      await index.getSessions(projectDir);
+
+      fs.appendFileSync(file,
+        message('a', 'a2', 'assistant', 'Answer', '2025-07-01T10:05:00Z', 'a1') +
+        line({ type: 'user', sessionId: 'b', uuid: 'b1', timestamp: '2025-07-01T11:00:00Z', message: { role: 'user', content: 'New session' } }));
+
+      const sessions = await index.getSessions(projectDir);
+
+      expect(sessions).toEqual(await parseDirectly());
+      expect(sessions.find(session => session.sessionId === 'a')!.messageCount).toBe(2);
+      expect(sessions.find(session => session.sessionId === 'b')!.cwd).toBeUndefined();
+    });
+
+    it('should wait for a partly written last line', async () => {
+      const file = path.join(projectDir, 'a.jsonl');
+      const second = message('a', 'a2', 'assistant', 'Answer', '2025-07-01T10:05:00Z', 'a1');
+      fs.writeFileSync(file, message('a', 'a1', 'user', 'First prompt', '2025-07-01T10:00:00Z') + second.slice(0, 20));
+      const index = new SessionIndex({ cacheDir });
+
+      expect((await index.getSessions(projectDir))[0].messageCount).toBe(1);
+
+      fs.appendFileSync(file, second.slice(20));
+
+      expect((await index.getSessions(projectDir))[0].messageCount).toBe(2);
+    });
+
+    it('should reread a file that was replaced', async () => {
+      const file = path.join(projectDir, 'a.jsonl');
+      fs.writeFileSync(file, message('a', 'a1', 'user', 'A much longer first prompt', '2025-07-01T10:00:00Z'));
+      const index = new SessionIndex({ cacheDir });
+      await index.getSessions(projectDir);
+
+      fs.writeFileSync(file, message('a', 'a1', 'user', 'Short', '2025-07-01T10:00:00Z'));
+
+      expect((await index.getSessions(projectDir))[0].summary).toBe('Short');
+    });
+
+    it('should not write anything when persistence is off', async () => {
+      fs.writeFileSync(path.join(projectDir, 'a.jsonl'), message('a', 'a1', 'user', 'Prompt', '2025-07-01T10:00:00Z'));
+
+      await new SessionIndex({ cacheDir, persist: false }).getSessions(projectDir);
+
+      expect(fs.existsSync(cacheDir)).toBe(false);
+    });
+  });
+
+  describe('getProjects', () => {
+    it('should name projects after their cached working directory', async () => {
+      fs.writeFileSync(path.join(projectDir, 'a.jsonl'), message('a', 'a1', 'user', 'Prompt', '2025-07-01T10:00:00Z'));
+
+      const [project] = await new SessionIndex({ cacheDir }).getProjects(projectsDir);
+
+      expect(project).toMatchObject({ name: '-work-app', displayName: '/work/app', sessionCount: 1 });
+
+      // The working directory now comes from the cache, not the file
+      fs.writeFileSync(path.join(projectDir, 'a.jsonl'), '');
+      const [cached] = await new SessionIndex({ cacheDir }).getProjects(projectsDir);
+
+      expect(cached.displayName).toBe('/work/app');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,348 @@
+import { MessageData, SessionInfo, ProjectInfo, FileMessages, TokenUsage } from '../types/index.js';
+import { SESSION_INDEX_SETTINGS } from '../types/constants.js';
+import { SessionParser, extractSessionTitle } from './SessionParser.js';
+import { readCompleteLines } from './JsonlReader.js';
+import { normalizePath } from '../utils/paths.js';
+import { listProjectDirectories, findProjectCwd, getProjectDisplayName } from '../utils/projects.js';
+import Debug from 'debug';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const debug = Debug('session-to-md:index');
+
+/**
+ * One line of a session file, cut down to what the session list needs.
+ * `sessionId` and `cwd` are left out when they repeat the previous entry;
+ * an empty `cwd` records a line without one.
+ */
+interface IndexEntry {
+  type: MessageData['type'];
+  sessionId?: string;
+  uuid?: string;
+  // The chain links, so the parser drops abandoned branches and sidechain
+  // lines from the count as it does for the file itself
+  parentUuid?: string;
+  logicalParentUuid?: string;
+  isSidechain?: boolean;
+  timestamp?: string;
+  cwd?: string;
+  title?: string;
+  // Assistant responses keep what the token totals need; the id lets
+  // repeated lines of one response be counted once
+  responseId?: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+interface FileIndex {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+  // Bytes read so far; always the end of a complete line
+  offset: number;
+  summaries: { [leafUuid: string]: string };
+  entries: IndexEntry[];
+}
+
+interface ProjectIndex {
+  version: number;
+  files: { [file: string]: FileIndex };
+}
+
+interface ProjectsIndex {
+  version: number;
+  cwds: { [projectPath: string]: string };
+}
+
+export interface SessionIndexOptions {
+  cacheDir?: string;
+  // When false the index is kept in memory only
+  persist?: boolean;
+}
+
+/**
+ * Keeps the metadata the browser shows for each session file on disk, so a
+ * project only has to be read in full once. Files are keyed by path and
+ * revalidated by size and mtime; a file that has only grown is read from
+ * where the last update stopped.
+ */
+export class SessionIndex {
+  private cacheDir: string;
+  private persist: boolean;
+  private projects: Map<string, ProjectIndex> = new Map();
+
+  constructor(options: SessionIndexOptions = {}) {
+    this.cacheDir = normalizePath(options.cacheDir || getDefaultCacheDir());
+    this.persist = options.persist !== false;
+  }
+
+  /**
+   * List the projects under the Claude projects directory, the one with the
+   * most recently written session file first
+   */
+  public async getProjects(projectsDir: string): Promise<ProjectInfo[]> {
+    const index = this.readJson<ProjectsIndex>(this.getProjectsIndexPath());
+    const cwds = index?.version === SESSION_INDEX_SETTINGS.VERSION ? index.cwds : {};
+    let changed = false;
+
+    const projects: ProjectInfo[] = [];
+    for (const project of listProjectDirectories(projectsDir)) {
+      if (!cwds[project.path]) {
+        const cwd = await findProjectCwd(project.files);
+        if (cwd) {
+          cwds[project.path] = cwd;
+          changed = true;
+        }
+      }
+
+      projects.push({
+        name: project.name,
+        path: project.path,
+        displayName: getProjectDisplayName(project.name, cwds[project.path]),
+        sessionCount: project.files.length,
+        lastModified: new Date(Math.max(...project.files.map(file => fs.statSync(file).mtimeMs)))
+      });
+    }
+
+    if (changed) {
+      this.writeJson(this.getProjectsIndexPath(), { version: SESSION_INDEX_SETTINGS.VERSION, cwds });
+    }
+
+    return projects.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+  }
+
+  /**
+   * List the sessions in a project directory, newest first, reading only the
+   * files that changed since the last call
+   */
+  public async getSessions(projectPath: string): Promise<SessionInfo[]> {
+    const files = fs.readdirSync(projectPath)
+      .filter(file => file.endsWith('.jsonl'))
+      .map(file => path.join(projectPath, file))
+      .sort()
+      .reverse();
+
+    const cached = this.loadProjectIndex(projectPath);
+    const project: ProjectIndex = { version: SESSION_INDEX_SETTINGS.VERSION, files: {} };
+    const fileMessages: FileMessages[] = [];
+    let changed = Object.keys(cached.files).some(file => !files.includes(file));
+
+    for (const file of files) {
+      try {
+        const stats = await fs.promises.stat(file);
+        const previous = cached.files[file];
+        const fileIndex = await updateFileIndex(file, stats, previous);
+
+        changed = changed || fileIndex !== previous;
+        project.files[file] = fileIndex;
+        fileMessages.push({ file, modified: stats.mtime, messages: expandFileIndex(fileIndex) });
+      } catch (error) {
+        console.error(`Error reading file ${file}:`, error);
+      }
+    }
+
+    this.projects.set(projectPath, project);
+    if (changed) {
+      this.writeJson(this.getProjectIndexPath(projectPath), project);
+    }
+
+    return new SessionParser().parseFileMessages(fileMessages);
+  }
+
+  private loadProjectIndex(projectPath: string): ProjectIndex {
+    const project = this.projects.get(projectPath) || this.readJson<ProjectIndex>(this.getProjectIndexPath(projectPath));
+    if (project?.version !== SESSION_INDEX_SETTINGS.VERSION) {
+      return { version: SESSION_INDEX_SETTINGS.VERSION, files: {} };
+    }
+    return project;
+  }
+
+  private getProjectsIndexPath(): string {
+    return path.join(this.cacheDir, 'projects.json');
+  }
+
+  private getProjectIndexPath(projectPath: string): string {
+    const key = crypto.createHash('sha1').update(path.resolve(projectPath)).digest('hex');
+    return path.join(this.cacheDir, 'sessions', `${key}.json`);
+  }
+
+  private readJson<T>(file: string): T | undefined {
+    if (!this.persist || !fs.existsSync(file)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      debug(`Ignoring unreadable cache ${file}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Write through a temporary file so a concurrent reader never sees half a cache
+   */
+  private writeJson(file: string, value: unknown): void {
+    if (!this.persist) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const temporary = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(temporary, JSON.stringify(value));
+      fs.renameSync(temporary, file);
+    } catch (error) {
+      // A cache that can't be written only costs speed
+      debug(`Could not write cache ${file}: ${error}`);
+    }
+  }
+}
+
+/**
+ * `$XDG_CACHE_HOME/cc2md` when set, otherwise ~/.cache/cc2md
+ */
+export function getDefaultCacheDir(): string {
+  return process.env.XDG_CACHE_HOME
+    ? path.join(process.env.XDG_CACHE_HOME, 'cc2md')
+    : SESSION_INDEX_SETTINGS.CACHE_DIR;
+}
+
+/**
+ * Bring a file's index up to date. An unchanged file keeps its index; a file
+ * that only grew is read from the previous offset; anything else is reread.
+ */
+async function updateFileIndex(file: string, stats: fs.Stats, previous?: FileIndex): Promise<FileIndex> {
+  if (previous && previous.size === stats.size && previous.mtimeMs === stats.mtimeMs && previous.ino === stats.ino) {
+    return previous;
+  }
+
+  const appended = previous && previous.ino === stats.ino && stats.size >= previous.offset;
+  const fileIndex: FileIndex = appended
+    ? { ...previous, summaries: { ...previous.summaries }, entries: [...previous.entries] }
+    : { size: 0, mtimeMs: 0, ino: stats.ino, offset: 0, summaries: {}, entries: [] };
+
+  debug(`${appended ? 'Updating' : 'Indexing'} ${file} from byte ${fileIndex.offset}`);
+
+  let last = lastEntryValues(fileIndex.entries);
+  for await (const { line, end } of readCompleteLines(file, fileIndex.offset)) {
+    fileIndex.offset = end;
+
+    const data = parseLine(line);
+    if (!data) {
+      continue;
+    }
+
+    if (data.type === 'summary' && data.leafUuid && data.summary) {
+      fileIndex.summaries[data.leafUuid] = data.summary;
+    } else if (data.sessionId) {
+      const entry = toIndexEntry(data, last);
+      last = { sessionId: data.sessionId, cwd: data.cwd };
+      fileIndex.entries.push(entry);
+    }
+  }
+
+  fileIndex.size = stats.size;
+  fileIndex.mtimeMs = stats.mtimeMs;
+  return fileIndex;
+}
+
+function toIndexEntry(data: MessageData, last: Pick<IndexEntry, 'sessionId' | 'cwd'>): IndexEntry {
+  const entry: IndexEntry = { type: data.type };
+
+  if (data.sessionId !== last.sessionId) {
+    entry.sessionId = data.sessionId;
+  }
+  if ((data.cwd || '') !== (last.cwd || '')) {
+    entry.cwd = data.cwd || '';
+  }
+  if (data.uuid) {
+    entry.uuid = data.uuid;
+  }
+  if (data.parentUuid) {
+    entry.parentUuid = data.parentUuid;
+  }
+  if (data.logicalParentUuid) {
+    entry.logicalParentUuid = data.logicalParentUuid;
+  }
+  if (data.isSidechain) {
+    entry.isSidechain = true;
+  }
+  if (data.timestamp) {
+    entry.timestamp = data.timestamp;
+  }
+
+  const title = extractSessionTitle(data);
+  if (title) {
+    entry.title = title.slice(0, SESSION_INDEX_SETTINGS.MAX_TITLE_LENGTH);
+  }
+
+  const usage = data.message?.usage;
+  if (data.type === 'assistant' && usage && data.message?.model) {
+    entry.responseId = data.message.id || data.requestId;
+    entry.model = data.message.model;
+    entry.usage = {
+      input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens,
+      cache_creation_input_tokens: usage.cache_creation_input_tokens,
+      cache_read_input_tokens: usage.cache_read_input_tokens
+    };
+  }
+
+  return entry;
+}
+
+function lastEntryValues(entries: IndexEntry[]): Pick<IndexEntry, 'sessionId' | 'cwd'> {
+  const values: Pick<IndexEntry, 'sessionId' | 'cwd'> = {};
+  for (const entry of entries) {
+    values.sessionId = entry.sessionId ?? values.sessionId;
+    values.cwd = entry.cwd ?? values.cwd;
+  }
+  values.cwd = values.cwd || undefined;
+  return values;
+}
+
+/**
+ * Turn an index back into messages the session parser can group. Summaries
+ * come first; the parser matches them to their leaf messages by uuid.
+ */
+function* expandFileIndex(fileIndex: FileIndex): Generator<MessageData> {
+  for (const [leafUuid, summary] of Object.entries(fileIndex.summaries)) {
+    yield { type: 'summary', leafUuid, summary };
+  }
+
+  let sessionId: string | undefined;
+  let cwd: string | undefined;
+  for (const entry of fileIndex.entries) {
+    sessionId = entry.sessionId ?? sessionId;
+    cwd = entry.cwd ?? cwd;
+
+    yield {
+      type: entry.type,
+      sessionId,
+      uuid: entry.uuid,
+      parentUuid: entry.parentUuid,
+      logicalParentUuid: entry.logicalParentUuid,
+      isSidechain: entry.isSidechain,
+      timestamp: entry.timestamp,
+      cwd: cwd || undefined,
+      message: entry.usage
+        ? { role: 'assistant', content: '', id: entry.responseId, model: entry.model, usage: entry.usage }
+        : entry.title ? { role: 'user', content: entry.title } : undefined
+    };
+  }
+}
+
+function parseLine(line: string): MessageData | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(line);
+  } catch (error) {
+    debug(`Skipping invalid line: ${line.slice(0, 80)}`);
+    return undefined;
+  }
+}
\ No newline at end of file
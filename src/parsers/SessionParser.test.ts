@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SessionParser } from './SessionParser.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
 
 describe('SessionParser', () => {
   let parser: SessionParser;
@@ -126,11 +129,132 @@ invalid json line
     });
   });
 
+  describe('conversation branches', () => {
+    const input = `{"type": "user", "sessionId": "test", "uuid": "u1", "parentUuid": null, "message": {"role": "user", "content": "First try"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "a1", "parentUuid": "u1", "message": {"role": "assistant", "content": "Old answer"}, "timestamp": "2024-01-01T00:01:00.000Z"}
+{"type": "user", "sessionId": "test", "uuid": "u2", "parentUuid": null, "message": {"role": "user", "content": "Edited prompt"}, "timestamp": "2024-01-01T00:02:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "a2", "parentUuid": "u2", "message": {"role": "assistant", "content": "New answer"}, "timestamp": "2024-01-01T00:03:00.000Z"}`;
+
+    it('should keep only the latest branch in session messages', () => {
+      const session = parser.parseInput(input).get('test')!;
+
+      expect(session.messages.map(m => m.uuid)).toEqual(['u2', 'a2']);
+      expect(session.messageCount).toBe(2);
+    });
+
+    it('should record abandoned branches', () => {
+      const session = parser.parseInput(input).get('test')!;
+
+      expect(session.alternateBranches).toHaveLength(1);
+      expect(session.alternateBranches![0].messages.map(m => m.uuid)).toEqual(['u1', 'a1']);
+      expect(session.alternateBranches![0].resumeUuid).toBe('u2');
+    });
+
+    it('should keep a chain whose parent is in another file', () => {
+      const session = parser.parseInput(`{"type": "user", "sessionId": "test", "uuid": "a", "parentUuid": null, "message": {"role": "user", "content": "Hello"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "b", "parentUuid": "a", "message": {"role": "assistant", "content": "Hi"}, "timestamp": "2024-01-01T00:01:00.000Z"}
+{"type": "user", "sessionId": "test", "uuid": "c", "parentUuid": "missing-from-other-file", "message": {"role": "user", "content": "Resumed"}, "timestamp": "2024-01-01T00:02:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "d", "parentUuid": "c", "message": {"role": "assistant", "content": "Welcome back"}, "timestamp": "2024-01-01T00:03:00.000Z"}`).get('test')!;
+
+      expect(session.messages.map(m => m.uuid)).toEqual(['a', 'b', 'c', 'd']);
+      expect(session.alternateBranches).toBeUndefined();
+      expect(session.messageCount).toBe(4);
+    });
+  });
+
   describe('parseFiles', () => {
     it('should handle empty file list', () => {
       const result = parser.parseFiles([]);
       expect(result).toHaveLength(0);
     });
+
+    it('should record which files each session appears in', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-parser-'));
+      const first = path.join(tmpDir, 'first.jsonl');
+      const second = path.join(tmpDir, 'second.jsonl');
+      fs.writeFileSync(first, `{"type": "user", "sessionId": "a", "message": {"role": "user", "content": "Hello"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "user", "sessionId": "b", "message": {"role": "user", "content": "Other"}, "timestamp": "2024-01-01T00:00:00.000Z"}`);
+      fs.writeFileSync(second, `{"type": "assistant", "sessionId": "a", "message": {"role": "assistant", "content": "Hi"}, "timestamp": "2024-01-01T00:01:00.000Z"}`);
+
+      try {
+        const infos = parser.parseFiles([first, second]);
+        const sessionA = infos.find(info => info.sessionId === 'a')!;
+        const sessionB = infos.find(info => info.sessionId === 'b')!;
+
+        expect(sessionA.file).toBe(second);
+        expect(sessionA.messageCount).toBe(2);
+        expect(sessionB.file).toBe(first);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('parseFilesAsync', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-parser-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should match the synchronous parser', async () => {
+      const file = path.join(tmpDir, 'session.jsonl');
+      fs.writeFileSync(file, `{"type": "user", "sessionId": "test", "uuid": "u1", "message": {"role": "user", "content": "Hello"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "assistant", "sessionId": "test", "uuid": "u2", "message": {"role": "assistant", "content": "Hi"}, "timestamp": "2024-01-01T00:01:00.000Z"}
+{"type": "summary", "summary": "Greeting", "leafUuid": "u2"}`);
+
+      const infos = await parser.parseFilesAsync([file]);
+
+      expect(infos).toEqual(new SessionParser().parseFiles([file]));
+      expect(infos[0].summary).toBe('Greeting');
+      expect(infos[0].file).toBe(file);
+    });
+
+    it('should stream the messages of a single session', async () => {
+      const file = path.join(tmpDir, 'session.jsonl');
+      fs.writeFileSync(file, `{"type": "user", "sessionId": "a", "message": {"role": "user", "content": "Hello"}}
+{"type": "user", "sessionId": "b", "message": {"role": "user", "content": "Other"}}
+{"type": "summary", "summary": "Greeting", "leafUuid": "u2"}`);
+
+      const types = [];
+      for await (const data of parser.streamSessionData('a', [file])) {
+        types.push(data.type);
+      }
+
+      expect(types).toEqual(['user', 'summary']);
+    });
+  });
+
+  describe('parseStream', () => {
+    async function* toStream(input: string) {
+      for (const line of input.split('\n')) {
+        yield JSON.parse(line);
+      }
+    }
+
+    it('should apply summaries that appear after their leaf message', async () => {
+      const input = `{"type": "user", "sessionId": "test", "uuid": "u1", "message": {"role": "user", "content": "Hello"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "summary", "summary": "User greeted", "leafUuid": "u1"}`;
+
+      const sessions = await parser.parseStream(toStream(input));
+
+      expect(sessions.size).toBe(1);
+      expect(sessions.get('test')!.summary).toBe('User greeted');
+    });
+
+    it('should split sessions at summary boundaries', async () => {
+      const input = `{"type": "summary", "summary": "First part", "leafUuid": "u1"}
+{"type": "user", "sessionId": "test", "uuid": "u1", "message": {"role": "user", "content": "Hello"}, "timestamp": "2024-01-01T00:00:00.000Z"}
+{"type": "user", "sessionId": "test", "uuid": "u2", "message": {"role": "user", "content": "Again"}, "timestamp": "2024-01-01T00:01:00.000Z"}`;
+
+      const sessions = await parser.parseStream(toStream(input));
+
+      expect(Array.from(sessions.keys())).toEqual(['test', 'test_1']);
+    });
   });
 
   describe('session title generation', () => {
@@ -1,108 +1,111 @@
-import { MessageData, Session, SessionInfo } from '../types/index.js';
+import { MessageData, Session, SessionInfo, FileMessages } from '../types/index.js';
 import { TIME_FORMATS } from '../types/constants.js';
 import { cleanSummary, isValidTimestamp, parseTimestamp } from '../utils/time.js';
 import { MessageWrapper } from './MessageWrapper.js';
+import { ConversationTree } from './ConversationTree.js';
+import { UsageProcessor } from '../processors/UsageProcessor.js';
+import { parseJsonlLine, parseJsonlText, readJsonlFile } from './JsonlReader.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
 export class SessionParser {
   private sessions: Map<string, Session> = new Map();
   private summaryLeafs: Map<string, string> = new Map();
+  private sessionGroups: Map<string, MessageData[]> = new Map();
+  private sessionFiles: Map<string, Set<string>> = new Map();
 
   /**
    * Parse JSONL input and group into sessions
    */
   public parseInput(input: string): Map<string, Session> {
-    this.sessions.clear();
-    this.summaryLeafs.clear();
+    this.reset();
 
-    const lines = input.trim().split('\n').filter(line => line.trim());
-    
-    // First pass - collect all summaries
-    this.collectSummaries(lines);
-    
-    // Second pass - process messages and apply summaries
-    this.processMessages(lines);
+    for (const data of parseJsonlText(input)) {
+      this.addMessage(data);
+    }
     
-    return new Map(this.sessions);
+    return this.buildSessions();
+  }
+
+  /**
+   * Parse a stream of messages and group into sessions, one line at a time
+   */
+  public async parseStream(source: AsyncIterable<MessageData>): Promise<Map<string, Session>> {
+    this.reset();
+
+    for await (const data of source) {
+      this.addMessage(data);
+    }
+
+    return this.buildSessions();
   }
 
   /**
    * Parse multiple JSONL files and build session list
    */
   public parseFiles(files: string[]): SessionInfo[] {
-    this.sessions.clear();
-    this.summaryLeafs.clear();
+    this.reset();
 
-    // Read all files and collect all lines
-    const allLines: string[] = [];
-    const fileMetadata = new Map<string, fs.Stats>();
+    const fileMetadata = new Map<string, Date>();
     
     for (const file of files) {
       try {
         const content = fs.readFileSync(file, 'utf8');
-        const lines = content.trim().split('\n').filter(line => line.trim());
-        allLines.push(...lines);
+        for (const data of parseJsonlText(content)) {
+          this.addMessage(data, file);
+        }
         
-        const fileStats = fs.statSync(file);
-        fileMetadata.set(file, fileStats);
+        fileMetadata.set(file, fs.statSync(file).mtime);
       } catch (error) {
         console.error(`Error reading file ${file}:`, error);
       }
     }
     
-    // Process all lines together to get all summaries and sessions
-    const allSessionsMap = this.parseInput(allLines.join('\n'));
-    
-    // Update file metadata for sessions
-    for (const [sessionId, session] of allSessionsMap) {
-      // Find which files this session appears in
-      session.files = [];
-      
-      for (const file of files) {
-        try {
-          const content = fs.readFileSync(file, 'utf8');
-          if (content.includes(sessionId)) {
-            session.files.push(file);
-          }
-        } catch (error) {
-          console.error(`Error checking file ${file} for session ${sessionId}:`, error);
-        }
-      }
-      
-      // If timestamps weren't properly set from messages, fall back to file metadata
-      if (session.firstCreated.getTime() === 0 || session.lastModified.getTime() === 0) {
-        let firstFileTime = new Date();
-        let lastFileTime = new Date(0);
-        
-        for (const file of session.files) {
-          const fileStats = fileMetadata.get(file);
-          if (fileStats) {
-            if (fileStats.mtime < firstFileTime) {
-              firstFileTime = fileStats.mtime;
-            }
-            if (fileStats.mtime > lastFileTime) {
-              lastFileTime = fileStats.mtime;
-            }
-          }
-        }
-        
-        if (session.firstCreated.getTime() === 0) {
-          session.firstCreated = firstFileTime;
-        }
-        if (session.lastModified.getTime() === 0) {
-          session.lastModified = lastFileTime;
+    return this.buildSessionInfos(fileMetadata);
+  }
+
+  /**
+   * Parse multiple JSONL files by streaming them, without loading any file whole
+   */
+  public async parseFilesAsync(files: string[]): Promise<SessionInfo[]> {
+    this.reset();
+
+    const fileMetadata = new Map<string, Date>();
+
+    for (const file of files) {
+      try {
+        for await (const data of readJsonlFile(file)) {
+          this.addMessage(data, file);
         }
+
+        fileMetadata.set(file, (await fs.promises.stat(file)).mtime);
+      } catch (error) {
+        console.error(`Error reading file ${file}:`, error);
       }
     }
 
-    // Convert to SessionInfo array
-    return Array.from(allSessionsMap.values())
-      .map(session => this.sessionToInfo(session))
-      .filter(info => info.messageCount > 0)
-      .sort((a, b) => b.modified.getTime() - a.modified.getTime());
+    return this.buildSessionInfos(fileMetadata);
   }
 
+  /**
+   * Build the session list from messages that were already read from each
+   * file, such as the condensed copies kept by the session index
+   */
+  public parseFileMessages(files: FileMessages[]): SessionInfo[] {
+    this.reset();
+
+    const fileMetadata = new Map<string, Date>();
+
+    for (const { file, modified, messages } of files) {
+      for (const data of messages) {
+        this.addMessage(data, file);
+      }
+
+      fileMetadata.set(file, modified);
+    }
+
+    return this.buildSessionInfos(fileMetadata);
+  }
 
   /**
    * Get session data for a specific session ID from multiple files
@@ -116,21 +119,9 @@ export class SessionParser {
         const fileLines = content.trim().split('\n');
         
         for (const line of fileLines) {
-          if (!line.trim()) continue;
-          
-          try {
-            const data = JSON.parse(line);
-            
-            // Include all summary messages
-            if (data.type === 'summary') {
-              lines.push(line);
-            }
-            // Include messages from the selected session
-            else if (data.sessionId === sessionId) {
-              lines.push(line);
-            }
-          } catch (parseError) {
-            console.error(`Error parsing line: ${line}`, parseError);
+          const data = parseJsonlLine(line);
+          if (data && this.belongsToSession(data, sessionId)) {
+            lines.push(line);
           }
         }
       } catch (fileError) {
@@ -141,46 +132,108 @@ export class SessionParser {
     return lines.join('\n');
   }
 
-  private collectSummaries(lines: string[]): void {
-    for (const line of lines) {
+  /**
+   * Stream the messages for a specific session ID from multiple files
+   */
+  public async *streamSessionData(sessionId: string, files: string[]): AsyncGenerator<MessageData> {
+    for (const file of files) {
       try {
-        const data: MessageData = JSON.parse(line);
-        
-        if (data.type === 'summary' && data.leafUuid && data.summary) {
-          this.summaryLeafs.set(data.leafUuid, data.summary);
+        for await (const data of readJsonlFile(file)) {
+          if (this.belongsToSession(data, sessionId)) {
+            yield data;
+          }
         }
-      } catch (error) {
-        console.error(`Error parsing summary line: ${line}`, error);
+      } catch (fileError) {
+        console.error(`Error reading file ${file}:`, fileError);
       }
     }
   }
 
-  private processMessages(lines: string[]): void {
-    // Group messages by sessionId first
-    const sessionGroups = new Map<string, MessageData[]>();
-    
-    for (const line of lines) {
-      try {
-        const data: MessageData = JSON.parse(line);
+  private belongsToSession(data: MessageData, sessionId: string): boolean {
+    // Include all summary messages, plus messages from the selected session
+    return data.type === 'summary' || data.sessionId === sessionId;
+  }
+
+  private reset(): void {
+    this.sessions.clear();
+    this.summaryLeafs.clear();
+    this.sessionGroups.clear();
+    this.sessionFiles.clear();
+  }
+
+  /**
+   * Record a single parsed line. Summaries can appear anywhere in the input,
+   * so sessions are only built once every line has been seen.
+   */
+  private addMessage(data: MessageData, file?: string): void {
+    if (data.type === 'summary' && data.leafUuid && data.summary) {
+      this.summaryLeafs.set(data.leafUuid, data.summary);
+    }
+
+    if (!data.sessionId) {
+      return;
+    }
+
+    if (!this.sessionGroups.has(data.sessionId)) {
+      this.sessionGroups.set(data.sessionId, []);
+      this.sessionFiles.set(data.sessionId, new Set());
+    }
+    this.sessionGroups.get(data.sessionId)!.push(data);
+
+    if (file) {
+      this.sessionFiles.get(data.sessionId)!.add(file);
+    }
+  }
+
+  private buildSessions(): Map<string, Session> {
+    // Process each session group and split by summary boundaries
+    for (const [sessionId, messages] of this.sessionGroups) {
+      this.splitSessionBySummaries(sessionId, messages);
+    }
+
+    return new Map(this.sessions);
+  }
+
+  private buildSessionInfos(fileMetadata: Map<string, Date>): SessionInfo[] {
+    const allSessionsMap = this.buildSessions();
+
+    for (const session of allSessionsMap.values()) {
+      // If timestamps weren't properly set from messages, fall back to file metadata
+      if (session.firstCreated.getTime() === 0 || session.lastModified.getTime() === 0) {
+        let firstFileTime = new Date();
+        let lastFileTime = new Date(0);
         
-        if (data.sessionId) {
-          if (!sessionGroups.has(data.sessionId)) {
-            sessionGroups.set(data.sessionId, []);
+        for (const file of session.files) {
+          const fileModified = fileMetadata.get(file);
+          if (fileModified) {
+            if (fileModified < firstFileTime) {
+              firstFileTime = fileModified;
+            }
+            if (fileModified > lastFileTime) {
+              lastFileTime = fileModified;
+            }
           }
-          sessionGroups.get(data.sessionId)!.push(data);
         }
-      } catch (error) {
-        console.error(`Error parsing message line: ${line}`, error);
+        
+        if (session.firstCreated.getTime() === 0) {
+          session.firstCreated = firstFileTime;
+        }
+        if (session.lastModified.getTime() === 0) {
+          session.lastModified = lastFileTime;
+        }
       }
     }
-    
-    // Process each session group and split by summary boundaries
-    for (const [sessionId, messages] of sessionGroups) {
-      this.splitSessionBySummaries(sessionId, messages);
-    }
+
+    // Convert to SessionInfo array
+    return Array.from(allSessionsMap.values())
+      .map(session => this.sessionToInfo(session))
+      .filter(info => info.messageCount > 0)
+      .sort((a, b) => b.modified.getTime() - a.modified.getTime());
   }
 
   private splitSessionBySummaries(baseSessionId: string, messages: MessageData[]): void {
+    const files = Array.from(this.sessionFiles.get(baseSessionId) || []);
+    
     // Find all messages that have summaries
     const summaryMessageIndices = new Set<number>();
     
@@ -193,7 +246,7 @@ export class SessionParser {
     if (summaryMessageIndices.size === 0) {
       // No summaries found, treat as single session
       const sessionId = baseSessionId;
-      this.createSession(sessionId, messages);
+      this.createSession(sessionId, messages, files);
       return;
     }
     
@@ -208,7 +261,7 @@ export class SessionParser {
       // Create a session from currentStart to summaryIndex (inclusive)
       const sessionMessages = messages.slice(currentStart, summaryIndex + 1);
       const sessionId = sessionCounter === 0 ? baseSessionId : `${baseSessionId}_${sessionCounter}`;
-      this.createSession(sessionId, sessionMessages);
+      this.createSession(sessionId, sessionMessages, files);
       
       currentStart = summaryIndex + 1;
       sessionCounter++;
@@ -218,11 +271,11 @@ export class SessionParser {
     if (currentStart < messages.length) {
       const remainingMessages = messages.slice(currentStart);
       const sessionId = `${baseSessionId}_${sessionCounter}`;
-      this.createSession(sessionId, remainingMessages);
+      this.createSession(sessionId, remainingMessages, files);
     }
   }
 
-  private createSession(sessionId: string, messages: MessageData[]): void {
+  private createSession(sessionId: string, messages: MessageData[], files: string[]): void {
     if (messages.length === 0) return;
     
     // Initialize session
@@ -232,7 +285,7 @@ export class SessionParser {
       firstCreated: new Date(0), // Will be set from message timestamps
       lastModified: new Date(0), // Will be set from message timestamps
       messageCount: 0,
-      files: []
+      files: [...files]
     };
     
     // Extract CWD from messages (prefer the first non-empty CWD)
@@ -248,6 +301,16 @@ export class SessionParser {
       this.processSessionMessage(message, session);
     }
     
+    // Follow the uuid/parentUuid chain so only the latest branch is rendered by default
+    const tree = new ConversationTree(session.messages);
+    session.messages = tree.getActiveBranch();
+    const alternateBranches = tree.getAlternateBranches();
+    if (alternateBranches.length > 0) {
+      session.alternateBranches = alternateBranches;
+    }
+    // Count only what is rendered, not the messages on abandoned branches
+    session.messageCount = session.messages.filter(isConversationMessage).length;
+    
     // Only add session if it has messages
     if (session.messageCount > 0) {
       this.sessions.set(sessionId, session);
@@ -301,37 +364,24 @@ export class SessionParser {
     }
     
     // Generate summary from first user message if needed
-    if (!session.generatedSummary && data.type === 'user' && !data.isMeta) {
-      const message = new MessageWrapper(data);
-      const summary = this.extractSummaryFromMessage(message);
-      if (summary && summary !== 'Untitled') {
-        session.generatedSummary = summary;
-      }
+    if (!session.generatedSummary) {
+      session.generatedSummary = extractSessionTitle(data);
     }
     
     // Update message count
-    if (data.type === 'user' || data.type === 'assistant') {
+    if (isConversationMessage(data)) {
       session.messageCount++;
     }
   }
 
-  private extractSummaryFromMessage(message: MessageWrapper): string | undefined {
-    if (message.isCommand() || message.isInterruptionMessage() || message.isEmptyCommandOutput()) {
-      return undefined;
-    }
-    
-    const textContent = message.getTextContent();
-    if (!textContent || textContent.trim() === '') {
-      return undefined;
-    }
-    
-    return cleanSummary(textContent);
-  }
-
   private sessionToInfo(session: Session): SessionInfo {
     const summary = session.summary || session.generatedSummary || 'Untitled';
     const timestamp = session.lastTimestamp || session.firstTimestamp || session.id;
     
+    const usage = new UsageProcessor();
+    usage.addSession(session);
+    const entries = usage.getEntries();
+    
     return {
       sessionId: session.id,
       file: session.files[session.files.length - 1] || '',
@@ -340,7 +390,37 @@ export class SessionParser {
       messageCount: session.messageCount,
       modified: session.lastModified,
       created: session.firstCreated,
-      cwd: session.cwd
+      cwd: session.cwd,
+      tokens: entries.reduce((total, entry) => 
+        total + entry.inputTokens + entry.outputTokens + entry.cacheCreationTokens + entry.cacheReadTokens, 0),
+      models: [...new Set(entries.map(entry => entry.model))]
     };
   }
+}
+
+/**
+ * The title a user prompt would give its session when there is no summary,
+ * or undefined for messages that can't name a session
+ */
+export function extractSessionTitle(data: MessageData): string | undefined {
+  if (data.type !== 'user' || data.isMeta) {
+    return undefined;
+  }
+
+  const message = new MessageWrapper(data);
+  if (message.isCommand() || message.isInterruptionMessage() || message.isEmptyCommandOutput()) {
+    return undefined;
+  }
+
+  const textContent = message.getTextContent();
+  if (!textContent || textContent.trim() === '') {
+    return undefined;
+  }
+
+  const summary = cleanSummary(textContent);
+  return summary && summary !== 'Untitled' ? summary : undefined;
+}
+
+function isConversationMessage(data: MessageData): boolean {
+  return data.type === 'user' || data.type === 'assistant';
 }
\ No newline at end of file
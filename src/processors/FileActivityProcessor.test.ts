@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FileActivityProcessor } from './FileActivityProcessor.js';
+import { toolCall } from '../test/toolCalls.js';
+
+describe('FileActivityProcessor', () => {
+  let processor: FileActivityProcessor;
+
+  beforeEach(() => {
+    processor = new FileActivityProcessor();
+  });
+
+  it('should count each operation on a file, relative to the working directory', () => {
+    processor.addMessages([
+      ...toolCall('Read', { file_path: '/work/app/src/index.ts' }),
+      ...toolCall('Read', { file_path: '/work/app/src/index.ts', offset: 100 }),
+      ...toolCall('Grep', { pattern: 'TODO', path: '/work/app/src' }),
+      ...toolCall('NotebookEdit', { notebook_path: '/work/app/analysis.ipynb', new_source: 'x = 1' })
+    ], '/work/app');
+
+    expect(processor.getFiles()).toEqual([
+      { path: 'analysis.ipynb', operations: { read: 0, edit: 1, write: 0, search: 0 }, linesAdded: 0, linesRemoved: 0 },
+      { path: 'src', operations: { read: 0, edit: 0, write: 0, search: 1 }, linesAdded: 0, linesRemoved: 0 },
+      { path: 'src/index.ts', operations: { read: 2, edit: 0, write: 0, search: 0 }, linesAdded: 0, linesRemoved: 0 }
+    ]);
+  });
+
+  it('should count a search without a path against the working directory', () => {
+    processor.addMessages(toolCall('Glob', { pattern: '**/*.ts' }), '/work/app');
+
+    expect(processor.getFiles()[0]).toMatchObject({ path: '.', operations: { search: 1 } });
+  });
+
+  it('should add up the lines changed by edits', () => {
+    processor.addMessages([
+      ...toolCall('Edit', { file_path: '/work/app/a.ts', old_string: 'a', new_string: 'b' }, {
+        structuredPatch: [{ oldStart: 1, oldLines: 2, newStart: 1, newLines: 3, lines: [' keep', '-a', '+b', '+c'] }]
+      }),
+      ...toolCall('MultiEdit', { file_path: '/work/app/a.ts', edits: [] }, {
+        structuredPatch: [
+          { oldStart: 1, oldLines: 1, newStart: 1, newLines: 0, lines: ['-keep'] },
+          { oldStart: 9, oldLines: 1, newStart: 8, newLines: 1, lines: ['-x', '+y'] }
+        ]
+      })
+    ], '/work/app');
+
+    expect(processor.getFiles()).toEqual([
+      { path: 'a.ts', operations: { read: 0, edit: 2, write: 0, search: 0 }, linesAdded: 3, linesRemoved: 3 }
+    ]);
+  });
+
+  it('should diff writes, which record no patch for a new file', () => {
+    processor.addMessages([
+      ...toolCall('Write', { file_path: '/work/app/new.ts', content: 'one\ntwo\n' }, {
+        type: 'create', filePath: '/work/app/new.ts', structuredPatch: [], originalFile: null
+      }),
+      ...toolCall('Write', { file_path: '/work/app/old.ts', content: 'one\nTWO\n' }, {
+        type: 'update', filePath: '/work/app/old.ts', structuredPatch: [], originalFile: 'one\ntwo\n'
+      })
+    ], '/work/app');
+
+    expect(processor.getFiles().map(file => [file.path, file.linesAdded, file.linesRemoved])).toEqual([
+      ['new.ts', 2, 0],
+      ['old.ts', 1, 1]
+    ]);
+  });
+
+  it('should skip failed calls and tools that do not work on files', () => {
+    processor.addMessages([
+      ...toolCall('Read', { file_path: '/work/app/missing.ts' }, undefined, true),
+      ...toolCall('Bash', { command: 'ls', path: '/work/app' })
+    ], '/work/app');
+
+    expect(processor.getFiles()).toEqual([]);
+  });
+
+  it('should list changed files before the ones only read', () => {
+    processor.addMessages([
+      ...toolCall('Read', { file_path: '/work/app/a.ts' }),
+      ...toolCall('Write', { file_path: '/work/app/b.ts', content: '' }, { type: 'create' })
+    ], '/work/app');
+
+    expect(processor.getFiles().map(file => file.path)).toEqual(['b.ts', 'a.ts']);
+  });
+
+  it('should keep absolute paths when the working directory is unknown', () => {
+    processor.addMessages(toolCall('Read', { file_path: '/work/app/a.ts' }));
+
+    expect(processor.getFiles()[0].path).toBe('/work/app/a.ts');
+  });
+
+  it('should include abandoned branches of a session', () => {
+    processor.addSession({
+      id: 'test',
+      cwd: '/work/app',
+      messages: toolCall('Read', { file_path: '/work/app/a.ts' }),
+      alternateBranches: [{ messages: toolCall('Read', { file_path: '/work/app/b.ts' }) }],
+      firstCreated: new Date(),
+      lastModified: new Date(),
+      messageCount: 2,
+      files: []
+    });
+
+    expect(processor.getFiles().map(file => file.path)).toEqual(['a.ts', 'b.ts']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { Session, MessageData, ContentItem, ToolUseResult, StructuredPatch, FileActivity, FileOperation } from '../types/index.js';
+import { FILE_INPUT_KEYS, FILE_TOOL_OPERATIONS } from '../types/constants.js';
+import { MessageWrapper } from '../parsers/MessageWrapper.js';
+import { createStructuredPatch } from '../utils/diff.js';
+import { makeRelativePath } from '../utils/paths.js';
+
+/**
+ * Collects the files sessions read, edited, wrote or searched, counting the
+ * calls that succeeded and the lines their diffs added and removed. Paths
+ * are relative to the working directory of the session; a search without a
+ * path searched that directory.
+ */
+export class FileActivityProcessor {
+  private files: Map<string, FileActivity> = new Map();
+  // Shared because a session split at a summary can have a tool call on
+  // one side and its result on the other
+  private toolCalls: Map<string, ContentItem> = new Map();
+
+  /**
+   * Record a session's file activity, including abandoned branches since
+   * their changes were made to the files all the same
+   */
+  public addSession(session: Session): void {
+    this.addMessages(session.messages, session.cwd);
+    session.alternateBranches?.forEach(branch => this.addMessages(branch.messages, session.cwd));
+  }
+
+  public addMessages(messages: Iterable<MessageData>, cwd?: string): void {
+    for (const data of messages) {
+      this.addMessage(data, cwd);
+    }
+  }
+
+  public addMessage(data: MessageData, cwd?: string): void {
+    const message = new MessageWrapper(data);
+    message.getToolUses().forEach(toolUse => toolUse.id && this.toolCalls.set(toolUse.id, toolUse));
+
+    const toolResults = message.getToolResults();
+    // toolUseResult describes the whole message, so only trust it when unambiguous
+    const toolUseResult = toolResults.length === 1 && typeof message.toolUseResult === 'object'
+      ? message.toolUseResult
+      : undefined;
+
+    for (const toolResult of toolResults) {
+      const toolCall = toolResult.tool_use_id ? this.toolCalls.get(toolResult.tool_use_id) : undefined;
+      const operation = toolCall?.name ? FILE_TOOL_OPERATIONS[toolCall.name] : undefined;
+      if (!toolCall || !operation || toolResult.is_error) {
+        continue;
+      }
+
+      const filePath = getInputPath(toolCall.input) || (operation === 'search' ? cwd : undefined);
+      if (!filePath) {
+        continue;
+      }
+
+      const file = this.getFile(cwd ? makeRelativePath(filePath, cwd) : filePath);
+      file.operations[operation]++;
+
+      const hunks = toolUseResult ? getChangedHunks(toolCall, toolUseResult) : [];
+      for (const line of hunks.flatMap(hunk => hunk.lines)) {
+        if (line.startsWith('+')) {
+          file.linesAdded++;
+        } else if (line.startsWith('-')) {
+          file.linesRemoved++;
+        }
+      }
+    }
+  }
+
+  /**
+   * Files that were changed come first, then the ones that were only read
+   * or searched, each in path order
+   */
+  public getFiles(): FileActivity[] {
+    return Array.from(this.files.values()).sort((a, b) =>
+      Number(isChanged(b)) - Number(isChanged(a)) || a.path.localeCompare(b.path)
+    );
+  }
+
+  private getFile(filePath: string): FileActivity {
+    let file = this.files.get(filePath);
+    if (!file) {
+      file = {
+        path: filePath,
+        operations: { read: 0, edit: 0, write: 0, search: 0 },
+        linesAdded: 0,
+        linesRemoved: 0
+      };
+      this.files.set(filePath, file);
+    }
+    return file;
+  }
+}
+
+export function isChanged(file: FileActivity): boolean {
+  return file.operations.edit > 0 || file.operations.write > 0;
+}
+
+function getInputPath(input?: Record<string, any>): string | undefined {
+  return FILE_INPUT_KEYS
+    .map(key => input?.[key])
+    .find((value): value is string => typeof value === 'string' && value.length > 0);
+}
+
+/**
+ * The diff of an edit or write. Claude Code records none for a new file, so
+ * it is worked out from the content written.
+ */
+function getChangedHunks(toolCall: ContentItem, toolUseResult: ToolUseResult): StructuredPatch[] {
+  if (toolUseResult.structuredPatch && toolUseResult.structuredPatch.length > 0) {
+    return toolUseResult.structuredPatch;
+  }
+
+  if (toolCall.name !== 'Write') {
+    return [];
+  }
+
+  const content = typeof toolCall.input?.content === 'string' ? toolCall.input.content : toolUseResult.content;
+  const before = typeof toolUseResult.originalFile === 'string'
+    ? toolUseResult.originalFile
+    : toolUseResult.type === 'create' ? '' : undefined;
+  return typeof content === 'string' && before !== undefined ? createStructuredPatch(before, content) : [];
+}
\ No newline at end of file
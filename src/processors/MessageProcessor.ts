@@ -1,4 +1,4 @@
-import { MessageData, ContentItem, ProcessingContext, ToolCallMap } from '../types/index.js';
+import { MessageData, ContentItem, ProcessingContext, ToolCallMap, StructuredPatch, FileEdit } from '../types/index.js';
 import { MessageWrapper } from '../parsers/MessageWrapper.js';
 import { ToolResultProcessor } from './ToolResultProcessor.js';
 import Debug from 'debug';
@@ -8,8 +8,14 @@ const debug = Debug('session-to-md:processor');
 export class MessageProcessor {
   private output: string[] = [];
   private context: ProcessingContext;
+  private headingLevel: number;
 
-  constructor() {
+  /**
+   * @param headingLevel Markdown heading level for User/Assistant headings.
+   *   Nested transcripts (e.g. subagents) use a deeper level than the session.
+   */
+  constructor(headingLevel: number = 3) {
+    this.headingLevel = headingLevel;
     this.context = {
       pendingTools: [],
       pendingToolResults: [],
@@ -150,6 +156,30 @@ export class MessageProcessor {
     return result;
   }
 
+  /**
+   * Show a cancelled edit as its old text replaced by the new, since there is
+   * no patch against the file to show
+   */
+  private createCancelledEditHunk(oldString?: string, newString?: string): StructuredPatch | undefined {
+    if (!oldString || !newString) {
+      return undefined;
+    }
+    
+    const oldLines = oldString.split('\n');
+    const newLines = newString.split('\n');
+    
+    return {
+      oldStart: 1,
+      oldLines: oldLines.length,
+      newStart: 1,
+      newLines: newLines.length,
+      lines: [
+        ...oldLines.map(line => `-${line}`),
+        ...newLines.map(line => `+${line}`)
+      ]
+    };
+  }
+
   /**
    * Handle tool results
    */
@@ -166,32 +196,20 @@ export class MessageProcessor {
         const toolUseId = result.tool_use_id;
         const toolCall = toolUseId ? this.context.toolCallMap[toolUseId] : undefined;
         
-        // For Edit tools, set up structured patch like successful edits
-        if (toolCall?.name === 'Edit') {
+        // For Edit and MultiEdit tools, set up structured patch like successful edits
+        if (toolCall?.name === 'Edit' || toolCall?.name === 'MultiEdit') {
           const input = toolCall.input;
-          const filePath = input?.file_path;
-          const oldString = input?.old_string;
-          const newString = input?.new_string;
+          const edits: (Partial<FileEdit> | undefined)[] = toolCall.name === 'MultiEdit' && Array.isArray(input?.edits) ? input.edits : [input];
+          const structuredPatch = edits
+            .map(edit => this.createCancelledEditHunk(edit?.old_string, edit?.new_string))
+            .filter((hunk): hunk is StructuredPatch => hunk !== undefined);
           
-          if (filePath && oldString && newString) {
-            const oldLines = oldString.split('\n');
-            const newLines = newString.split('\n');
-            
-            const diffLines = [
-              ...oldLines.map((line: string) => `-${line}`),
-              ...newLines.map((line: string) => `+${line}`)
-            ];
-            
+          if (input?.file_path && structuredPatch.length > 0) {
             // Set up structured patch in context
             this.context.currentToolUseResult = {
-              filePath,
-              structuredPatch: [{
-                oldStart: 1,
-                oldLines: oldLines.length,
-                newStart: 1,
-                newLines: newLines.length,
-                lines: diffLines
-              }]
+              filePath: input.file_path,
+              structuredPatch,
+              interrupted: true
             };
           }
         }
@@ -253,7 +271,7 @@ export class MessageProcessor {
       return ['**🧹 User cleared the session**', ''];
     }
 
-    const result = ['### User', ''];
+    const result = [this.heading('User'), ''];
     
     if (command.args) {
       result.push(`> ${command.name} "${command.args}"`);
@@ -269,7 +287,7 @@ export class MessageProcessor {
    * Output user content
    */
   private outputUserContent(contentItems: ContentItem[]): string[] {
-    const result = ['### User', ''];
+    const result = [this.heading('User'), ''];
     
     contentItems.forEach(item => {
       const text = MessageWrapper.extractTextFromContentItem(item);
@@ -299,7 +317,7 @@ export class MessageProcessor {
     if (toolUses.length > 0) {
       // Output text if present
       if (textContent.length > 0) {
-        result.push('### Assistant', '');
+        result.push(this.heading('Assistant'), '');
         textContent.forEach(item => {
           result.push(item.text || '', '');
         });
@@ -324,14 +342,14 @@ export class MessageProcessor {
    * Output assistant text
    */
   private outputAssistantText(text: string): string[] {
-    return ['### Assistant', '', text, ''];
+    return [this.heading('Assistant'), '', text, ''];
   }
 
   /**
    * Output assistant text items
    */
   private outputAssistantTextItems(textItems: ContentItem[]): string[] {
-    const result = ['### Assistant', ''];
+    const result = [this.heading('Assistant'), ''];
     
     textItems.forEach(item => {
       result.push(item.text || '', '');
@@ -359,6 +377,13 @@ export class MessageProcessor {
     return result;
   }
 
+  /**
+   * Build a role heading at the configured level
+   */
+  private heading(role: 'User' | 'Assistant'): string {
+    return `${'#'.repeat(this.headingLevel)} ${role}`;
+  }
+
   /**
    * Get current processing context
    */
@@ -0,0 +1,202 @@
+import {
+  Session,
+  MessageData,
+  RedactionDetector,
+  RedactionOptions,
+  RedactionReport
+} from '../types/index.js';
+import { REDACTION_DETECTORS, HIGH_ENTROPY_SETTINGS } from '../types/constants.js';
+import Debug from 'debug';
+
+const debug = Debug('session-to-md:redaction');
+
+const PLACEHOLDER_PREFIX = '[REDACTED:';
+
+// Tool use ids look random but pair calls with results, so they must survive
+const STRUCTURAL_KEYS = new Set(['id', 'tool_use_id', 'type', 'name']);
+
+/**
+ * Replaces secrets in parsed sessions before they are formatted. Every text,
+ * tool input and tool result is scanned; each distinct secret gets a stable
+ * placeholder such as `[REDACTED:github-token-1]`, so the same key appearing
+ * twice can still be recognized as the same key.
+ */
+export class RedactionProcessor {
+  private detectors: RedactionDetector[];
+  private detectHighEntropy: boolean;
+  private placeholders: Map<string, string> = new Map();
+  private counters: Map<string, number> = new Map();
+  private matchesByDetector: { [name: string]: number } = {};
+
+  constructor(options: RedactionOptions = {}) {
+    this.detectHighEntropy = options.detectHighEntropy !== false;
+    this.detectors = [
+      ...REDACTION_DETECTORS,
+      ...(options.customPatterns || []).map(pattern => ({ name: 'custom', pattern: compilePattern(pattern) }))
+    ];
+  }
+
+  /**
+   * Redact every session, returning copies; the input is left untouched
+   */
+  public redactSessions(sessions: Map<string, Session>): Map<string, Session> {
+    const redacted = new Map<string, Session>();
+    for (const [sessionId, session] of sessions) {
+      redacted.set(sessionId, this.redactSession(session));
+    }
+    return redacted;
+  }
+
+  public redactSession(session: Session): Session {
+    return {
+      ...session,
+      summary: session.summary && this.redactText(session.summary),
+      generatedSummary: session.generatedSummary && this.redactText(session.generatedSummary),
+      messages: session.messages.map(data => this.redactMessage(data)),
+      alternateBranches: session.alternateBranches?.map(branch => ({
+        ...branch,
+        messages: branch.messages.map(data => this.redactMessage(data))
+      }))
+    };
+  }
+
+  /**
+   * Redact the content, tool inputs, tool results and summary of a message.
+   * Identifiers and metadata such as uuid and cwd are kept as they are.
+   */
+  public redactMessage(data: MessageData): MessageData {
+    return {
+      ...data,
+      summary: data.summary && this.redactText(data.summary),
+      message: data.message && { ...data.message, content: this.redactValue(data.message.content) },
+      toolUseResult: data.toolUseResult && this.redactValue(data.toolUseResult)
+    };
+  }
+
+  public redactText(text: string): string {
+    let result = text;
+
+    for (const detector of this.detectors) {
+      result = result.replace(detector.pattern, (match: string, ...groups: any[]) => {
+        const secret = detector.group ? groups[detector.group - 1] : match;
+        if (typeof secret !== 'string' || secret === '' || secret.startsWith(PLACEHOLDER_PREFIX)) {
+          return match;
+        }
+
+        const start = detector.group ? match.lastIndexOf(secret) : 0;
+        const placeholder = this.getPlaceholder(detector.name, secret);
+        return match.slice(0, start) + placeholder + match.slice(start + secret.length);
+      });
+    }
+
+    if (this.detectHighEntropy) {
+      result = result.replace(HIGH_ENTROPY_SETTINGS.PATTERN, candidate =>
+        looksRandom(candidate) ? this.getPlaceholder('high-entropy', candidate) : candidate
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Summarize what has been redacted so far
+   */
+  public getReport(): RedactionReport {
+    const byDetector = { ...this.matchesByDetector };
+    return {
+      totalMatches: Object.values(byDetector).reduce((sum, count) => sum + count, 0),
+      uniqueSecrets: this.placeholders.size,
+      byDetector
+    };
+  }
+
+  /**
+   * Format the report as a one-line summary
+   */
+  public formatReport(): string {
+    const report = this.getReport();
+    if (report.totalMatches === 0) {
+      return 'Redaction: no secrets found';
+    }
+
+    const details = Object.entries(report.byDetector)
+      .map(([name, count]) => `${name} ×${count}`)
+      .join(', ');
+
+    return `Redaction: replaced ${report.totalMatches} match(es) of ${report.uniqueSecrets} secret(s) (${details})`;
+  }
+
+  private redactValue<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.redactText(value) as T;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item)) as T;
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, STRUCTURAL_KEYS.has(key) ? item : this.redactValue(item)])
+      ) as T;
+    }
+
+    return value;
+  }
+
+  private getPlaceholder(detector: string, secret: string): string {
+    this.matchesByDetector[detector] = (this.matchesByDetector[detector] || 0) + 1;
+
+    let placeholder = this.placeholders.get(secret);
+    if (!placeholder) {
+      const count = (this.counters.get(detector) || 0) + 1;
+      this.counters.set(detector, count);
+      placeholder = `${PLACEHOLDER_PREFIX}${detector}-${count}]`;
+      this.placeholders.set(secret, placeholder);
+      debug(`New ${detector} secret redacted as ${placeholder}`);
+    }
+
+    return placeholder;
+  }
+}
+
+/**
+ * Compile a user-supplied pattern, always matching globally
+ */
+function compilePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'g');
+  } catch (error) {
+    throw new Error(`Invalid redaction pattern '${pattern}': ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Random tokens mix upper case, lower case and digits, break into one or two
+ * character words when split like a camelCase name, and have high Shannon
+ * entropy. Identifiers, file names and hex hashes don't.
+ */
+function looksRandom(candidate: string): boolean {
+  if (!/[0-9]/.test(candidate) || !/[a-z]/.test(candidate) || !/[A-Z]/.test(candidate)) {
+    return false;
+  }
+
+  const words = candidate.match(/[A-Z]?[a-z]+|[A-Z]+(?![a-z])|[0-9]+/g) || [];
+  const wordLength = words.join('').length / words.length;
+  if (wordLength > HIGH_ENTROPY_SETTINGS.MAX_AVERAGE_WORD_LENGTH) {
+    return false;
+  }
+
+  const frequencies = new Map<string, number>();
+  for (const char of candidate) {
+    frequencies.set(char, (frequencies.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of frequencies.values()) {
+    const probability = count / candidate.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy >= HIGH_ENTROPY_SETTINGS.MIN_BITS_PER_CHAR;
+}
\ No newline at end of file
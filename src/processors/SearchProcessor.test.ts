@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SearchProcessor, parseSearchQuery } from './SearchProcessor.js';
+import { ContentItem, MessageData } from '../types/index.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('parseSearchQuery', () => {
+  it('should match plain text case-insensitively', () => {
+    const query = parseSearchQuery('npm test');
+
+    expect(query.pattern!.test('Run NPM TEST now')).toBe(true);
+    expect(query.tools).toEqual([]);
+    expect(query.files).toEqual([]);
+  });
+
+  it('should escape regex characters in plain text', () => {
+    expect(parseSearchQuery('a.b').pattern!.test('axb')).toBe(false);
+  });
+
+  it('should extract tool and file filters', () => {
+    const query = parseSearchQuery('tool:Bash file:"src/my file.ts" deploy');
+
+    expect(query.tools).toEqual(['Bash']);
+    expect(query.files).toEqual(['src/my file.ts']);
+    expect(query.pattern!.source).toBe('deploy');
+  });
+
+  it('should leave the pattern empty for filter-only queries', () => {
+    expect(parseSearchQuery('tool:Edit').pattern).toBeUndefined();
+  });
+
+  it('should accept /regex/flags literals', () => {
+    const query = parseSearchQuery('/todo|fixme/i');
+
+    expect(query.pattern!.test('FIXME later')).toBe(true);
+  });
+
+  it('should search absolute paths as text', () => {
+    for (const path of ['/usr/bin', '/tmp/dim', '/usr/local/bin', '/a/ii']) {
+      const pattern = parseSearchQuery(path).pattern!;
+
+      expect(pattern.test(`ls ${path}`)).toBe(true);
+      expect(pattern.test('tmp')).toBe(false);
+    }
+  });
+
+  it('should drop the global and sticky flags', () => {
+    const pattern = parseSearchQuery('/todo/giy').pattern!;
+
+    expect(pattern.flags).toBe('i');
+    expect(pattern.test('a TODO')).toBe(true);
+    expect(pattern.test('another todo')).toBe(true);
+  });
+
+  it('should treat the text as a regex when asked', () => {
+    expect(parseSearchQuery('load(Started|Finished)', { regex: true }).pattern!.test('loadFinished')).toBe(true);
+  });
+
+  it('should report invalid regexes', () => {
+    expect(() => parseSearchQuery('/(unclosed/')).toThrow('Invalid search pattern');
+  });
+});
+
+describe('SearchProcessor', () => {
+  const source = { project: '~/app', file: '/tmp/session.jsonl' };
+
+  const bashCall: MessageData = {
+    type: 'assistant',
+    sessionId: 's1',
+    uuid: 'a1',
+    timestamp: '2025-07-01T10:00:00Z',
+    message: {
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Running the tests now' },
+        { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'npm test', description: 'Run tests' } }
+      ]
+    }
+  };
+
+  const bashResult: MessageData = {
+    type: 'user',
+    sessionId: 's1',
+    uuid: 'u2',
+    timestamp: '2025-07-01T10:00:05Z',
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '3 tests failed' }] }
+  };
+
+  const editCall: MessageData = {
+    type: 'assistant',
+    sessionId: 's1',
+    uuid: 'a3',
+    timestamp: '2025-07-01T10:01:00Z',
+    message: {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'toolu_2', name: 'Edit', input: { file_path: '/work/app/src/foo.ts', old_string: 'a', new_string: 'b' } }]
+    }
+  };
+
+  const search = (query: string, messages: MessageData[]) => {
+    const processor = new SearchProcessor(parseSearchQuery(query));
+    const toolCalls = new Map<string, ContentItem>();
+    return messages
+      .map(data => processor.searchMessage(data, toolCalls, source))
+      .filter(result => result !== undefined);
+  };
+
+  it('should find assistant text with a highlighted snippet', () => {
+    const [result] = search('tests', [bashCall]);
+
+    expect(result).toMatchObject({ project: '~/app', sessionId: 's1', uuid: 'a1', field: 'response' });
+    expect(result!.snippet.slice(result!.highlight.start, result!.highlight.end)).toBe('tests');
+  });
+
+  it('should search tool inputs and outputs', () => {
+    const results = search('failed', [bashCall, bashResult]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ field: 'tool-output', toolName: 'Bash' });
+  });
+
+  it('should restrict tool: filters to that tool', () => {
+    expect(search('tool:Bash npm', [bashCall, editCall])[0]).toMatchObject({ field: 'tool-input', toolName: 'Bash' });
+    expect(search('tool:Edit npm', [bashCall, editCall])).toHaveLength(0);
+  });
+
+  it('should match file: filters against tool file paths', () => {
+    const results = search('file:src/foo.ts', [bashCall, bashResult, editCall]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ uuid: 'a3', toolName: 'Edit' });
+  });
+
+  it('should cut long text into a snippet around the match', () => {
+    const long: MessageData = {
+      type: 'user',
+      sessionId: 's1',
+      message: { role: 'user', content: `${'a '.repeat(100)}needle\n\n${'b '.repeat(100)}` }
+    };
+
+    const [result] = search('needle', [long]);
+
+    expect(result!.snippet.startsWith('…')).toBe(true);
+    expect(result!.snippet.endsWith('…')).toBe(true);
+    expect(result!.snippet).not.toContain('\n');
+    expect(result!.snippet.slice(result!.highlight.start, result!.highlight.end)).toBe('needle');
+  });
+
+  describe('searchProjects', () => {
+    let projectsDir: string;
+
+    beforeEach(() => {
+      projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-search-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectsDir, { recursive: true, force: true });
+    });
+
+    const writeSession = (project: string, file: string, messages: object[]) => {
+      fs.mkdirSync(path.join(projectsDir, project), { recursive: true });
+      fs.writeFileSync(path.join(projectsDir, project, file), messages.map(m => JSON.stringify(m)).join('\n'));
+    };
+
+    it('should search every project and return the newest matches first', async () => {
+      writeSession('-work-api', 'a.jsonl', [
+        { type: 'user', sessionId: 'a', uuid: 'a1', cwd: '/work/api', timestamp: '2025-07-01T10:00:00Z', message: { role: 'user', content: 'fix the deploy' } }
+      ]);
+      writeSession('-work-web', 'b.jsonl', [
+        { type: 'user', sessionId: 'b', uuid: 'b1', cwd: '/work/web', timestamp: '2025-07-02T10:00:00Z', message: { role: 'user', content: 'deploy again' } },
+        { type: 'user', sessionId: 'b', uuid: 'b1', cwd: '/work/web', timestamp: '2025-07-02T10:00:00Z', message: { role: 'user', content: 'deploy again' } }
+      ]);
+
+      const results = await new SearchProcessor(parseSearchQuery('deploy')).searchProjects(projectsDir);
+
+      expect(results.map(result => [result.project, result.uuid])).toEqual([
+        ['/work/web', 'b1'],
+        ['/work/api', 'a1']
+      ]);
+    });
+
+    it('should stop at the limit', async () => {
+      writeSession('-work-api', 'a.jsonl', [1, 2, 3].map(i => ({
+        type: 'user', sessionId: 'a', uuid: `u${i}`, timestamp: `2025-07-0${i}T10:00:00Z`, message: { role: 'user', content: 'deploy' }
+      })));
+
+      const results = await new SearchProcessor(parseSearchQuery('deploy')).searchProjects(projectsDir, 2);
+
+      expect(results.map(result => result.uuid)).toEqual(['u3', 'u2']);
+    });
+  });
+});
\ No newline at end of file
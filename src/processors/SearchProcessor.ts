@@ -0,0 +1,257 @@
+import { MessageData, ContentItem, SearchField, SearchQuery, SearchResult } from '../types/index.js';
+import { SEARCH_SETTINGS, FILE_INPUT_KEYS } from '../types/constants.js';
+import { MessageWrapper } from '../parsers/MessageWrapper.js';
+import { readJsonlFile } from '../parsers/JsonlReader.js';
+import { listProjectDirectories, findProjectCwd, getProjectDisplayName } from '../utils/projects.js';
+import Debug from 'debug';
+
+const debug = Debug('session-to-md:search');
+
+const QUERY_TOKEN = /(tool|file):("[^"]*"|\S+)|"([^"]*)"|(\S+)/g;
+
+// A body without an unescaped '/' and flags that change what matches, each
+// at most once. Anything else, such as /usr/bin or /tmp/dim, is a path.
+const REGEX_LITERAL = /^\/((?:[^/\\]|\\.)+)\/(?!.*(.).*\2)([gimsuy]*)$/;
+
+interface SearchSource {
+  project: string;
+  file: string;
+}
+
+interface SearchableText {
+  field: SearchField;
+  text: string;
+  toolName?: string;
+  files?: string[];
+}
+
+/**
+ * Parse a search query such as `tool:Bash "npm test"` or `file:src/foo.ts /TODO|FIXME/`.
+ * Free text is matched case-insensitively; `/.../flags` or `regex: true` makes it a
+ * regular expression. Text that only looks like a regex literal, such as an absolute
+ * path, is matched as it is.
+ */
+export function parseSearchQuery(query: string, options: { regex?: boolean } = {}): SearchQuery {
+  const parsed: SearchQuery = { tools: [], files: [] };
+  const text: string[] = [];
+
+  for (const match of query.matchAll(QUERY_TOKEN)) {
+    const [, filter, value, quoted, word] = match;
+    if (filter) {
+      const unquoted = value.replace(/^"(.*)"$/, '$1');
+      (filter === 'tool' ? parsed.tools : parsed.files).push(unquoted);
+    } else {
+      text.push(quoted ?? word);
+    }
+  }
+
+  const freeText = text.join(' ');
+  if (!freeText) {
+    return parsed;
+  }
+
+  const literal = freeText.match(REGEX_LITERAL);
+  try {
+    if (literal) {
+      // Global and sticky patterns keep their position between searches
+      parsed.pattern = new RegExp(literal[1], literal[3].replace(/[gy]/g, ''));
+    } else if (options.regex) {
+      parsed.pattern = new RegExp(freeText, 'i');
+    } else {
+      parsed.pattern = new RegExp(freeText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    }
+  } catch (error) {
+    throw new Error(`Invalid search pattern '${freeText}': ${error instanceof Error ? error.message : error}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Searches prompts, assistant text, tool inputs and tool outputs in session
+ * files, returning one result per matching message
+ */
+export class SearchProcessor {
+  private query: SearchQuery;
+
+  constructor(query: SearchQuery) {
+    this.query = query;
+  }
+
+  /**
+   * Search every session in every project, newest matches first
+   */
+  public async searchProjects(projectsDir: string, limit: number = SEARCH_SETTINGS.DEFAULT_LIMIT): Promise<SearchResult[]> {
+    const results: SearchResult[] = [];
+
+    for (const project of listProjectDirectories(projectsDir)) {
+      const displayName = getProjectDisplayName(project.name, await findProjectCwd(project.files));
+      for (const file of project.files) {
+        results.push(...await this.searchFile(file, displayName));
+      }
+    }
+
+    debug(`Found ${results.length} matches in ${projectsDir}`);
+    return sortByNewest(results).slice(0, limit);
+  }
+
+  /**
+   * Search one session file
+   */
+  public async searchFile(file: string, project: string): Promise<SearchResult[]> {
+    const results: SearchResult[] = [];
+    const toolCalls = new Map<string, ContentItem>();
+    const seen = new Set<string>();
+
+    for await (const data of readJsonlFile(file)) {
+      // Resumed sessions repeat earlier lines
+      if (data.uuid) {
+        if (seen.has(data.uuid)) {
+          continue;
+        }
+        seen.add(data.uuid);
+      }
+
+      const result = this.searchMessage(data, toolCalls, { project, file });
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Search a single message. `toolCalls` collects the tool calls seen so far
+   * so that results can be matched against the tool that produced them.
+   */
+  public searchMessage(data: MessageData, toolCalls: Map<string, ContentItem>, source: SearchSource): SearchResult | undefined {
+    if ((data.type !== 'user' && data.type !== 'assistant') || !data.message) {
+      return undefined;
+    }
+
+    const message = new MessageWrapper(data);
+    message.getToolUses().forEach(toolUse => {
+      if (toolUse.id) {
+        toolCalls.set(toolUse.id, toolUse);
+      }
+    });
+
+    for (const candidate of this.getSearchableText(message, toolCalls)) {
+      if (!this.matchesFilters(candidate)) {
+        continue;
+      }
+
+      const match = this.query.pattern ? this.query.pattern.exec(candidate.text) : undefined;
+      if (this.query.pattern && !match) {
+        continue;
+      }
+
+      return {
+        project: source.project,
+        sessionId: data.sessionId || 'unknown',
+        file: source.file,
+        uuid: data.uuid,
+        timestamp: data.timestamp,
+        field: candidate.field,
+        toolName: candidate.toolName,
+        ...createSnippet(candidate.text, match ? match.index : 0, match ? match[0].length : 0)
+      };
+    }
+
+    return undefined;
+  }
+
+  private getSearchableText(message: MessageWrapper, toolCalls: Map<string, ContentItem>): SearchableText[] {
+    const texts: SearchableText[] = [];
+
+    if (!message.isMeta) {
+      texts.push({ field: message.type === 'assistant' ? 'response' : 'prompt', text: message.getTextContent() });
+    }
+
+    message.getToolUses().forEach(toolUse => {
+      texts.push({
+        field: 'tool-input',
+        text: formatToolInput(toolUse.input),
+        toolName: toolUse.name,
+        files: getInputFiles(toolUse.input)
+      });
+    });
+
+    message.getToolResults().forEach(toolResult => {
+      const toolUse = toolResult.tool_use_id ? toolCalls.get(toolResult.tool_use_id) : undefined;
+      const files = getInputFiles(toolUse?.input);
+      const resultFile = message.toolUseResult?.filePath || message.toolUseResult?.file?.filePath;
+      if (resultFile) {
+        files.push(resultFile);
+      }
+
+      texts.push({
+        field: 'tool-output',
+        text: MessageWrapper.extractTextFromContentItem(toolResult),
+        toolName: toolUse?.name,
+        files
+      });
+    });
+
+    return texts.filter(candidate => candidate.text.trim() !== '');
+  }
+
+  /**
+   * `tool:` and `file:` filters only match tool calls and results
+   */
+  private matchesFilters(candidate: SearchableText): boolean {
+    const { tools, files } = this.query;
+
+    if (tools.length > 0) {
+      const toolName = candidate.toolName?.toLowerCase();
+      if (!toolName || !tools.some(tool => tool.toLowerCase() === toolName)) {
+        return false;
+      }
+    }
+
+    if (files.length > 0) {
+      const candidateFiles = (candidate.files || []).map(file => file.replace(/\\/g, '/'));
+      if (!files.some(file => candidateFiles.some(candidateFile => candidateFile.includes(file)))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+function formatToolInput(input?: Record<string, any>): string {
+  return Object.values(input || {})
+    .map(value => typeof value === 'string' ? value : JSON.stringify(value))
+    .join('\n');
+}
+
+function getInputFiles(input?: Record<string, any>): string[] {
+  return FILE_INPUT_KEYS
+    .map(key => input?.[key])
+    .filter((value): value is string => typeof value === 'string');
+}
+
+/**
+ * Cut a single-line snippet around the match, recording where the match
+ * sits in the snippet so callers can highlight it
+ */
+function createSnippet(text: string, index: number, length: number): Pick<SearchResult, 'snippet' | 'highlight'> {
+  const collapse = (part: string) => part.replace(/\s+/g, ' ');
+  const start = Math.max(0, index - SEARCH_SETTINGS.SNIPPET_BEFORE);
+  const end = Math.min(text.length, index + length + SEARCH_SETTINGS.SNIPPET_AFTER);
+
+  const before = (start > 0 ? '…' : '') + collapse(text.slice(start, index)).trimStart();
+  const match = collapse(text.slice(index, index + length));
+  const after = collapse(text.slice(index + length, end)).trimEnd() + (end < text.length ? '…' : '');
+
+  return {
+    snippet: before + match + after,
+    highlight: { start: before.length, end: before.length + match.length }
+  };
+}
+
+function sortByNewest(results: SearchResult[]): SearchResult[] {
+  return results.sort((a, b) => (b.timestamp || '').localeCompare(a.timestamp || ''));
+}
\ No newline at end of file
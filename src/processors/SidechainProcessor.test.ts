@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SidechainProcessor } from './SidechainProcessor.js';
+import { MessageData } from '../types/index.js';
+
+describe('SidechainProcessor', () => {
+  let processor: SidechainProcessor;
+
+  const taskCall = (id: string, prompt: string, uuid: string): MessageData => ({
+    type: 'assistant',
+    sessionId: 'test',
+    uuid,
+    message: {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id, name: 'Task', input: { description: 'Explore', prompt } }]
+    }
+  });
+
+  const sidechain = (type: 'user' | 'assistant', uuid: string, parentUuid: string | null, content: string): MessageData => ({
+    type,
+    sessionId: 'test',
+    uuid,
+    parentUuid,
+    isSidechain: true,
+    message: { role: type, content }
+  });
+
+  beforeEach(() => {
+    processor = new SidechainProcessor();
+  });
+
+  it('should leave sessions without sidechains untouched', () => {
+    const messages: MessageData[] = [
+      { type: 'user', sessionId: 'test', message: { role: 'user', content: 'Hello' } }
+    ];
+
+    const { mainMessages, threads } = processor.groupSidechains(messages);
+
+    expect(mainMessages).toEqual(messages);
+    expect(threads).toHaveLength(0);
+  });
+
+  it('should follow parentUuid chains into threads', () => {
+    const messages = [
+      taskCall('task-1', 'Find the bug', 'm1'),
+      sidechain('user', 's1', null, 'Find the bug'),
+      sidechain('assistant', 's2', 's1', 'Looking'),
+      sidechain('user', 't1', null, 'Other agent'),
+      sidechain('assistant', 's3', 's2', 'Found it'),
+      sidechain('assistant', 't2', 't1', 'Other answer')
+    ];
+
+    const { mainMessages, threads } = processor.groupSidechains(messages);
+
+    expect(mainMessages).toHaveLength(1);
+    expect(threads).toHaveLength(2);
+    expect(threads[0].messages.map(m => m.uuid)).toEqual(['s1', 's2', 's3']);
+    expect(threads[1].messages.map(m => m.uuid)).toEqual(['t1', 't2']);
+    expect(threads[0].prompt).toBe('Find the bug');
+  });
+
+  it('should link threads to Task calls by prompt', () => {
+    const messages = [
+      taskCall('task-1', 'First job', 'm1'),
+      taskCall('task-2', 'Second job', 'm2'),
+      sidechain('user', 's1', null, 'Second job'),
+      sidechain('user', 't1', null, 'First job')
+    ];
+
+    const { threads } = processor.groupSidechains(messages);
+
+    expect(threads[0].toolUseId).toBe('task-2');
+    expect(threads[1].toolUseId).toBe('task-1');
+  });
+
+  it('should fall back to the closest preceding Task call', () => {
+    const messages = [
+      taskCall('task-1', 'Something else', 'm1'),
+      sidechain('user', 's1', null, 'Reworded prompt')
+    ];
+
+    const { threads } = processor.groupSidechains(messages);
+
+    expect(threads[0].toolUseId).toBe('task-1');
+  });
+
+  it('should leave threads without a Task call unlinked', () => {
+    const { threads } = processor.groupSidechains([sidechain('user', 's1', null, 'Orphan')]);
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].toolUseId).toBeUndefined();
+  });
+});
\ No newline at end of file
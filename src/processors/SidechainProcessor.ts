@@ -0,0 +1,106 @@
+import { MessageData, SidechainThread } from '../types/index.js';
+import { SUBAGENT_TOOL_NAMES } from '../types/constants.js';
+import { MessageWrapper } from '../parsers/MessageWrapper.js';
+import Debug from 'debug';
+
+const debug = Debug('session-to-md:sidechain');
+
+interface SubagentCall {
+  id: string;
+  prompt: string;
+  index: number;
+}
+
+export class SidechainProcessor {
+  /**
+   * Split session messages into the main transcript and subagent threads,
+   * linking each thread to the Task tool call that spawned it
+   */
+  public groupSidechains(messages: MessageData[]): {
+    mainMessages: MessageData[];
+    threads: SidechainThread[];
+  } {
+    const mainMessages: MessageData[] = [];
+    const threads: SidechainThread[] = [];
+    const threadByUuid = new Map<string, SidechainThread>();
+
+    messages.forEach((data, index) => {
+      if (!data.isSidechain) {
+        mainMessages.push(data);
+        return;
+      }
+
+      let thread = data.parentUuid ? threadByUuid.get(data.parentUuid) : undefined;
+
+      // A parentless message starts a new subagent; one whose parent we never
+      // saw most likely continues the latest thread
+      if (!thread && data.parentUuid && threads.length > 0) {
+        thread = threads[threads.length - 1];
+      }
+
+      if (!thread) {
+        thread = { messages: [], prompt: '', firstIndex: index };
+        threads.push(thread);
+      }
+
+      thread.messages.push(data);
+      if (data.uuid) {
+        threadByUuid.set(data.uuid, thread);
+      }
+
+      if (!thread.prompt && data.type === 'user' && !data.isMeta) {
+        thread.prompt = new MessageWrapper(data).getTextContent();
+      }
+    });
+
+    this.linkThreadsToCalls(threads, this.collectSubagentCalls(messages));
+
+    return { mainMessages, threads };
+  }
+
+  /**
+   * Find Task tool calls in the main transcript
+   */
+  private collectSubagentCalls(messages: MessageData[]): SubagentCall[] {
+    const calls: SubagentCall[] = [];
+
+    messages.forEach((data, index) => {
+      if (data.isSidechain || data.type !== 'assistant') {
+        return;
+      }
+
+      new MessageWrapper(data).getToolUses().forEach(toolUse => {
+        if (toolUse.id && toolUse.name && SUBAGENT_TOOL_NAMES.includes(toolUse.name)) {
+          calls.push({ id: toolUse.id, prompt: toolUse.input?.prompt || '', index });
+        }
+      });
+    });
+
+    return calls;
+  }
+
+  /**
+   * Match threads to calls by prompt text, falling back to the closest
+   * unclaimed call that precedes the thread
+   */
+  private linkThreadsToCalls(threads: SidechainThread[], calls: SubagentCall[]): void {
+    const claimed = new Set<string>();
+
+    for (const thread of threads) {
+      const prompt = thread.prompt.trim();
+      let call = calls.find(candidate => !claimed.has(candidate.id) && prompt !== '' && candidate.prompt.trim() === prompt);
+
+      if (!call) {
+        call = calls
+          .filter(candidate => !claimed.has(candidate.id) && candidate.index < thread.firstIndex)
+          .pop();
+      }
+
+      if (call) {
+        claimed.add(call.id);
+        thread.toolUseId = call.id;
+        debug(`Linked sidechain thread at message ${thread.firstIndex} to tool use ${call.id}`);
+      }
+    }
+  }
+}
\ No newline at end of file
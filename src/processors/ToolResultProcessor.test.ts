@@ -142,6 +142,62 @@ describe('ToolResultProcessor', () => {
     });
   });
 
+  describe('formatting options', () => {
+    const longContent = Array.from({ length: 60 }, (_, i) => `line ${i + 1}`).join('\n');
+
+    it('should truncate output from any tool', () => {
+      const result = processor.formatToolResults([
+        { type: 'tool_result', tool_use_id: 'tool-2', content: longContent }
+      ]).join('\n');
+
+      expect(result).toContain('line 50');
+      expect(result).not.toContain('line 51');
+      expect(result).toContain('... (10 more lines truncated, 60 total)');
+    });
+
+    it('should respect maxLines', () => {
+      processor = new ToolResultProcessor(context, { maxLines: 5 });
+
+      const result = processor.formatToolResults([
+        { type: 'tool_result', tool_use_id: 'tool-2', content: longContent }
+      ]).join('\n');
+
+      expect(result).toContain('line 5');
+      expect(result).not.toContain('line 6');
+      expect(result).toContain('55 more lines truncated');
+    });
+
+    it('should not truncate when truncation is disabled', () => {
+      processor = new ToolResultProcessor(context, { truncateLongOutput: false });
+
+      const result = processor.formatToolResults([
+        { type: 'tool_result', tool_use_id: 'tool-2', content: longContent }
+      ]).join('\n');
+
+      expect(result).toContain('line 60');
+      expect(result).not.toContain('truncated');
+    });
+
+    it('should omit languages when syntax highlighting is disabled', () => {
+      processor = new ToolResultProcessor(context, { syntaxHighlighting: false });
+
+      const result = processor.formatToolResults([
+        { type: 'tool_result', tool_use_id: 'tool-1', content: '     1→const a = 1;' }
+      ]);
+
+      expect(result).toContain('```');
+      expect(result.join('\n')).not.toContain('```javascript');
+    });
+
+    it('should keep absolute paths when relativization is disabled', () => {
+      processor = new ToolResultProcessor(context, { relativizePaths: false });
+
+      const summary = processor.createToolResultSummary('content', 'tool-1');
+
+      expect(summary).toContain('/test/file.js');
+    });
+  });
+
   describe('formatStructuredPatch', () => {
     it('should format file patches correctly', () => {
       context.currentToolUseResult = {
@@ -184,6 +240,249 @@ describe('ToolResultProcessor', () => {
       expect(result.join(' ')).toContain('- function old()');
       expect(result.join(' ')).toContain('+ function new()');
     });
+
+    it('should start each hunk with its position in the file', () => {
+      context.currentToolUseResult = {
+        filePath: '/test/script.py',
+        structuredPatch: [
+          { oldStart: 5, oldLines: 2, newStart: 5, newLines: 2, lines: ['  unchanged line', '-old()', '+new()'] },
+          { oldStart: 40, oldLines: 1, newStart: 40, newLines: 2, lines: ['+added()', ' kept()'] }
+        ]
+      };
+
+      const result = (processor as any).formatStructuredPatch().join('\n');
+
+      expect(result).toContain('```diff\n@@ -5,2 +5,2 @@\n  unchanged line');
+      expect(result).toContain('```diff\n@@ -40,1 +40,2 @@\n+added()');
+    });
+
+    it('should leave out positions for a cancelled edit', () => {
+      context.currentToolUseResult = {
+        filePath: '/test/script.py',
+        interrupted: true,
+        structuredPatch: [{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ['-old()', '+new()'] }]
+      };
+
+      const result = (processor as any).formatStructuredPatch().join('\n');
+
+      expect(result).toContain('```diff\n-old()\n+new()');
+      expect(result).not.toContain('@@');
+    });
+  });
+
+  describe('formatMultiEdit', () => {
+    beforeEach(() => {
+      context.currentCwd = '/test';
+      context.toolCallMap['tool-4'] = {
+        type: 'tool_use',
+        id: 'tool-4',
+        name: 'MultiEdit',
+        input: {
+          file_path: '/test/app.ts',
+          edits: [
+            { old_string: 'const a = 1;', new_string: 'const a = 2;' },
+            { old_string: 'const z = 1;', new_string: 'const z = 2;' }
+          ]
+        }
+      };
+    });
+
+    it('should show every hunk under one file heading', () => {
+      context.currentToolUseResult = {
+        filePath: '/test/app.ts',
+        structuredPatch: [
+          { oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ['-const a = 1;', '+const a = 2;'] },
+          { oldStart: 40, oldLines: 1, newStart: 40, newLines: 1, lines: ['-const z = 1;', '+const z = 2;'] }
+        ]
+      };
+
+      const output = processor.formatToolResults([{ type: 'tool_result', tool_use_id: 'tool-4', content: 'Applied 2 edits' }]);
+
+      expect(output.filter(line => line.startsWith('**'))).toEqual(['**MultiEdit:** `app.ts` (2 edits)']);
+      expect(output.filter(line => line === '```diff')).toHaveLength(2);
+      expect(output.join('\n')).toContain('```diff\n@@ -40,1 +40,1 @@\n-const z = 1;\n+const z = 2;\n```');
+    });
+
+    it('should summarize the file and edit count instead of the raw input', () => {
+      const summary = processor.createToolResultSummary('Applied 2 edits', 'tool-4');
+
+      expect(summary).toBe('<b>MultiEdit:</b> <code>app.ts</code> (2 edits)');
+    });
+  });
+
+  describe('formatNotebookEdit', () => {
+    const notebookEdit = (input: Record<string, any>) => {
+      context.currentCwd = '/test';
+      context.toolCallMap['tool-5'] = { type: 'tool_use', id: 'tool-5', name: 'NotebookEdit', input: { notebook_path: '/test/analysis.ipynb', ...input } };
+      return processor.formatToolResults([{ type: 'tool_result', tool_use_id: 'tool-5', content: 'Updated cell' }]).join('\n');
+    };
+
+    it('should label a replaced cell by its index and type and show its source', () => {
+      const output = notebookEdit({ cell_id: 'cell-3', cell_type: 'code', new_source: 'df.head()' });
+
+      expect(output).toContain('**NotebookEdit:** `analysis.ipynb`');
+      expect(output).toContain('_Replaced cell 3 (code)_');
+      expect(output).toContain('```python\ndf.head()\n```');
+    });
+
+    it('should describe inserted and deleted cells', () => {
+      expect(notebookEdit({ cell_id: 'abc', cell_type: 'markdown', edit_mode: 'insert', new_source: '# Results' }))
+        .toContain('_Inserted a markdown cell after cell abc_\n\n```markdown\n# Results\n```');
+
+      const deleted = notebookEdit({ cell_number: 2, edit_mode: 'delete', new_source: '' });
+      expect(deleted).toContain('_Deleted cell 2_');
+      expect(deleted).not.toContain('```');
+    });
+  });
+
+  describe('formatToolInputHtml', () => {
+    it('should show nested input values as JSON', () => {
+      context.toolCallMap['tool-6'] = { type: 'tool_use', id: 'tool-6', name: 'mcp__db__query', input: { sql: 'select 1', params: [1, 2] } };
+
+      expect(processor.createToolResultSummary('', 'tool-6')).toBe('<b>mcp__db__query:</b> <code>sql: select 1, params: [1,2]</code>');
+    });
+  });
+
+  describe('tool renderers', () => {
+    const mcpResult = [{ type: 'tool_result' as const, tool_use_id: 'tool-7', content: '{"number":42}' }];
+
+    beforeEach(() => {
+      context.toolCallMap['tool-7'] = {
+        type: 'tool_use',
+        id: 'tool-7',
+        name: 'mcp__github__create_issue',
+        input: { title: 'Crash on start', body: 'It crashes.' }
+      };
+    });
+
+    it('should collapse a call under the summary, input and body of its renderer', () => {
+      processor = new ToolResultProcessor(context, {
+        toolRenderers: {
+          'mcp__github__create_issue': {
+            summary: tool => `<b>New issue:</b> ${tool.input.title}`,
+            input: tool => [tool.input.body, ''],
+            body: tool => [`Created #${JSON.parse(tool.content).number}`, '']
+          }
+        }
+      });
+
+      expect(processor.formatToolResults(mcpResult).join('\n')).toBe([
+        '<details><summary><b>New issue:</b> Crash on start</summary>',
+        '',
+        'It crashes.',
+        '',
+        'Created #42',
+        '',
+        '</details>',
+        ''
+      ].join('\n'));
+    });
+
+    it('should match tools by prefix and fill in the parts a renderer leaves out', () => {
+      processor = new ToolResultProcessor(context, {
+        toolRenderers: { 'mcp__github__*': { summary: tool => `<b>GitHub:</b> ${tool.name.slice('mcp__github__'.length)}` } }
+      });
+
+      const output = processor.formatToolResults(mcpResult).join('\n');
+      expect(output).toContain('<summary><b>GitHub:</b> create_issue</summary>');
+      expect(output).toContain('```\n{"number":42}\n```');
+    });
+
+    it('should show a call open when its renderer renders it', () => {
+      processor = new ToolResultProcessor(context, {
+        toolRenderers: { 'mcp__github__create_issue': { render: tool => [`**Opened:** ${tool.input.title}`, ''] } }
+      });
+
+      expect(processor.formatToolResults(mcpResult)).toEqual(['**Opened:** Crash on start', '']);
+    });
+
+    it('should fall back to the generic rendering when a renderer throws', () => {
+      processor = new ToolResultProcessor(context, {
+        toolRenderers: { 'mcp__github__create_issue': { summary: () => { throw new Error('boom'); } } }
+      });
+
+      expect(processor.formatToolResults(mcpResult).join('\n'))
+        .toContain('<summary><b>mcp__github__create_issue:</b> <code>title: Crash on start, body: It crashes.</code></summary>');
+    });
+
+    it('should let a custom renderer replace a built-in one', () => {
+      processor = new ToolResultProcessor(context, { toolRenderers: { Bash: { summary: tool => `$ ${tool.input.command}` } } });
+
+      expect(processor.createToolResultSummary('', 'tool-2')).toBe('$ ls -la');
+    });
+
+    it('should summarize a subagent call by its description and quote its prompt', () => {
+      context.toolCallMap['tool-8'] = {
+        type: 'tool_use',
+        id: 'tool-8',
+        name: 'Task',
+        input: { description: 'Find the parser', prompt: 'Where is JSONL parsed?\nList the files.', subagent_type: 'Explore' }
+      };
+
+      const output = processor.formatToolResults([{ type: 'tool_result', tool_use_id: 'tool-8', content: 'In src/parsers.' }]).join('\n');
+
+      expect(output).toContain('<summary><b>Task:</b> Find the parser (Explore)</summary>');
+      expect(output).toContain('> Where is JSONL parsed?\n> List the files.');
+    });
+
+    it('should summarize searches and fetches by what they looked for', () => {
+      context.currentCwd = '/test';
+      context.toolCallMap['tool-9'] = { type: 'tool_use', id: 'tool-9', name: 'Glob', input: { pattern: '**/*.ts', path: '/test/src' } };
+      context.toolCallMap['tool-10'] = { type: 'tool_use', id: 'tool-10', name: 'WebFetch', input: { url: 'https://example.com', prompt: 'Summarize' } };
+
+      expect(processor.createToolResultSummary('', 'tool-9')).toBe('<b>Glob:</b> <code>**/*.ts</code> in <code>src</code>');
+      expect(processor.createToolResultSummary('', 'tool-10')).toBe('<b>WebFetch:</b> <code>https://example.com</code>');
+    });
+  });
+
+  describe('formatWrite', () => {
+    const writeResult = [{
+      type: 'tool_result' as const,
+      tool_use_id: 'tool-3',
+      content: 'File created successfully at: /test/app.ts'
+    }];
+
+    beforeEach(() => {
+      context.toolCallMap['tool-3'] = {
+        type: 'tool_use',
+        id: 'tool-3',
+        name: 'Write',
+        input: { file_path: '/test/app.ts', content: 'const a = 1;\nconst b = 2;\n' }
+      };
+    });
+
+    it('should show the content of a new file with its language', () => {
+      context.currentToolUseResult = { type: 'create', filePath: '/test/app.ts', structuredPatch: [], originalFile: null };
+
+      const output = processor.formatToolResults(writeResult).join('\n');
+
+      expect(output).toContain('<b>Write:</b>');
+      expect(output).toContain('```typescript\nconst a = 1;\nconst b = 2;\n');
+      expect(output).not.toContain('File created successfully');
+    });
+
+    it('should show a diff against the file it replaced', () => {
+      context.currentToolUseResult = { type: 'update', filePath: '/test/app.ts', originalFile: 'const a = 1;\nconst b = 3;\n' };
+
+      const output = processor.formatToolResults(writeResult).join('\n');
+
+      expect(output).toContain('```diff\n@@ -1,2 +1,2 @@\n const a = 1;\n-const b = 3;\n+const b = 2;\n```');
+    });
+
+    it('should say so when the file was rewritten unchanged', () => {
+      context.currentToolUseResult = { type: 'update', filePath: '/test/app.ts', originalFile: 'const a = 1;\nconst b = 2;\n' };
+
+      expect(processor.formatToolResults(writeResult).join('\n')).toContain('_No changes_');
+    });
+
+    it('should show the tool output when the write failed', () => {
+      context.currentToolUseResult = undefined;
+
+      const output = processor.formatToolResults([{ ...writeResult[0], content: 'Permission denied', is_error: true }]).join('\n');
+
+      expect(output).toContain('Permission denied');
+      expect(output).not.toContain('const a = 1;');
+    });
   });
 
   describe('createToolResultSummary', () => {
@@ -263,7 +562,7 @@ describe('ToolResultProcessor', () => {
     });
   });
 
-  describe('formatTodoWrite', () => {
+  describe('TodoWrite', () => {
     it('should format todo write results', () => {
       const toolCall = {
         type: 'tool_use' as const,
@@ -277,7 +576,8 @@ describe('ToolResultProcessor', () => {
         }
       };
 
-      const result = (processor as any).formatTodoWrite(toolCall);
+      context.toolCallMap['todo-1'] = toolCall;
+      const result = processor.formatToolResults([{ type: 'tool_result', tool_use_id: 'todo-1', content: 'Todos have been modified successfully' }]);
 
       expect(result.join(' ')).toContain('**Updated task list**');
       expect(result.join(' ')).toContain('Task 1');
@@ -292,7 +592,8 @@ describe('ToolResultProcessor', () => {
         input: { todos: [] }
       };
 
-      const result = (processor as any).formatTodoWrite(toolCall);
+      context.toolCallMap['todo-1'] = toolCall;
+      const result = processor.formatToolResults([{ type: 'tool_result', tool_use_id: 'todo-1', content: 'Todos have been modified successfully' }]);
 
       expect(result.join(' ')).toContain('**Updated task list**');
     });
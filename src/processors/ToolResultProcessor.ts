@@ -1,16 +1,28 @@
-import { ContentItem, ToolCallMap, ToolUseResult, ProcessingContext } from '../types/index.js';
+import { ContentItem, ProcessingContext, FormattingOptions, ToolRenderer, ToolRenderContext } from '../types/index.js';
+import { DEFAULT_FORMATTING_OPTIONS } from '../types/constants.js';
 import { MessageWrapper } from '../parsers/MessageWrapper.js';
+import { ToolRendererRegistry } from '../renderers/ToolRendererRegistry.js';
+import { renderStructuredPatch } from '../renderers/builtinRenderers.js';
 import { detectLanguageFromPath, detectCodeLanguage } from '../utils/language.js';
 import { makeRelativePath } from '../utils/paths.js';
 import Debug from 'debug';
 
 const debug = Debug('session-to-md:tool-processor');
 
+/**
+ * Formats tool results. Each tool's calls are rendered by its renderer in
+ * the registry (see builtinRenderers), and this class supplies the generic
+ * rendering for whatever a renderer leaves out.
+ */
 export class ToolResultProcessor {
   private context: ProcessingContext;
+  private options: FormattingOptions;
+  private renderers: ToolRendererRegistry;
 
-  constructor(context: ProcessingContext) {
+  constructor(context: ProcessingContext, options: FormattingOptions = DEFAULT_FORMATTING_OPTIONS) {
     this.context = context;
+    this.options = { ...DEFAULT_FORMATTING_OPTIONS, ...options };
+    this.renderers = ToolRendererRegistry.withBuiltins(this.options.toolRenderers);
   }
 
   /**
@@ -30,7 +42,7 @@ export class ToolResultProcessor {
   }
 
   /**
-   * Format a single tool result
+   * Format a single tool result with the renderer for its tool
    */
   private formatToolResult(toolResult: ContentItem): string[] {
     let content: string;
@@ -46,78 +58,95 @@ export class ToolResultProcessor {
     
     const toolUseId = toolResult.tool_use_id;
     const toolCall = toolUseId ? this.context.toolCallMap[toolUseId] : undefined;
+    const renderer = toolCall?.name ? this.renderers.get(toolCall.name) : undefined;
+    const tool = this.createRenderContext(content, toolCall, toolResult.is_error === true, toolUseId);
 
-    // Check for structured patch
-    if (this.context.currentToolUseResult?.structuredPatch) {
-      return this.formatStructuredPatch();
+    const rendered = this.callRenderer(renderer, 'render', tool);
+    if (rendered) {
+      return rendered;
     }
 
-    // Special handling for TodoWrite
-    if (toolCall?.name === 'TodoWrite') {
-      return this.formatTodoWrite(toolCall);
+    // Edits made by tools without a renderer still show their patch
+    if (!renderer && this.context.currentToolUseResult?.structuredPatch) {
+      return this.formatStructuredPatch(toolCall);
     }
 
-    // Regular tool result
-    return this.formatRegularToolResult(content, toolUseId);
+    return this.formatRegularToolResult(tool, renderer, toolUseId);
   }
 
   /**
-   * Format structured patch
+   * Format a structured patch for a tool without a renderer of its own
    */
-  private formatStructuredPatch(): string[] {
-    const filePath = this.context.currentToolUseResult?.filePath;
-    const structuredPatch = this.context.currentToolUseResult?.structuredPatch;
-    
-    if (!filePath || !structuredPatch) {
-      return [];
-    }
-
-    const relativePath = makeRelativePath(filePath, this.context.currentCwd);
-    const result = [
-      `**Edit:** \`${relativePath}\``,
-      '',
-      '```diff'
-    ];
-
-    structuredPatch.forEach(hunk => {
-      hunk.lines.forEach(line => {
-        result.push(line);
-      });
-    });
-
-    result.push('```', '');
-    return result;
+  private formatStructuredPatch(toolCall?: ContentItem): string[] {
+    return renderStructuredPatch(this.createRenderContext('', toolCall, false)) || [];
   }
 
   /**
-   * Format TodoWrite tool result
+   * Format a tool call collapsed under its summary
    */
-  private formatTodoWrite(toolCall: ContentItem): string[] {
-    const result = [
-      '**Updated task list**',
+  private formatRegularToolResult(tool: ToolRenderContext, renderer: ToolRenderer | undefined, toolUseId?: string): string[] {
+    return [
+      `<details><summary>${this.summarize(tool, renderer)}</summary>`,
       '',
-      ...this.formatTodoList(toolCall.input),
+      ...(this.callRenderer(renderer, 'input', tool) || []),
+      ...(this.callRenderer(renderer, 'body', tool) || tool.formatContent()),
+      ...this.takeSidechainTranscript(toolUseId),
+      '</details>',
       ''
     ];
-
-    return result;
   }
 
   /**
-   * Format regular tool result
+   * Call one part of a renderer. A renderer that fails gets the generic
+   * rendering for that part, so a broken custom renderer can't lose the
+   * rest of the transcript.
    */
-  private formatRegularToolResult(content: string, toolUseId?: string): string[] {
-    const toolSummary = this.createToolResultSummary(content, toolUseId);
-    
-    const result = [
-      `<details><summary>${toolSummary}</summary>`,
-      ''
-    ];
+  private callRenderer<Part extends keyof ToolRenderer>(
+    renderer: ToolRenderer | undefined,
+    part: Part,
+    tool: ToolRenderContext
+  ): ReturnType<NonNullable<ToolRenderer[Part]>> | undefined {
+    const render = renderer?.[part] as ((tool: ToolRenderContext) => any) | undefined;
+    if (!render) {
+      return undefined;
+    }
 
-    result.push(...this.formatToolContent(content, toolUseId));
-    result.push('</details>', '');
+    try {
+      return render(tool);
+    } catch (error) {
+      debug(`The ${part} renderer for ${tool.name} failed: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
 
-    return result;
+  private createRenderContext(content: string, toolCall: ContentItem | undefined, isError: boolean, toolUseId?: string): ToolRenderContext {
+    const toolUseResult = this.context.currentToolUseResult;
+    return {
+      name: toolCall?.name || '',
+      input: toolCall?.input || {},
+      content,
+      isError,
+      toolUseResult: typeof toolUseResult === 'object' ? toolUseResult : undefined,
+      options: this.options,
+      relativePath: filePath => this.relativePath(filePath),
+      formatCodeBlock: (code, language) => this.formatCodeBlock(code, language),
+      formatContent: () => this.formatToolContent(content, toolUseId),
+      formatInput: () => this.formatToolInputHtml(toolCall?.input)
+    };
+  }
+
+  /**
+   * Take the nested subagent transcript spawned by this tool call, if any
+   */
+  private takeSidechainTranscript(toolUseId?: string): string[] {
+    const transcripts = this.context.sidechainTranscripts;
+    if (!toolUseId || !transcripts?.[toolUseId]) {
+      return [];
+    }
+
+    const transcript = transcripts[toolUseId];
+    delete transcripts[toolUseId];
+    return ['', ...transcript];
   }
 
   /**
@@ -130,10 +159,6 @@ export class ToolResultProcessor {
       return this.formatArrayContent(content);
     }
 
-    if (this.shouldTruncateLS(toolCall)) {
-      return this.formatTruncatedContent(content);
-    }
-
     if (this.hasLineNumbers(content)) {
       return this.formatFileContent(content, toolCall);
     }
@@ -145,17 +170,6 @@ export class ToolResultProcessor {
     return this.formatPlainContent(content);
   }
 
-  /**
-   * Check if LS output should be truncated
-   */
-  private shouldTruncateLS(toolCall?: ContentItem): boolean {
-    if (!toolCall) return false;
-    
-    return toolCall.name === 'LS' || 
-           (toolCall.name === 'Bash' && 
-            toolCall.input?.command?.match(/^(ls|LS)(\s|$)/));
-  }
-
   /**
    * Format array content
    */
@@ -172,21 +186,35 @@ export class ToolResultProcessor {
   }
 
   /**
-   * Format truncated content
+   * Format content as a fenced code block, honoring the highlighting and
+   * truncation options
    */
-  private formatTruncatedContent(content: string): string[] {
-    const result = ['```'];
-    const lines = content.split('\n');
+  private formatCodeBlock(content: string, language: string = ''): string[] {
+    const fence = this.options.syntaxHighlighting && language ? `\`\`\`${language}` : '```';
     
-    if (lines.length > 50) {
-      result.push(...lines.slice(0, 50));
-      result.push(`\n... (${lines.length - 50} more lines)`);
-    } else {
-      result.push(content);
+    return [
+      fence,
+      ...this.truncateLines(content.split('\n')),
+      '```'
+    ];
+  }
+
+  /**
+   * Truncate lines to maxLines, leaving a marker that says how much was cut
+   */
+  private truncateLines(lines: string[]): string[] {
+    const maxLines = this.options.maxLines;
+    
+    if (!this.options.truncateLongOutput || !maxLines || maxLines < 1 || lines.length <= maxLines) {
+      return lines;
     }
     
-    result.push('```');
-    return result;
+    const hiddenLines = lines.length - maxLines;
+    return [
+      ...lines.slice(0, maxLines),
+      '',
+      `... (${hiddenLines} more line${hiddenLines === 1 ? '' : 's'} truncated, ${lines.length} total)`
+    ];
   }
 
   /**
@@ -196,35 +224,21 @@ export class ToolResultProcessor {
     const filePath = toolCall?.input?.file_path;
     const language = filePath ? detectLanguageFromPath(filePath) : '';
     
-    return [
-      `\`\`\`${language}`,
-      MessageWrapper.stripLineNumbers(content),
-      '```'
-    ];
+    return this.formatCodeBlock(MessageWrapper.stripLineNumbers(content), language);
   }
 
   /**
    * Format code content
    */
   private formatCodeContent(content: string): string[] {
-    const language = detectCodeLanguage(content);
-    
-    return [
-      `\`\`\`${language}`,
-      content,
-      '```'
-    ];
+    return this.formatCodeBlock(content, detectCodeLanguage(content));
   }
 
   /**
    * Format plain content
    */
   private formatPlainContent(content: string): string[] {
-    return [
-      '```',
-      content,
-      '```'
-    ];
+    return this.formatCodeBlock(content);
   }
 
   /**
@@ -237,75 +251,16 @@ export class ToolResultProcessor {
       return this.createContentBasedSummary(content);
     }
 
-    const toolName = toolCall.name;
-    const toolInput = toolCall.input;
-
-    switch (toolName) {
-      case 'TodoWrite':
-        return '<b>TodoWrite:</b> Updated task list';
-      case 'Read':
-        return this.formatReadSummary(toolInput);
-      case 'Grep':
-        return this.formatGrepSummary(toolInput);
-      case 'Edit':
-        return `<b>Edit:</b> <code>${makeRelativePath(toolInput?.file_path, this.context.currentCwd)}</code>`;
-      case 'Bash':
-        return this.formatBashSummary(toolInput);
-      case 'Write':
-        return `<b>Write:</b> <code>${makeRelativePath(toolInput?.file_path, this.context.currentCwd)}</code>`;
-      case 'LS':
-        return this.formatLSSummary(toolInput);
-      default:
-        return `<b>${toolName}:</b> ${this.formatToolInputHtml(toolInput)}`;
-    }
-  }
-
-  /**
-   * Format Read tool summary
-   */
-  private formatReadSummary(input: any): string {
-    const filePath = makeRelativePath(input?.file_path, this.context.currentCwd) || 'unknown file';
-    const limit = input?.limit;
-    
-    if (limit) {
-      return `<b>Read:</b> <code>${filePath}, limit: ${limit}</code>`;
-    }
-    
-    return `<b>Read:</b> <code>${filePath}</code>`;
+    const tool = this.createRenderContext(content, toolCall, false, toolUseId);
+    return this.summarize(tool, toolCall.name ? this.renderers.get(toolCall.name) : undefined);
   }
 
-  /**
-   * Format Grep tool summary
-   */
-  private formatGrepSummary(input: any): string {
-    const pattern = input?.pattern;
-    const path = input?.path ? makeRelativePath(input.path, this.context.currentCwd) : 'current directory';
-    const includeFilter = input?.include;
-    
-    if (includeFilter) {
-      return `<b>Grep:</b> pattern <code>${pattern}</code> in <code>${path}</code> (${includeFilter})`;
+  private summarize(tool: ToolRenderContext, renderer?: ToolRenderer): string {
+    if (!tool.name) {
+      return this.createContentBasedSummary(tool.content);
     }
-    
-    return `<b>Grep:</b> pattern <code>${pattern}</code> in <code>${path}</code>`;
-  }
-
-  /**
-   * Format Bash tool summary
-   */
-  private formatBashSummary(input: any): string {
-    let command = input?.command;
-    const displayCommand = command.startsWith('LS ') ? command.replace(/^LS /, 'ls ') : command;
-    const finalCommand = displayCommand === 'LS' ? 'ls' : displayCommand;
-    
-    return `<b>Bash:</b> <code>${finalCommand}</code>`;
-  }
 
-  /**
-   * Format LS tool summary
-   */
-  private formatLSSummary(input: any): string {
-    const path = input?.path ? makeRelativePath(input.path, this.context.currentCwd) : 'current directory';
-    return `<b>ls:</b> <code>${path}</code>`;
+    return this.callRenderer(renderer, 'summary', tool) || `<b>${tool.name}:</b> ${tool.formatInput()}`;
   }
 
   /**
@@ -352,34 +307,30 @@ export class ToolResultProcessor {
       return `<code>${input}</code>`;
     }
 
+    // Nested values would otherwise print as [object Object]
+    const format = (value: any) => value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+
     const keys = Object.keys(input);
     if (keys.length === 1) {
       const value = input[keys[0]];
-      return `<code>${value}</code>`;
+      return `<code>${format(value)}</code>`;
     }
 
-    const pairs = keys.map(key => `${key}: ${input[key]}`);
+    const pairs = keys.map(key => `${key}: ${format(input[key])}`);
     return `<code>${pairs.join(', ')}</code>`;
   }
 
   /**
-   * Format todo list
+   * Helper methods
    */
-  private formatTodoList(input: any): string[] {
-    if (!input?.todos) {
-      return [];
+  private relativePath(filePath: string): string {
+    if (!this.options.relativizePaths) {
+      return filePath || '';
     }
-
-    return input.todos.map((todo: any) => {
-      const checkbox = todo.status === 'completed' ? '[x]' : '[ ]';
-      const statusIndicator = todo.status === 'in_progress' ? ' (in progress)' : '';
-      return `- ${checkbox} ${todo.content}${statusIndicator}`;
-    });
+    
+    return makeRelativePath(filePath, this.context.currentCwd);
   }
 
-  /**
-   * Helper methods
-   */
   private hasLineNumbers(content: string): boolean {
     return /^\s*\d+→/.test(content);
   }
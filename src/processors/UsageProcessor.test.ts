@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { UsageProcessor, loadPriceTable } from './UsageProcessor.js';
+import { MessageData, TokenUsage } from '../types/index.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('UsageProcessor', () => {
+  let processor: UsageProcessor;
+
+  const response = (
+    id: string,
+    model: string,
+    timestamp: string,
+    usage: TokenUsage,
+    sessionId: string = 'session-1'
+  ): MessageData => ({
+    type: 'assistant',
+    sessionId,
+    uuid: `uuid-${id}-${Math.random()}`,
+    timestamp,
+    message: { id, role: 'assistant', model, content: [{ type: 'text', text: 'Hi' }], usage }
+  });
+
+  beforeEach(() => {
+    processor = new UsageProcessor();
+  });
+
+  it('should total all four token counts', () => {
+    processor.addMessage(response('msg_1', 'claude-sonnet-4-20250514', '2025-07-01T10:00:00Z', {
+      input_tokens: 10,
+      output_tokens: 20,
+      cache_creation_input_tokens: 30,
+      cache_read_input_tokens: 40
+    }));
+
+    expect(processor.getTotals()).toMatchObject({
+      responses: 1,
+      inputTokens: 10,
+      outputTokens: 20,
+      cacheCreationTokens: 30,
+      cacheReadTokens: 40
+    });
+  });
+
+  it('should count a response split across several lines once', () => {
+    const usage = { input_tokens: 100, output_tokens: 50 };
+    processor.addMessage(response('msg_1', 'claude-sonnet-4-20250514', '2025-07-01T10:00:00Z', usage));
+    processor.addMessage(response('msg_1', 'claude-sonnet-4-20250514', '2025-07-01T10:00:01Z', usage));
+
+    expect(processor.getTotals().responses).toBe(1);
+    expect(processor.getTotals().inputTokens).toBe(100);
+  });
+
+  it('should ignore user messages and synthetic responses', () => {
+    processor.addMessage({ type: 'user', sessionId: 's', message: { role: 'user', content: 'Hi' } });
+    processor.addMessage(response('msg_1', '<synthetic>', '2025-07-01T10:00:00Z', { input_tokens: 0 }));
+
+    expect(processor.getEntries()).toHaveLength(0);
+  });
+
+  it('should price tokens per million using the longest matching model prefix', () => {
+    processor.addMessage(response('msg_1', 'claude-opus-4-1-20250805', '2025-07-01T10:00:00Z', {
+      input_tokens: 1_000_000,
+      output_tokens: 1_000_000
+    }));
+    processor.addMessage(response('msg_2', 'claude-opus-4-5-20251101', '2025-07-01T10:00:00Z', {
+      input_tokens: 1_000_000
+    }));
+
+    const [opus4, opus45] = processor.getEntries();
+    expect(opus4.cost).toBe(90);
+    expect(opus45.cost).toBe(5);
+  });
+
+  it('should report models without a price', () => {
+    processor = new UsageProcessor({});
+    processor.addMessage(response('msg_1', 'claude-new-model', '2025-07-01T10:00:00Z', { input_tokens: 10 }));
+
+    expect(processor.getTotals().cost).toBe(0);
+    expect(processor.getUnpricedModels()).toEqual(['claude-new-model']);
+  });
+
+  it('should group by model, day and session', () => {
+    processor.addMessage(response('msg_1', 'claude-sonnet-4-20250514', '2025-07-02T10:00:00Z', { output_tokens: 5 }, 'a'));
+    processor.addMessage(response('msg_2', 'claude-sonnet-4-20250514', '2025-07-01T10:00:00Z', { output_tokens: 5 }, 'b'));
+    processor.addMessage(response('msg_3', 'claude-opus-4-20250514', '2025-07-01T23:30:00Z', { output_tokens: 5 }, 'b'));
+
+    expect(processor.summarize(['day']).map(row => [row.key, row.totals.responses])).toEqual([
+      ['2025-07-01', 2],
+      ['2025-07-02', 1]
+    ]);
+    expect(processor.summarize(['model'])[0].key).toBe('claude-opus-4-20250514');
+    expect(processor.summarize(['session']).map(row => row.key).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should combine groupings for monthly spend per project', () => {
+    processor.addMessage(response('msg_1', 'claude-sonnet-4-20250514', '2025-06-30T10:00:00Z', { output_tokens: 5 }), '~/web');
+    processor.addMessage(response('msg_2', 'claude-sonnet-4-20250514', '2025-07-01T10:00:00Z', { output_tokens: 5 }), '~/web');
+    processor.addMessage(response('msg_3', 'claude-sonnet-4-20250514', '2025-07-03T10:00:00Z', { output_tokens: 5 }), '~/api');
+
+    expect(processor.summarize(['month', 'project']).map(row => row.key)).toEqual([
+      '2025-06 / ~/web',
+      '2025-07 / ~/api',
+      '2025-07 / ~/web'
+    ]);
+  });
+
+  it('should include abandoned branches when adding a session', () => {
+    const active = response('msg_1', 'claude-sonnet-4-20250514', '2025-07-01T10:00:00Z', { output_tokens: 5 });
+    const abandoned = response('msg_2', 'claude-sonnet-4-20250514', '2025-07-01T09:00:00Z', { output_tokens: 7 });
+
+    processor.addSession({
+      id: 'session-1',
+      messages: [active],
+      alternateBranches: [{ messages: [abandoned] }],
+      firstCreated: new Date(),
+      lastModified: new Date(),
+      messageCount: 1,
+      files: []
+    });
+
+    expect(processor.getTotals().outputTokens).toBe(12);
+  });
+});
+
+describe('loadPriceTable', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-prices-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should lay custom prices over the defaults', () => {
+    const file = path.join(tempDir, 'prices.json');
+    fs.writeFileSync(file, JSON.stringify({
+      'claude-sonnet-4': { input: 1, output: 2, cacheWrite: 3, cacheRead: 4 }
+    }));
+
+    const prices = loadPriceTable(file);
+
+    expect(prices['claude-sonnet-4']).toEqual({ input: 1, output: 2, cacheWrite: 3, cacheRead: 4 });
+    expect(prices['claude-opus-4']).toBeDefined();
+  });
+
+  it('should reject incomplete prices', () => {
+    const file = path.join(tempDir, 'prices.json');
+    fs.writeFileSync(file, JSON.stringify({ 'my-model': { input: 1 } }));
+
+    expect(() => loadPriceTable(file)).toThrow("Price for 'my-model'");
+  });
+});
\ No newline at end of file
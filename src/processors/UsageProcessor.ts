@@ -0,0 +1,221 @@
+import {
+  MessageData,
+  Session,
+  ModelPricing,
+  PriceTable,
+  UsageEntry,
+  UsageTotals,
+  UsageGrouping,
+  UsageRow
+} from '../types/index.js';
+import { DEFAULT_PRICE_TABLE, TIME_FORMATS } from '../types/constants.js';
+import { parseTimestamp } from '../utils/time.js';
+import * as fs from 'fs';
+import Debug from 'debug';
+
+const debug = Debug('session-to-md:usage');
+
+const UNKNOWN = 'unknown';
+
+/**
+ * Collects token usage from assistant messages and prices it.
+ *
+ * Claude Code writes one line per content block of a response, each carrying
+ * the usage of the whole response, and resumed sessions repeat earlier lines.
+ * Responses are therefore counted once per API message id.
+ */
+export class UsageProcessor {
+  private prices: PriceTable;
+  private entries: UsageEntry[] = [];
+  private seen: Set<string> = new Set();
+
+  constructor(prices: PriceTable = DEFAULT_PRICE_TABLE) {
+    this.prices = prices;
+  }
+
+  /**
+   * Record the usage of a message, if it has any
+   */
+  public addMessage(data: MessageData, project?: string): void {
+    const usage = data.message?.usage;
+    const model = data.message?.model;
+    if (data.type !== 'assistant' || !usage || !model || model === '<synthetic>') {
+      return;
+    }
+
+    const key = data.message?.id || data.requestId || data.uuid;
+    if (key) {
+      if (this.seen.has(key)) {
+        return;
+      }
+      this.seen.add(key);
+    }
+
+    const pricing = this.getPricing(model);
+    const entry: UsageEntry = {
+      sessionId: data.sessionId || UNKNOWN,
+      project,
+      model,
+      timestamp: data.timestamp,
+      inputTokens: usage.input_tokens || 0,
+      outputTokens: usage.output_tokens || 0,
+      cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+      cacheReadTokens: usage.cache_read_input_tokens || 0,
+      cost: 0,
+      priced: Boolean(pricing)
+    };
+
+    if (pricing) {
+      entry.cost = (
+        entry.inputTokens * pricing.input +
+        entry.outputTokens * pricing.output +
+        entry.cacheCreationTokens * pricing.cacheWrite +
+        entry.cacheReadTokens * pricing.cacheRead
+      ) / 1_000_000;
+    }
+
+    this.entries.push(entry);
+  }
+
+  public addMessages(messages: Iterable<MessageData>, project?: string): void {
+    for (const data of messages) {
+      this.addMessage(data, project);
+    }
+  }
+
+  /**
+   * Record a session's usage, including abandoned branches since those
+   * responses were billed too
+   */
+  public addSession(session: Session, project?: string): void {
+    this.addMessages(session.messages, project);
+    session.alternateBranches?.forEach(branch => this.addMessages(branch.messages, project));
+  }
+
+  public getEntries(): UsageEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Find the price for a model by the longest matching id prefix
+   */
+  public getPricing(model: string): ModelPricing | undefined {
+    const prefix = Object.keys(this.prices)
+      .filter(candidate => model.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return prefix ? this.prices[prefix] : undefined;
+  }
+
+  /**
+   * Models that appeared in the usage but have no price
+   */
+  public getUnpricedModels(): string[] {
+    return Array.from(new Set(this.entries.filter(entry => !entry.priced).map(entry => entry.model)));
+  }
+
+  public getTotals(): UsageTotals {
+    return this.entries.reduce(addToTotals, emptyTotals());
+  }
+
+  /**
+   * Total usage by one or more groupings, e.g. `['month', 'project']` for
+   * spend per project per month. Date groupings sort chronologically,
+   * everything else by cost.
+   */
+  public summarize(by: UsageGrouping[]): UsageRow[] {
+    const rows = new Map<string, UsageTotals>();
+
+    for (const entry of this.entries) {
+      const key = by.map(grouping => this.groupKey(entry, grouping)).join(' / ');
+      rows.set(key, addToTotals(rows.get(key) || emptyTotals(), entry));
+    }
+
+    const result = Array.from(rows.entries()).map(([key, totals]) => ({ key, totals }));
+
+    if (by[0] === 'day' || by[0] === 'month') {
+      return result.sort((a, b) => a.key.localeCompare(b.key));
+    }
+
+    return result.sort((a, b) => b.totals.cost - a.totals.cost || totalTokens(b.totals) - totalTokens(a.totals));
+  }
+
+  private groupKey(entry: UsageEntry, grouping: UsageGrouping): string {
+    switch (grouping) {
+      case 'session':
+        return entry.sessionId;
+      case 'model':
+        return entry.model;
+      case 'project':
+        return entry.project || UNKNOWN;
+      case 'day':
+        return this.getDate(entry.timestamp)?.slice(0, 10) || UNKNOWN;
+      case 'month':
+        return this.getDate(entry.timestamp)?.slice(0, 7) || UNKNOWN;
+    }
+  }
+
+  /**
+   * ISO date (UTC) of a timestamp
+   */
+  private getDate(timestamp?: string): string | undefined {
+    if (!timestamp) {
+      return undefined;
+    }
+
+    if (TIME_FORMATS.TIMESTAMP_REGEX.test(timestamp) && timestamp.endsWith('Z')) {
+      return timestamp;
+    }
+
+    const date = parseTimestamp(timestamp);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+}
+
+export function totalTokens(totals: UsageTotals): number {
+  return totals.inputTokens + totals.outputTokens + totals.cacheCreationTokens + totals.cacheReadTokens;
+}
+
+/**
+ * Load a JSON price table and lay it over the defaults. Entries use the
+ * same shape as DEFAULT_PRICE_TABLE: USD per million tokens by model prefix.
+ */
+export function loadPriceTable(file: string): PriceTable {
+  const table = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    throw new Error(`Price table ${file} must be an object keyed by model prefix`);
+  }
+
+  for (const [model, pricing] of Object.entries(table)) {
+    const fields: (keyof ModelPricing)[] = ['input', 'output', 'cacheWrite', 'cacheRead'];
+    const missing = fields.filter(field => typeof (pricing as any)?.[field] !== 'number');
+    if (missing.length > 0) {
+      throw new Error(`Price for '${model}' in ${file} is missing: ${missing.join(', ')}`);
+    }
+  }
+
+  debug(`Loaded ${Object.keys(table).length} prices from ${file}`);
+  return { ...DEFAULT_PRICE_TABLE, ...table };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    responses: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    cost: 0
+  };
+}
+
+function addToTotals(totals: UsageTotals, entry: UsageEntry): UsageTotals {
+  return {
+    responses: totals.responses + 1,
+    inputTokens: totals.inputTokens + entry.inputTokens,
+    outputTokens: totals.outputTokens + entry.outputTokens,
+    cacheCreationTokens: totals.cacheCreationTokens + entry.cacheCreationTokens,
+    cacheReadTokens: totals.cacheReadTokens + entry.cacheReadTokens,
+    cost: totals.cost + entry.cost
+  };
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ToolRendererRegistry, loadToolRenderers, findToolRendererConfig } from './ToolRendererRegistry.js';
+import { BUILTIN_TOOL_RENDERERS } from './builtinRenderers.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ToolRendererRegistry', () => {
+  const exact = { summary: () => 'exact' };
+  const github = { summary: () => 'github' };
+  const mcp = { summary: () => 'mcp' };
+
+  it('should prefer an exact name, then the longest prefix', () => {
+    const registry = new ToolRendererRegistry({
+      'mcp__*': mcp,
+      'mcp__github__*': github,
+      'mcp__github__create_issue': exact
+    });
+
+    expect(registry.get('mcp__github__create_issue')).toBe(exact);
+    expect(registry.get('mcp__github__list_prs')).toBe(github);
+    expect(registry.get('mcp__linear__search')).toBe(mcp);
+    expect(registry.get('Bash')).toBeUndefined();
+  });
+
+  it('should replace a renderer registered again under the same name', () => {
+    const registry = new ToolRendererRegistry({ 'mcp__*': mcp });
+    registry.register('mcp__*', github);
+
+    expect(registry.get('mcp__db__query')).toBe(github);
+  });
+
+  it('should lay custom renderers over the built-in ones', () => {
+    const registry = ToolRendererRegistry.withBuiltins({ Bash: exact });
+
+    expect(registry.get('Bash')).toBe(exact);
+    expect(registry.get('Read')).toBe(BUILTIN_TOOL_RENDERERS.Read);
+  });
+});
+
+describe('loadToolRenderers', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-renderers-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load the default export of a module', async () => {
+    const file = path.join(tempDir, 'renderers.mjs');
+    fs.writeFileSync(file, "export default { 'mcp__github__*': { summary: tool => `<b>GitHub:</b> ${tool.input.title}` } };");
+
+    const renderers = await loadToolRenderers(file);
+
+    expect(renderers['mcp__github__*'].summary?.({ input: { title: 'Bug' } } as any)).toBe('<b>GitHub:</b> Bug');
+  });
+
+  it('should reject renderers without functions', async () => {
+    const file = path.join(tempDir, 'renderers.mjs');
+    fs.writeFileSync(file, "export default { Bash: { summary: '<b>Bash</b>' } };");
+
+    await expect(loadToolRenderers(file)).rejects.toThrow("Renderer for 'Bash'");
+  });
+
+  it('should reject a module that does not export an object', async () => {
+    const file = path.join(tempDir, 'renderers.mjs');
+    fs.writeFileSync(file, 'export default [];');
+
+    await expect(loadToolRenderers(file)).rejects.toThrow('must export an object keyed by tool name');
+  });
+
+  describe('findToolRendererConfig', () => {
+    let configHome: string | undefined;
+
+    beforeEach(() => {
+      configHome = process.env.XDG_CONFIG_HOME;
+      process.env.XDG_CONFIG_HOME = tempDir;
+    });
+
+    afterEach(() => {
+      if (configHome === undefined) {
+        delete process.env.XDG_CONFIG_HOME;
+      } else {
+        process.env.XDG_CONFIG_HOME = configHome;
+      }
+    });
+
+    it('should find a renderers module in the config directory', () => {
+      expect(findToolRendererConfig()).toBeUndefined();
+
+      fs.mkdirSync(path.join(tempDir, 'cc2md'));
+      fs.writeFileSync(path.join(tempDir, 'cc2md', 'renderers.mjs'), 'export default {};');
+
+      expect(findToolRendererConfig()).toBe(path.join(tempDir, 'cc2md', 'renderers.mjs'));
+    });
+  });
+});
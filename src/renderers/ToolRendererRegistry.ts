@@ -0,0 +1,97 @@
+import { ToolRenderer, ToolRendererMap } from '../types/index.js';
+import { TOOL_RENDERER_SETTINGS } from '../types/constants.js';
+import { BUILTIN_TOOL_RENDERERS } from './builtinRenderers.js';
+import { normalizePath } from '../utils/paths.js';
+import Debug from 'debug';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+const debug = Debug('session-to-md:renderers');
+
+const RENDERER_PARTS: (keyof ToolRenderer)[] = ['summary', 'input', 'body', 'render'];
+
+/**
+ * Finds the renderer for a tool by name. A name registered with a trailing
+ * `*`, such as `mcp__github__*`, covers every tool it prefixes; an exact
+ * name wins over a prefix, and a longer prefix over a shorter one.
+ */
+export class ToolRendererRegistry {
+  private renderers: Map<string, ToolRenderer> = new Map();
+  private prefixes: [string, ToolRenderer][] = [];
+
+  constructor(renderers: ToolRendererMap = {}) {
+    this.registerAll(renderers);
+  }
+
+  /**
+   * The built-in renderers with custom ones laid over them
+   */
+  public static withBuiltins(custom: ToolRendererMap = {}): ToolRendererRegistry {
+    return new ToolRendererRegistry({ ...BUILTIN_TOOL_RENDERERS, ...custom });
+  }
+
+  public register(name: string, renderer: ToolRenderer): void {
+    if (!name.endsWith('*')) {
+      this.renderers.set(name, renderer);
+      return;
+    }
+
+    const prefix = name.slice(0, -1);
+    this.prefixes = this.prefixes.filter(([existing]) => existing !== prefix);
+    this.prefixes.push([prefix, renderer]);
+    this.prefixes.sort(([a], [b]) => b.length - a.length);
+  }
+
+  public registerAll(renderers: ToolRendererMap): void {
+    for (const [name, renderer] of Object.entries(renderers)) {
+      this.register(name, renderer);
+    }
+  }
+
+  public get(name: string): ToolRenderer | undefined {
+    return this.renderers.get(name) || this.prefixes.find(([prefix]) => name.startsWith(prefix))?.[1];
+  }
+}
+
+/**
+ * Load custom renderers from a JavaScript module whose default export maps
+ * tool names to renderers, e.g.
+ *
+ *   export default {
+ *     'mcp__github__create_issue': {
+ *       summary: tool => `<b>New issue:</b> ${tool.input.title}`
+ *     }
+ *   };
+ */
+export async function loadToolRenderers(file: string): Promise<ToolRendererMap> {
+  const imported = await import(pathToFileURL(path.resolve(file)).href);
+  const renderers = imported.default ?? imported;
+  if (!renderers || typeof renderers !== 'object' || Array.isArray(renderers)) {
+    throw new Error(`Tool renderers ${file} must export an object keyed by tool name`);
+  }
+
+  for (const [name, renderer] of Object.entries<any>(renderers)) {
+    const parts = RENDERER_PARTS.filter(part => renderer?.[part] !== undefined);
+    if (parts.length === 0 || parts.some(part => typeof renderer[part] !== 'function')) {
+      throw new Error(`Renderer for '${name}' in ${file} must have at least one of ${RENDERER_PARTS.join(', ')}, each a function`);
+    }
+  }
+
+  debug(`Loaded ${Object.keys(renderers).length} tool renderers from ${file}`);
+  return renderers;
+}
+
+/**
+ * The renderers module in `$XDG_CONFIG_HOME/cc2md` when that is set,
+ * otherwise in ~/.config/cc2md, if there is one
+ */
+export function findToolRendererConfig(): string | undefined {
+  const dir = process.env.XDG_CONFIG_HOME
+    ? path.join(process.env.XDG_CONFIG_HOME, 'cc2md')
+    : normalizePath(TOOL_RENDERER_SETTINGS.CONFIG_DIR);
+
+  return TOOL_RENDERER_SETTINGS.CONFIG_FILES
+    .map(name => path.join(dir, name))
+    .find(file => fs.existsSync(file));
+}
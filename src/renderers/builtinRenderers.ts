@@ -0,0 +1,241 @@
+import { ToolRenderer, ToolRendererMap, ToolRenderContext } from '../types/index.js';
+import { detectLanguageFromPath } from '../utils/language.js';
+import { createStructuredPatch, formatHunkHeader } from '../utils/diff.js';
+
+/**
+ * Edits show their diff open, one block per hunk under the file heading.
+ * Hunks of a cancelled edit have no place in the file, so they go without
+ * a hunk header.
+ */
+export function renderStructuredPatch(tool: ToolRenderContext): string[] | undefined {
+  const filePath = tool.toolUseResult?.filePath;
+  const structuredPatch = tool.toolUseResult?.structuredPatch;
+  if (!filePath || !structuredPatch) {
+    return undefined;
+  }
+
+  const relativePath = tool.relativePath(filePath);
+  const heading = tool.name === 'MultiEdit'
+    ? `**MultiEdit:** \`${relativePath}\` (${formatEditCount(tool.input)})`
+    : `**Edit:** \`${relativePath}\``;
+
+  return [
+    heading,
+    '',
+    ...structuredPatch.flatMap(hunk => {
+      const lines = tool.toolUseResult?.interrupted ? hunk.lines : [formatHunkHeader(hunk), ...hunk.lines];
+      return [...tool.formatCodeBlock(lines.join('\n'), 'diff'), ''];
+    })
+  ];
+}
+
+function formatEditCount(input: any): string {
+  const count = Array.isArray(input?.edits) ? input.edits.length : 0;
+  return `${count} edit${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * The summary of a tool that works on one file
+ */
+function fileSummary(key: string): ToolRenderer['summary'] {
+  return tool => `<b>${tool.name}:</b> <code>${tool.relativePath(tool.input[key])}</code>`;
+}
+
+/**
+ * Where a search looked, relative to the working directory
+ */
+function searchPath(tool: ToolRenderContext): string {
+  return tool.input.path ? tool.relativePath(tool.input.path) : 'current directory';
+}
+
+const read: ToolRenderer = {
+  summary: tool => {
+    const filePath = tool.relativePath(tool.input.file_path) || 'unknown file';
+    return tool.input.limit
+      ? `<b>Read:</b> <code>${filePath}, limit: ${tool.input.limit}</code>`
+      : `<b>Read:</b> <code>${filePath}</code>`;
+  }
+};
+
+const edit: ToolRenderer = {
+  summary: fileSummary('file_path'),
+  render: renderStructuredPatch
+};
+
+const multiEdit: ToolRenderer = {
+  summary: tool => `<b>MultiEdit:</b> <code>${tool.relativePath(tool.input.file_path)}</code> (${formatEditCount(tool.input)})`,
+  render: renderStructuredPatch
+};
+
+/**
+ * A Write shows the content written, or a diff when it replaced an existing
+ * file. Writes also carry a structured patch, empty for a new file.
+ */
+const write: ToolRenderer = {
+  summary: fileSummary('file_path'),
+  body: tool => {
+    const written = typeof tool.input.content === 'string' ? tool.input.content : tool.toolUseResult?.content;
+    if (tool.isError || !tool.toolUseResult || typeof written !== 'string') {
+      return undefined;
+    }
+
+    const originalFile = tool.toolUseResult.originalFile;
+    if (typeof originalFile !== 'string') {
+      return tool.formatCodeBlock(written, detectLanguageFromPath(tool.input.file_path || tool.toolUseResult.filePath || ''));
+    }
+
+    const hunks = createStructuredPatch(originalFile, written);
+    if (hunks.length === 0) {
+      return ['_No changes_', ''];
+    }
+    return tool.formatCodeBlock(hunks.flatMap(hunk => [formatHunkHeader(hunk), ...hunk.lines]).join('\n'), 'diff');
+  }
+};
+
+/**
+ * A NotebookEdit shows the cell it changed and the source it wrote, rather
+ * than a patch
+ */
+const notebookEdit: ToolRenderer = {
+  summary: fileSummary('notebook_path'),
+  render: tool => {
+    const cellType = tool.input.cell_type || tool.toolUseResult?.cell_type;
+    const language = cellType === 'markdown' ? 'markdown' : tool.toolUseResult?.language || 'python';
+
+    const result = [
+      `**NotebookEdit:** \`${tool.relativePath(tool.input.notebook_path)}\``,
+      '',
+      `_${describeNotebookEdit(tool.input, cellType)}_`,
+      ''
+    ];
+
+    if (tool.input.edit_mode !== 'delete' && typeof tool.input.new_source === 'string') {
+      result.push(...tool.formatCodeBlock(tool.input.new_source, language), '');
+    }
+
+    return result;
+  }
+};
+
+function describeNotebookEdit(input: any, cellType?: string): string {
+  // Notebook reads label cells without an id of their own as cell-<index>
+  const indexedId = typeof input.cell_id === 'string' ? input.cell_id.match(/^cell-(\d+)$/) : null;
+  const cell = input.cell_number !== undefined
+    ? `cell ${input.cell_number}`
+    : indexedId
+      ? `cell ${indexedId[1]}`
+      : input.cell_id
+        ? `cell ${input.cell_id}`
+        : undefined;
+  const type = cellType ? `${cellType} ` : '';
+
+  switch (input.edit_mode) {
+    case 'insert':
+      return cell ? `Inserted a ${type}cell after ${cell}` : `Inserted a ${type}cell at the start`;
+    case 'delete':
+      return `Deleted ${cell || 'the first cell'}`;
+    default:
+      return `Replaced ${cell || 'the first cell'}${cellType ? ` (${cellType})` : ''}`;
+  }
+}
+
+const todoWrite: ToolRenderer = {
+  summary: () => '<b>TodoWrite:</b> Updated task list',
+  render: tool => [
+    '**Updated task list**',
+    '',
+    ...formatTodoList(tool.input),
+    ''
+  ]
+};
+
+export function formatTodoList(input: any): string[] {
+  if (!Array.isArray(input?.todos)) {
+    return [];
+  }
+
+  return input.todos.map((todo: any) => {
+    const checkbox = todo.status === 'completed' ? '[x]' : '[ ]';
+    const statusIndicator = todo.status === 'in_progress' ? ' (in progress)' : '';
+    return `- ${checkbox} ${todo.content}${statusIndicator}`;
+  });
+}
+
+const bash: ToolRenderer = {
+  summary: tool => {
+    const command = String(tool.input.command ?? '');
+    const displayCommand = command === 'LS' ? 'ls' : command.replace(/^LS /, 'ls ');
+    return `<b>Bash:</b> <code>${displayCommand}</code>`;
+  }
+};
+
+const grep: ToolRenderer = {
+  summary: tool => {
+    const include = tool.input.include || tool.input.glob;
+    const summary = `<b>Grep:</b> pattern <code>${tool.input.pattern}</code> in <code>${searchPath(tool)}</code>`;
+    return include ? `${summary} (${include})` : summary;
+  }
+};
+
+const glob: ToolRenderer = {
+  summary: tool => `<b>Glob:</b> <code>${tool.input.pattern}</code> in <code>${searchPath(tool)}</code>`
+};
+
+const ls: ToolRenderer = {
+  summary: tool => `<b>ls:</b> <code>${searchPath(tool)}</code>`
+};
+
+/**
+ * A subagent call is summarized by its description; the prompt it was given
+ * goes above the subagent's transcript
+ */
+const task: ToolRenderer = {
+  summary: tool => {
+    const description = tool.input.description || 'Subagent';
+    return `<b>${tool.name}:</b> ${description}${tool.input.subagent_type ? ` (${tool.input.subagent_type})` : ''}`;
+  },
+  input: tool => typeof tool.input.prompt === 'string'
+    ? [...tool.input.prompt.split('\n').map((line: string) => line ? `> ${line}` : '>'), '']
+    : undefined
+};
+
+const exitPlanMode: ToolRenderer = {
+  summary: () => '<b>ExitPlanMode:</b> Presented a plan',
+  input: tool => typeof tool.input.plan === 'string' ? [tool.input.plan, ''] : undefined
+};
+
+/**
+ * A summary that shows a single input value, for tools whose input is
+ * mostly that one value
+ */
+function valueSummary(key: string): ToolRenderer['summary'] {
+  return tool => tool.input[key] === undefined ? undefined : `<b>${tool.name}:</b> <code>${tool.input[key]}</code>`;
+}
+
+/**
+ * Renderers for the tools that ship with Claude Code. Tools without one,
+ * including MCP tools, are shown with their input in the summary and their
+ * result below it.
+ */
+export const BUILTIN_TOOL_RENDERERS: ToolRendererMap = {
+  Read: read,
+  NotebookRead: { summary: fileSummary('notebook_path') },
+  Edit: edit,
+  MultiEdit: multiEdit,
+  Write: write,
+  NotebookEdit: notebookEdit,
+  TodoWrite: todoWrite,
+  Bash: bash,
+  BashOutput: { summary: valueSummary('bash_id') },
+  KillBash: { summary: valueSummary('shell_id') },
+  KillShell: { summary: valueSummary('shell_id') },
+  Grep: grep,
+  Glob: glob,
+  LS: ls,
+  Task: task,
+  Agent: task,
+  ExitPlanMode: exitPlanMode,
+  WebFetch: { summary: valueSummary('url') },
+  WebSearch: { summary: valueSummary('query') },
+  SlashCommand: { summary: valueSummary('command') }
+};
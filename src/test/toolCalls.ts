@@ -0,0 +1,33 @@
+import { ContentItem, MessageData, ToolUseResult } from '../types/index.js';
+
+let sequence = 0;
+
+/**
+ * The two lines Claude Code logs for one tool call: the assistant's
+ * tool_use and the user line with its result. Each call gets its own id and
+ * a timestamp a second after the previous one.
+ */
+export function toolCall(
+  name: string,
+  input: ContentItem['input'],
+  toolUseResult?: ToolUseResult,
+  isError = false
+): MessageData[] {
+  const id = `call-${++sequence}`;
+  const timestamp = new Date(Date.UTC(2024, 0, 1) + sequence * 1000).toISOString();
+  return [
+    {
+      type: 'assistant',
+      sessionId: 'test',
+      timestamp,
+      message: { role: 'assistant', content: [{ type: 'tool_use', id, name, input }] }
+    },
+    {
+      type: 'user',
+      sessionId: 'test',
+      timestamp,
+      message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: 'done', is_error: isError }] },
+      toolUseResult
+    }
+  ];
+}
\ No newline at end of file
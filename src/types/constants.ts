@@ -1,4 +1,4 @@
-import { LanguageMapping } from './index.js';
+import { LanguageMapping, OutputFormat, PriceTable, UsageGrouping, RedactionDetector, BatchExportFormat, SessionAction, SessionSortKey, FileOperation } from './index.js';
 
 export const LANGUAGE_BY_EXTENSION: LanguageMapping = {
   'js': 'javascript',
@@ -51,11 +51,164 @@ export const DEFAULT_FORMATTING_OPTIONS = {
   relativizePaths: true,
   syntaxHighlighting: true,
   truncateLongOutput: true,
-  maxLines: 50
+  maxLines: 50,
+  showAlternateBranches: false,
+  showUsage: false,
+  showFiles: false
+};
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'html', 'json', 'patch'];
+
+export const CONVERSATION_SCHEMA_VERSION = 1;
+
+export const HTML_ALLOWED_TAGS = ['details', 'summary', 'b', 'strong', 'i', 'em', 'code', 'br'];
+
+// Links and images with any other scheme are shown as text; relative URLs are kept
+export const HTML_ALLOWED_URL_SCHEMES = ['http', 'https', 'mailto'];
+
+export const SUBAGENT_TOOL_NAMES = ['Task', 'Agent'];
+
+export const USAGE_GROUPINGS: UsageGrouping[] = ['session', 'model', 'day', 'month', 'project'];
+
+// Published list prices at the time of writing; override with `cc2md usage --prices`
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-3-opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }
+};
+
+// Ordered so that specific formats claim a match before the generic ones
+export const REDACTION_DETECTORS: RedactionDetector[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'aws-secret-key',
+    pattern: /aws_secret_access_key["']?\s*[=:]\s*["']?([A-Za-z0-9/+=]{40})/gi,
+    group: 1
+  },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { name: 'bearer-token', pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{16,}=*)/g, group: 1 },
+  {
+    name: 'env-secret',
+    // The value must contain a digit or symbol so `TOKEN = process.env.TOKEN` is left alone
+    pattern: /\b[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|ACCESS_KEY|PRIVATE_KEY)[A-Z0-9_]*["']?\s*[=:]\s*["']?(?=[\w.~+/=-]{8,})([\w.~+/=-]*[\d~+/=-][\w.~+/=-]*)/g,
+    group: 1
+  }
+];
+
+export const HIGH_ENTROPY_SETTINGS = {
+  // No '/', so each segment of a path is judged on its own
+  PATTERN: /[A-Za-z0-9+=_-]{24,}/g,
+  MIN_BITS_PER_CHAR: 4,
+  // Names split into words of several letters; random tokens into one or two
+  MAX_AVERAGE_WORD_LENGTH: 2.5
+};
+
+export const SEARCH_SETTINGS = {
+  SNIPPET_BEFORE: 40,
+  SNIPPET_AFTER: 80,
+  DEFAULT_LIMIT: 50
+};
+
+// Tool input fields that name the file a tool call works on
+export const FILE_INPUT_KEYS = ['file_path', 'path', 'notebook_path'];
+
+// What each file tool does to the file it names, for the files touched by a session
+export const FILE_TOOL_OPERATIONS: Record<string, FileOperation> = {
+  Read: 'read',
+  NotebookRead: 'read',
+  Edit: 'edit',
+  MultiEdit: 'edit',
+  NotebookEdit: 'edit',
+  Write: 'write',
+  Grep: 'search',
+  Glob: 'search',
+  LS: 'search'
+};
+
+export const PREVIEW_SETTINGS = {
+  TURNS: 3,
+  // Narrower terminals show the session list alone
+  MIN_COLUMNS: 100,
+  // Wait for the selection to settle before rendering
+  DELAY_MS: 150,
+  // Rendered previews kept for going back to recent sessions
+  CACHE_SIZE: 5
+};
+
+export const DIFF_SETTINGS = {
+  // Unchanged lines shown around each change
+  CONTEXT_LINES: 3,
+  // Larger changes are shown as the old lines removed and the new ones
+  // added, rather than spending time and memory matching them up
+  MAX_COMPARISONS: 4_000_000
+};
+
+export const WATCH_SETTINGS = {
+  // How often `cc2md watch` checks the session file for new lines
+  POLL_INTERVAL_MS: 250
+};
+
+export const RECENT_SESSIONS_SETTINGS = {
+  PAGE_SIZE: 50,
+  // Load the next page once the selection is this close to the end
+  LOAD_AHEAD: 10,
+  MAX_PROJECT_WIDTH: 28
+};
+
+export const BATCH_EXPORT_FORMATS: BatchExportFormat[] = ['combined', 'directory', 'zip'];
+
+// Order Ctrl+O steps through in the session list
+export const SESSION_SORT_KEYS: SessionSortKey[] = ['modified', 'created', 'messages', 'tokens', 'duration'];
+
+export const BATCH_EXPORT_SETTINGS = {
+  // Prefix of the default file or directory name, followed by the date
+  NAME_PREFIX: 'cc2md-export',
+  MAX_TITLE_LENGTH: 60
+};
+
+export const SESSION_ACTIONS: SessionAction[] = [
+  { id: 'copy', label: 'Copy to clipboard' },
+  { id: 'osc52', label: 'Copy through the terminal (OSC 52)' },
+  { id: 'save', label: 'Save as Markdown…', format: 'markdown' },
+  { id: 'save', label: 'Save as HTML…', format: 'html' },
+  { id: 'save', label: 'Save as JSON…', format: 'json' },
+  { id: 'save', label: 'Save file changes as a patch…', format: 'patch' },
+  { id: 'pager', label: 'View in $PAGER' },
+  { id: 'editor', label: 'Open in $EDITOR' }
+];
+
+export const CLIPBOARD_SETTINGS = {
+  // Names the backend to use instead of detecting one, e.g. osc52 or tmux
+  BACKEND_VARIABLE: 'CC2MD_CLIPBOARD',
+  FILE_VARIABLE: 'CC2MD_CLIPBOARD_FILE',
+  FILE_NAME: 'cc2md-clipboard.md'
 };
 
 export const CLAUDE_PROJECTS_DIR = '~/.claude/projects';
 
+export const SESSION_INDEX_SETTINGS = {
+  CACHE_DIR: '~/.cache/cc2md',
+  // Bump when the cached layout changes so old caches are rebuilt
+  VERSION: 3,
+  MAX_TITLE_LENGTH: 200
+};
+
+export const TOOL_RENDERER_SETTINGS = {
+  CONFIG_DIR: '~/.config/cc2md',
+  // Modules of custom tool renderers looked for in the config directory
+  CONFIG_FILES: ['renderers.js', 'renderers.mjs']
+};
+
 export const SUPPORTED_EXTENSIONS = ['.jsonl'];
 
 export const TIME_FORMATS = {
@@ -90,6 +243,8 @@ export const TOOL_RESULT_PATTERNS = {
 export const UI_CONSTANTS = {
   TERMINAL_WIDTH_FALLBACK: 80,
   MAX_DISPLAY_ITEMS: 100,
+  // Title, headings and footer drawn around the project and session lists
+  LIST_CHROME_ROWS: 20,
   FILTER_DEBOUNCE_MS: 300,
   SELECTION_INDICATOR: '❯',
   TRUNCATE_SUFFIX: '...'
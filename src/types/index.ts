@@ -4,6 +4,7 @@ export interface MessageData {
   uuid?: string;
   leafUuid?: string;
   parentUuid?: string | null;
+  logicalParentUuid?: string | null;
   timestamp?: string;
   cwd?: string;
   isMeta?: boolean;
@@ -20,18 +21,20 @@ export interface MessageData {
     type?: string;
     stop_reason?: string | null;
     stop_sequence?: string | null;
-    usage?: {
-      input_tokens?: number;
-      output_tokens?: number;
-      cache_creation_input_tokens?: number;
-      cache_read_input_tokens?: number;
-      service_tier?: string;
-    };
+    usage?: TokenUsage;
   };
   summary?: string;
   toolUseResult?: ToolUseResult;
 }
 
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  service_tier?: string;
+}
+
 export interface ContentItem {
   type: 'text' | 'tool_use' | 'tool_result';
   text?: string;
@@ -43,6 +46,15 @@ export interface ContentItem {
   is_error?: boolean;
 }
 
+/**
+ * One replacement of a MultiEdit, as the tool input and result record it
+ */
+export interface FileEdit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
 export interface ToolUseResult {
   type?: string;
   structuredPatch?: StructuredPatch[];
@@ -64,7 +76,15 @@ export interface ToolUseResult {
   replaceAll?: boolean;
   oldString?: string;
   newString?: string;
-  originalFile?: string;
+  // For Write, the new content and what the file held before, null for a new file
+  content?: string;
+  originalFile?: string | null;
+  // MultiEdit names the earlier content differently
+  originalFileContents?: string;
+  edits?: FileEdit[];
+  // For NotebookEdit
+  cell_type?: string;
+  language?: string;
 }
 
 export interface StructuredPatch {
@@ -95,6 +115,18 @@ export interface Session {
   messageCount: number;
   files: string[];
   cwd?: string;
+  alternateBranches?: AlternateBranch[];
+}
+
+/**
+ * Messages abandoned by a retry or an edited prompt. `forkUuid` is the last
+ * message shared with the active branch and `resumeUuid` is where the active
+ * branch continues from it.
+ */
+export interface AlternateBranch {
+  forkUuid?: string;
+  resumeUuid?: string;
+  messages: MessageData[];
 }
 
 export interface SessionInfo {
@@ -106,6 +138,21 @@ export interface SessionInfo {
   modified: Date;
   created: Date;
   cwd?: string;
+  // Every token the session's responses used, cached input included
+  tokens: number;
+  models: string[];
+  // Display name of the session's project, set when sessions from several
+  // projects are listed together
+  project?: string;
+}
+
+/**
+ * Messages read from one session file, in file order
+ */
+export interface FileMessages {
+  file: string;
+  modified: Date;
+  messages: Iterable<MessageData>;
 }
 
 export interface ToolCallMap {
@@ -123,6 +170,18 @@ export interface ProcessingContext {
   toolCallMap: ToolCallMap;
   currentAssistantMessage?: Message;
   currentToolUseResult?: ToolUseResult;
+  sidechainTranscripts?: { [toolUseId: string]: string[] };
+}
+
+/**
+ * A subagent conversation: a chain of isSidechain messages, usually spawned
+ * by a Task tool call in the main transcript
+ */
+export interface SidechainThread {
+  messages: MessageData[];
+  prompt: string;
+  firstIndex: number;
+  toolUseId?: string;
 }
 
 export interface FormattingOptions {
@@ -130,6 +189,246 @@ export interface FormattingOptions {
   syntaxHighlighting?: boolean;
   truncateLongOutput?: boolean;
   maxLines?: number;
+  showAlternateBranches?: boolean;
+  showUsage?: boolean;
+  showFiles?: boolean;
+  priceTable?: PriceTable;
+  // Custom tool renderers, laid over the built-in ones
+  toolRenderers?: ToolRendererMap;
+  // Render only the first N turns, as a preview
+  maxTurns?: number;
+}
+
+/**
+ * A tool call and its result as a ToolRenderer sees them, with helpers that
+ * follow the formatting options
+ */
+export interface ToolRenderContext {
+  name: string;
+  input: Record<string, any>;
+  // Text of the tool result
+  content: string;
+  isError: boolean;
+  // What Claude Code recorded about the result, when it is an object
+  toolUseResult?: ToolUseResult;
+  options: FormattingOptions;
+  relativePath(filePath: string): string;
+  // A fenced code block, highlighted and truncated per the options
+  formatCodeBlock(content: string, language?: string): string[];
+  // The result as shown for tools without a body of their own
+  formatContent(): string[];
+  // The input as shown in the summary of tools without one of their own
+  formatInput(): string;
+}
+
+/**
+ * How calls to a tool appear in a transcript. A call is collapsed under its
+ * `summary` line, an HTML fragment, with the `input` block and the `body`
+ * inside; `render` shows the call open instead. A part that is missing or
+ * returns undefined gets the generic rendering.
+ */
+export interface ToolRenderer {
+  summary?(tool: ToolRenderContext): string | undefined;
+  input?(tool: ToolRenderContext): string[] | undefined;
+  body?(tool: ToolRenderContext): string[] | undefined;
+  render?(tool: ToolRenderContext): string[] | undefined;
+}
+
+// Renderers by tool name; a name ending in `*` covers every tool it prefixes
+export type ToolRendererMap = Record<string, ToolRenderer>;
+
+export type OutputFormat = 'markdown' | 'html' | 'json' | 'patch';
+
+export interface TodoItem {
+  id?: string;
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+  priority?: string;
+}
+
+/**
+ * Normalized conversation model emitted by `cc2md convert --format json`.
+ *
+ * This is a stable schema for downstream tools: it only changes in
+ * backwards-compatible ways unless `schemaVersion` is bumped. Field names
+ * from the Claude Code log format are not part of the contract.
+ */
+export interface ConversationExport {
+  schemaVersion: number;
+  generator: string;
+  sessions: ConversationSession[];
+}
+
+export interface ConversationSession {
+  id: string;
+  summary: string;
+  cwd?: string;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  messageCount: number;
+  turns: ConversationTurn[];
+}
+
+/**
+ * A user prompt and everything the assistant did in response to it. Turns
+ * before the first prompt (e.g. a resumed session) have no `prompt`.
+ */
+export interface ConversationTurn {
+  index: number;
+  prompt?: ConversationMessage;
+  responses: ConversationMessage[];
+}
+
+export interface ConversationMessage {
+  uuid?: string;
+  parentUuid?: string | null;
+  role: 'user' | 'assistant';
+  timestamp?: string;
+  model?: string;
+  usage?: ConversationUsage;
+  text: string;
+  command?: { name: string; args: string };
+  isMeta?: boolean;
+  isSidechain?: boolean;
+  toolCalls: ConversationToolCall[];
+}
+
+/**
+ * Token usage of an assistant response, with missing counts as 0
+ */
+export interface ConversationUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+export interface ConversationToolCall {
+  id: string;
+  name: string;
+  // The input as the tool received it; its shape is defined by the tool
+  input: Record<string, any>;
+  todos?: TodoItem[];
+  result?: ConversationToolResult;
+}
+
+export interface ConversationToolResult {
+  content: string;
+  isError: boolean;
+  timestamp?: string;
+  filePath?: string;
+  structuredPatch?: StructuredPatch[];
+  stdout?: string;
+  stderr?: string;
+  interrupted?: boolean;
+}
+
+/**
+ * Prices in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/**
+ * Pricing keyed by model id prefix; the longest matching prefix wins, so
+ * `claude-opus-4-5` can be priced differently from `claude-opus-4`
+ */
+export interface PriceTable {
+  [modelPrefix: string]: ModelPricing;
+}
+
+/**
+ * Token usage of a single API response
+ */
+export interface UsageEntry {
+  sessionId: string;
+  project?: string;
+  model: string;
+  timestamp?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+  priced: boolean;
+}
+
+export interface UsageTotals {
+  responses: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+}
+
+export type UsageGrouping = 'session' | 'model' | 'day' | 'month' | 'project';
+
+export interface UsageRow {
+  key: string;
+  totals: UsageTotals;
+}
+
+export type FileOperation = 'read' | 'edit' | 'write' | 'search';
+
+/**
+ * What a session did to one file or directory. Line counts come from the
+ * diffs of its edits and writes.
+ */
+export interface FileActivity {
+  path: string;
+  operations: Record<FileOperation, number>;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+/**
+ * A pattern for secrets. When `group` is set only that capture group is
+ * replaced, so e.g. `API_KEY=` stays readable and just the value is hidden.
+ */
+export interface RedactionDetector {
+  name: string;
+  pattern: RegExp;
+  group?: number;
+}
+
+export interface RedactionOptions {
+  customPatterns?: string[];
+  detectHighEntropy?: boolean;
+}
+
+export interface RedactionReport {
+  totalMatches: number;
+  uniqueSecrets: number;
+  byDetector: { [name: string]: number };
+}
+
+export type SearchField = 'prompt' | 'response' | 'tool-input' | 'tool-output';
+
+/**
+ * A parsed search query. Free text becomes `pattern`; `tool:` and `file:`
+ * filters restrict the search to tool calls and results that match them.
+ */
+export interface SearchQuery {
+  pattern?: RegExp;
+  tools: string[];
+  files: string[];
+}
+
+export interface SearchResult {
+  project: string;
+  sessionId: string;
+  file: string;
+  uuid?: string;
+  timestamp?: string;
+  field: SearchField;
+  toolName?: string;
+  snippet: string;
+  highlight: { start: number; end: number };
 }
 
 export interface ConversionResult {
@@ -139,11 +438,29 @@ export interface ConversionResult {
   messageCount: number;
 }
 
+// One combined document, a directory of per-session files, or those files zipped
+export type BatchExportFormat = 'combined' | 'directory' | 'zip';
+
+export interface BatchExportProgress {
+  done: number;
+  total: number;
+  // The session just rendered
+  session: SessionInfo;
+}
+
+export interface BatchExportResult {
+  destination: string;
+  sessionCount: number;
+  // Files written, or for a zip the entries it holds
+  files: string[];
+}
+
 export interface ProjectInfo {
   name: string;
   path: string;
   displayName: string;
   sessionCount: number;
+  // When its newest session file was last written
   lastModified: Date;
 }
 
@@ -157,8 +474,12 @@ export interface FilterOptions {
     min?: number;
     max?: number;
   };
+  // Sessions must have used a model whose id contains one of these
+  models?: string[];
 }
 
+export type SessionSortKey = 'modified' | 'created' | 'messages' | 'tokens' | 'duration';
+
 export interface UIState {
   selectedIndex: number;
   filter: string;
@@ -169,4 +490,28 @@ export interface UIState {
 export interface ClipboardResult {
   success: boolean;
   error?: string;
+  // Name of the backend that handled the copy
+  backend?: string;
+  // Set when the file fallback was used
+  file?: string;
+}
+
+export type SessionActionId = 'copy' | 'osc52' | 'save' | 'pager' | 'editor';
+
+/**
+ * An entry in the browser's session action menu. Save actions carry the
+ * format they write and prompt for a path first.
+ */
+export interface SessionAction {
+  id: SessionActionId;
+  label: string;
+  format?: OutputFormat;
+}
+
+/**
+ * What happened when an action ran, worded for the status line
+ */
+export interface ActionResult {
+  success: boolean;
+  message: string;
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getListWindow } from './ListWindow.js';
+
+describe('getListWindow', () => {
+  it('should show the whole list when it fits', () => {
+    expect(getListWindow(3, 4, 5, 10)).toEqual({ start: 0, end: 5 });
+  });
+
+  it('should stay put while the selection is inside the window', () => {
+    expect(getListWindow(10, 14, 100, 10)).toEqual({ start: 10, end: 20 });
+  });
+
+  it('should scroll just far enough to reach the selection', () => {
+    expect(getListWindow(10, 20, 100, 10)).toEqual({ start: 11, end: 21 });
+    expect(getListWindow(10, 9, 100, 10)).toEqual({ start: 9, end: 19 });
+  });
+
+  it('should jump to a selection far away', () => {
+    expect(getListWindow(0, 99, 100, 10)).toEqual({ start: 90, end: 100 });
+    expect(getListWindow(90, 0, 100, 10)).toEqual({ start: 0, end: 10 });
+  });
+
+  it('should pull the window back when the list gets shorter', () => {
+    expect(getListWindow(90, 12, 20, 10)).toEqual({ start: 10, end: 20 });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { useRef } from 'react';
+
+/**
+ * The rows of a list that fit on screen, from `start` up to but not
+ * including `end`
+ */
+export interface ListWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Move a window of `height` rows as little as possible to keep the selected
+ * row in view
+ */
+export function getListWindow(start: number, selected: number, length: number, height: number): ListWindow {
+  if (length <= height) {
+    return { start: 0, end: length };
+  }
+
+  let windowStart = Math.min(start, length - height);
+  if (selected < windowStart) {
+    windowStart = selected;
+  } else if (selected >= windowStart + height) {
+    windowStart = selected - height + 1;
+  }
+  windowStart = Math.max(0, windowStart);
+
+  return { start: windowStart, end: windowStart + height };
+}
+
+/**
+ * A list window that remembers where it was between renders, so moving the
+ * selection only scrolls once it reaches an edge
+ */
+export function useListWindow(selected: number, length: number, height: number): ListWindow {
+  const start = useRef(0);
+  const window = getListWindow(start.current, selected, length, height);
+  start.current = window.start;
+  return window;
+}
\ No newline at end of file
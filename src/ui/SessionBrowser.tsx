@@ -1,59 +1,181 @@
-import React, { useState, useEffect } from 'react';
-import { render, Box, Text, useInput, useApp } from 'ink';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { render, Box, Text, useInput, useApp, useStdin, useStdout } from 'ink';
 import { SessionParser } from '../parsers/SessionParser.js';
-import { MarkdownFormatter } from '../formatters/MarkdownFormatter.js';
-import { SessionInfo, ProjectInfo } from '../types/index.js';
-import { formatRelativeTime } from '../utils/time.js';
+import { SessionIndex } from '../parsers/SessionIndex.js';
+import { RecentSessions } from '../parsers/RecentSessions.js';
+import { TranscriptDocument, TranscriptLine, findVisibleIndex, findVisibleLine } from './TranscriptDocument.js';
+import { ListWindow, useListWindow } from './ListWindow.js';
+import { convertInputToFormat } from '../formatters/formats.js';
+import { RedactionProcessor } from '../processors/RedactionProcessor.js';
+import { SearchProcessor, parseSearchQuery } from '../processors/SearchProcessor.js';
+import { BatchExporter, getDefaultExportPath, getExportFileNames } from '../formatters/BatchExporter.js';
+import { getFormatExtension } from '../formatters/formats.js';
+import { 
+  DEFAULT_FORMATTING_OPTIONS, 
+  PREVIEW_SETTINGS, 
+  BATCH_EXPORT_FORMATS, 
+  SESSION_ACTIONS, 
+  SESSION_SORT_KEYS, 
+  RECENT_SESSIONS_SETTINGS, 
+  UI_CONSTANTS 
+} from '../types/constants.js';
+import { 
+  SessionInfo, 
+  ProjectInfo, 
+  SearchResult, 
+  BatchExportFormat, 
+  BatchExportProgress, 
+  OutputFormat, 
+  SessionAction, 
+  ActionResult, 
+  ClipboardResult, 
+  SessionSortKey, 
+  FormattingOptions, 
+  ToolRendererMap 
+} from '../types/index.js';
+import { formatRelativeTime, formatTimestamp } from '../utils/time.js';
+import { 
+  parseSessionFilter, 
+  matchesFilter, 
+  sortSessions, 
+  getSessionDuration, 
+  formatTokenCount, 
+  formatDuration 
+} from '../utils/sessions.js';
 import { normalizePath, makeRelativeToHome } from '../utils/paths.js';
 import { copyToClipboard } from '../utils/clipboard.js';
+import { pipeToPager, openInEditor, saveToFile, getPagerCommand, getEditorCommand } from '../utils/external.js';
+import { LruCache } from '../utils/cache.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
-interface SessionBrowserProps {
-  projectsDir: string;
+interface SessionBrowserOptions {
+  // Set to false to read every session file instead of using the on-disk index
+  cache?: boolean;
+  toolRenderers?: ToolRendererMap;
+}
+
+interface ReaderState {
+  title: string;
+  markdown: string;
+  document: TranscriptDocument;
+  expanded: ReadonlySet<number>;
+  // First visible line shown
+  offset: number;
+  selectedBlock?: number;
+  // Source line of the last search match
+  match?: number;
+  // Query being typed after `/`
+  searchInput?: string;
+  lastSearch?: string;
+  returnMode: 'sessions' | 'search';
+}
+
+interface PreviewState {
+  // Session id and redaction setting the preview was rendered for
+  key: string;
+  document: TranscriptDocument;
+  lines: TranscriptLine[];
+  offset: number;
+}
+
+interface ExportState {
+  format: BatchExportFormat;
+  destination: string;
+  // Set while the export runs
+  progress?: BatchExportProgress;
+}
+
+interface ActionMenuState {
+  session: SessionInfo;
+  selectedIndex: number;
+  // Set while a save action asks where to write
+  path?: string;
 }
 
 interface SessionBrowserState {
-  mode: 'projects' | 'sessions' | 'loading';
+  mode: 'projects' | 'sessions' | 'search' | 'reader' | 'export' | 'actions' | 'loading';
   projects: ProjectInfo[];
   sessions: SessionInfo[];
   selectedProject?: ProjectInfo;
+  // Set instead of a project while the list holds every project's sessions
+  recent?: RecentSessions;
   selectedIndex: number;
   filter: string;
+  sortBy: SessionSortKey;
   error?: string;
   statusMessage?: string;
+  // The status message reports a failure
+  statusError?: boolean;
+  redact: boolean;
+  searchQuery: string;
+  searchedQuery?: string;
+  searchResults: SearchResult[];
+  reader?: ReaderState;
+  preview?: PreviewState;
+  previewFocused: boolean;
+  // Ids of the sessions marked for a batch export
+  marked: ReadonlySet<string>;
+  export?: ExportState;
+  actionMenu?: ActionMenuState;
 }
 
 export class SessionBrowser {
   private projectsDir: string;
+  private index: SessionIndex;
+  private formatting: FormattingOptions;
 
-  constructor(projectsDir: string = '~/.claude/projects') {
+  constructor(projectsDir: string = '~/.claude/projects', options: SessionBrowserOptions = {}) {
     this.projectsDir = normalizePath(projectsDir);
+    this.index = new SessionIndex({ persist: options.cache !== false });
+    this.formatting = { ...DEFAULT_FORMATTING_OPTIONS, toolRenderers: options.toolRenderers };
   }
 
   async run(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const App = () => <SessionBrowserApp projectsDir={this.projectsDir} onExit={resolve} onError={reject} />;
+      const App = () => <SessionBrowserApp projectsDir={this.projectsDir} index={this.index} formatting={this.formatting} onExit={resolve} onError={reject} />;
       render(<App />);
     });
   }
 }
 
+// What terminals send for Home and End, depending on their mode
+const HOME_SEQUENCES = ['\x1b[H', '\x1bOH', '\x1b[1~', '\x1b[7~'];
+const END_SEQUENCES = ['\x1b[F', '\x1bOF', '\x1b[4~', '\x1b[8~'];
+
 const SessionBrowserApp: React.FC<{
   projectsDir: string;
+  index: SessionIndex;
+  formatting: FormattingOptions;
   onExit: () => void;
   onError: (error: Error) => void;
-}> = ({ projectsDir, onExit, onError }) => {
+}> = ({ projectsDir, index, formatting, onExit, onError }) => {
   const [state, setState] = useState<SessionBrowserState>({
     mode: 'loading',
     projects: [],
     sessions: [],
     selectedIndex: 0,
-    filter: ''
+    filter: '',
+    sortBy: SESSION_SORT_KEYS[0],
+    redact: false,
+    searchQuery: '',
+    searchResults: [],
+    previewFocused: false,
+    marked: new Set()
   });
 
   const { exit } = useApp();
+  const { stdout } = useStdout();
+  const { setRawMode, internal_eventEmitter } = useStdin();
+  const readerHeight = Math.max(5, (stdout?.rows || 24) - 4);
+  // Rows left for the project or session list once the title and footer are
+  // drawn; the preview's border and heading take the place of the list's
+  const listHeight = Math.min(UI_CONSTANTS.MAX_DISPLAY_ITEMS, Math.max(3, (stdout?.rows || 24) - UI_CONSTANTS.LIST_CHROME_ROWS));
+  const previewHeight = Math.max(5, (stdout?.rows || 24) - UI_CONSTANTS.LIST_CHROME_ROWS + 1);
+  const showPreview = (stdout?.columns || 80) >= PREVIEW_SETTINGS.MIN_COLUMNS;
+  const previews = useRef(new LruCache<string, TranscriptDocument>(PREVIEW_SETTINGS.CACHE_SIZE));
+  const loadingRecent = useRef(false);
 
   // Load projects on mount
   useEffect(() => {
@@ -73,11 +195,9 @@ const SessionBrowserApp: React.FC<{
         return;
       }
 
-      const projectDirs = fs.readdirSync(projectsDir)
-        .filter(dir => !dir.startsWith('.'))
-        .filter(dir => fs.statSync(path.join(projectsDir, dir)).isDirectory());
+      const projects = await index.getProjects(projectsDir);
 
-      if (projectDirs.length === 0) {
+      if (projects.length === 0) {
         setState(prev => ({ 
           ...prev, 
           mode: 'projects', 
@@ -86,65 +206,6 @@ const SessionBrowserApp: React.FC<{
         return;
       }
 
-      const projects: ProjectInfo[] = [];
-
-      for (const dir of projectDirs) {
-        const fullPath = path.join(projectsDir, dir);
-        const stats = fs.statSync(fullPath);
-        const jsonlFiles = fs.readdirSync(fullPath).filter(file => file.endsWith('.jsonl'));
-        
-        if (jsonlFiles.length === 0) continue;
-
-        // Get CWD from any file in the directory by peeking at the first line with CWD
-        let cwd: string | null = null;
-        
-        // Try each file until we find a CWD
-        for (const jsonlFile of jsonlFiles) {
-          const filePath = path.join(fullPath, jsonlFile);
-          
-          try {
-            const content = fs.readFileSync(filePath, 'utf8');
-            const lines = content.split('\n');
-            
-            for (const line of lines) {
-              if (!line.trim()) continue;
-              
-              try {
-                const data = JSON.parse(line);
-                if (data.cwd) {
-                  cwd = data.cwd;
-                  break;
-                }
-              } catch (parseError) {
-                // Skip invalid JSON lines
-                continue;
-              }
-            }
-            
-            // If we found a CWD, stop looking
-            if (cwd) break;
-          } catch (fileError) {
-            console.error(`Error reading file ${filePath}:`, fileError);
-            continue;
-          }
-        }
-
-        // If no CWD found, fall back to the original directory name display logic
-        const displayName = cwd 
-          ? makeRelativeToHome(cwd)
-          : dir.replace(/-/g, '/').replace(/_/g, ' ');
-        
-        projects.push({
-          name: dir,
-          path: fullPath,
-          displayName,
-          sessionCount: jsonlFiles.length,
-          lastModified: stats.mtime
-        });
-      }
-
-      projects.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
-
       setState(prev => ({ 
         ...prev, 
         mode: 'projects', 
@@ -161,13 +222,9 @@ const SessionBrowserApp: React.FC<{
     try {
       setState(prev => ({ ...prev, mode: 'loading' }));
       
-      const jsonlFiles = fs.readdirSync(project.path)
-        .filter(file => file.endsWith('.jsonl'))
-        .map(file => path.join(project.path, file))
-        .sort()
-        .reverse();
+      const sessions = await index.getSessions(project.path);
 
-      if (jsonlFiles.length === 0) {
+      if (sessions.length === 0) {
         setState(prev => ({ 
           ...prev, 
           mode: 'sessions', 
@@ -176,15 +233,15 @@ const SessionBrowserApp: React.FC<{
         return;
       }
 
-      const parser = new SessionParser();
-      const sessions = parser.parseFiles(jsonlFiles);
-
       setState(prev => ({ 
         ...prev, 
         mode: 'sessions', 
         sessions,
         selectedProject: project,
+        recent: undefined,
         selectedIndex: 0,
+        previewFocused: false,
+        marked: new Set(),
         error: undefined
       }));
     } catch (error) {
@@ -192,66 +249,401 @@ const SessionBrowserApp: React.FC<{
     }
   };
 
-  const processSession = async (session: SessionInfo) => {
+  const loadRecentSessions = async () => {
     try {
       setState(prev => ({ ...prev, mode: 'loading' }));
       
-      const projectDir = path.dirname(session.file);
-      const jsonlFiles = fs.readdirSync(projectDir)
-        .filter(file => file.endsWith('.jsonl'))
-        .map(file => path.join(projectDir, file))
-        .sort();
-
-      const parser = new SessionParser();
-      const sessionData = parser.getSessionData(session.sessionId, jsonlFiles);
+      const recent = new RecentSessions(index, state.projects);
+      const sessions = await recent.loadMore();
+
+      setState(prev => ({ 
+        ...prev, 
+        mode: 'sessions', 
+        sessions,
+        selectedProject: undefined,
+        recent,
+        selectedIndex: 0,
+        previewFocused: false,
+        marked: new Set(),
+        error: undefined
+      }));
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  const renderSession = async (sessionId: string, file: string, redaction?: RedactionProcessor, format: OutputFormat = 'markdown') => {
+    const projectDir = path.dirname(file);
+    const jsonlFiles = fs.readdirSync(projectDir)
+      .filter(file => file.endsWith('.jsonl'))
+      .map(file => path.join(projectDir, file))
+      .sort();
+
+    const parser = new SessionParser();
+    const sessionData = parser.streamSessionData(sessionId, jsonlFiles);
+    
+    return convertInputToFormat(sessionData, format, formatting, redaction);
+  };
+
+  const renderPreview = async (session: SessionInfo, redact: boolean) => {
+    // The session's own file holds its first turns, and skipping the rest of
+    // the project keeps moving through the list quick
+    const sessionData = new SessionParser().streamSessionData(session.sessionId, [session.file]);
+    const options = { ...formatting, maxTurns: PREVIEW_SETTINGS.TURNS };
+    
+    return convertInputToFormat(sessionData, 'markdown', options, redact ? new RedactionProcessor() : undefined);
+  };
+
+  /**
+   * Show an action's outcome in the status line, clearing it after a while
+   */
+  const showStatus = (result: ActionResult, changes: Partial<SessionBrowserState> = {}) => {
+    setState(prev => ({ 
+      ...prev, 
+      ...changes,
+      statusMessage: result.message,
+      statusError: !result.success
+    }));
+    
+    setTimeout(() => {
+      setState(prev => prev.statusMessage === result.message 
+        ? { ...prev, statusMessage: undefined, statusError: undefined } 
+        : prev);
+    }, result.success ? 3000 : 6000);
+  };
+
+  /**
+   * Give the terminal to a program like a pager or editor until it exits
+   */
+  const withTerminal = (run: () => ActionResult): ActionResult => {
+    setRawMode(false);
+    try {
+      return run();
+    } finally {
+      setRawMode(true);
+    }
+  };
+
+  const runSessionAction = async (session: SessionInfo, action: SessionAction, file?: string) => {
+    try {
+      setState(prev => ({ ...prev, mode: 'loading' }));
       
-      const formatter = new MarkdownFormatter();
-      const markdown = formatter.convertInput(sessionData);
+      const redaction = state.redact ? new RedactionProcessor() : undefined;
+      const text = await renderSession(session.sessionId, session.file, redaction, action.format);
+      const lineCount = text.split('\n').length;
+      let result: ActionResult;
       
-      console.log(markdown);
+      switch (action.id) {
+        case 'copy':
+          result = describeCopy(await copyToClipboard(text), lineCount);
+          break;
+        case 'osc52':
+          result = describeCopy(await copyToClipboard(text, { backend: 'osc52' }), lineCount);
+          break;
+        case 'save':
+          result = await saveToFile(text, normalizePath(file!));
+          break;
+        case 'pager':
+          result = withTerminal(() => pipeToPager(text));
+          break;
+        case 'editor':
+          result = withTerminal(() => openInEditor(text, path.join(os.tmpdir(), `cc2md-${session.sessionId}.md`)));
+          break;
+      }
       
-      await copyToClipboard(markdown);
+      if (result.success && redaction) {
+        result.message += `, ${redaction.getReport().uniqueSecrets} secrets redacted`;
+      }
+      showStatus(result, { mode: 'sessions', actionMenu: undefined });
+    } catch (error) {
+      showStatus(
+        { success: false, message: `${action.label.replace(/…$/, '')} failed: ${error instanceof Error ? error.message : error}` },
+        { mode: 'sessions', actionMenu: undefined }
+      );
+    }
+  };
+
+  const openExport = () => {
+    const format = BATCH_EXPORT_FORMATS[0];
+    setState(prev => ({ 
+      ...prev, 
+      mode: 'export', 
+      statusMessage: undefined,
+      export: { format, destination: getDefaultExportPath(format) }
+    }));
+  };
+
+  const runExport = async (exportState: ExportState) => {
+    // Keep the order of the list rather than the order sessions were marked in
+    const sessions = sortSessions(state.sessions.filter(session => state.marked.has(session.sessionId)), state.sortBy);
+    const redaction = state.redact ? new RedactionProcessor() : undefined;
+    const showProgress = (progress: BatchExportProgress) => setState(prev => ({ 
+      ...prev, 
+      export: prev.export && { ...prev.export, progress }
+    }));
+
+    try {
+      showProgress({ done: 0, total: sessions.length, session: sessions[0] });
       
-      // Count lines in the markdown
-      const lineCount = markdown.split('\n').length;
+      const result = await new BatchExporter({ formatting, redaction }).exportSessions(
+        sessions,
+        exportState.format,
+        normalizePath(exportState.destination),
+        showProgress
+      );
       
-      // Show status message and return to sessions view
+      const redacted = redaction ? `, ${redaction.getReport().uniqueSecrets} secrets redacted` : '';
+      showStatus(
+        { success: true, message: `📦 Exported ${result.sessionCount} sessions to ${makeRelativeToHome(result.destination)}${redacted}` },
+        { mode: 'sessions', export: undefined, marked: new Set() }
+      );
+    } catch (error) {
+      // Stay in the dialog so a bad path can be corrected
       setState(prev => ({ 
         ...prev, 
-        mode: 'sessions',
-        statusMessage: `📋 Copied ${lineCount} lines to clipboard`
+        export: prev.export && { ...prev.export, progress: undefined },
+        statusMessage: `Export failed: ${error instanceof Error ? error.message : error}`
       }));
+    }
+  };
+
+  const runSearch = async (query: string) => {
+    try {
+      const searchQuery = parseSearchQuery(query);
+      setState(prev => ({ ...prev, mode: 'loading' }));
       
-      // Hide status message after 3 seconds
-      setTimeout(() => {
-        setState(prev => ({ 
-          ...prev, 
-          statusMessage: undefined
-        }));
-      }, 3000);
+      const searchResults = await new SearchProcessor(searchQuery).searchProjects(projectsDir);
       
+      setState(prev => ({ 
+        ...prev, 
+        mode: 'search', 
+        searchResults,
+        searchedQuery: query,
+        selectedIndex: 0,
+        statusMessage: searchResults.length === 0 ? 'No matches found' : undefined
+      }));
+    } catch (error) {
+      // A bad regex shouldn't end the session
+      setState(prev => ({ 
+        ...prev, 
+        mode: 'search', 
+        statusMessage: error instanceof Error ? error.message : String(error)
+      }));
+    }
+  };
+
+  /**
+   * Render a session and show it in the reader, optionally opened at the
+   * line `findLine` picks (revealing it if it is in a collapsed block)
+   */
+  const openReader = async (
+    title: string,
+    session: { sessionId: string; file: string },
+    returnMode: ReaderState['returnMode'],
+    findLine?: (lines: string[]) => number
+  ) => {
+    try {
+      setState(prev => ({ ...prev, mode: 'loading' }));
+      
+      const redaction = state.redact ? new RedactionProcessor() : undefined;
+      const markdown = await renderSession(session.sessionId, session.file, redaction);
+      const document = new TranscriptDocument(markdown);
+      const match = findLine?.(document.lines);
+      const expanded = match === undefined ? new Set<number>() : document.reveal(new Set(), match);
+      const offset = match === undefined ? 0 : findVisibleIndex(document.getVisibleLines(expanded), match);
+      
+      setState(prev => ({ 
+        ...prev, 
+        mode: 'reader',
+        statusMessage: undefined,
+        reader: { title, markdown, document, expanded, offset, match, returnMode }
+      }));
     } catch (error) {
       onError(error instanceof Error ? error : new Error(String(error)));
     }
   };
 
+  const openSearchResult = (result: SearchResult) => openReader(
+    `${result.project} · ${result.sessionId}`,
+    result,
+    'search',
+    lines => findResultLine(lines, result)
+  );
+
+  const copyReaderSession = async (markdown: string) => {
+    const result = describeCopy(await copyToClipboard(markdown), markdown.split('\n').length);
+    setState(prev => ({ 
+      ...prev, 
+      statusMessage: result.message,
+      statusError: !result.success
+    }));
+  };
+
+  // Sessions understand filter expressions like `since:7d`; projects only match by name
+  const sessionFilter = useMemo(() => parseSessionFilter(state.filter), [state.filter]);
+  const listedSessions = useMemo(
+    () => sortSessions(state.sessions.filter(session => matchesFilter(session, sessionFilter.options)), state.sortBy),
+    [state.sessions, sessionFilter, state.sortBy]
+  );
+
   const filteredItems = state.mode === 'projects' 
     ? state.projects.filter(project => 
         state.filter === '' || project.displayName.toLowerCase().includes(state.filter.toLowerCase())
       )
-    : state.sessions.filter(session => 
-        state.filter === '' || session.summary.toLowerCase().includes(state.filter.toLowerCase())
-      );
+    : listedSessions;
 
-  const maxIndex = Math.max(0, filteredItems.length - 1);
+  // The project list starts with an entry for the recent sessions of every project
+  const recentRow = state.mode === 'projects' && state.filter === '' ? 1 : 0;
+  const listLength = state.mode === 'search' ? state.searchResults.length : filteredItems.length + recentRow;
+  const maxIndex = Math.max(0, listLength - 1);
   const clampedIndex = Math.min(state.selectedIndex, maxIndex);
 
+  const selectedSession = state.mode === 'sessions' ? filteredItems[clampedIndex] as SessionInfo | undefined : undefined;
+  const previewKey = selectedSession ? `${selectedSession.sessionId}:${state.redact}` : undefined;
+
+  // Render the preview once the selection settles, keeping the last few previews around
+  useEffect(() => {
+    if (!selectedSession || !previewKey || !showPreview) {
+      return;
+    }
+
+    // Tool results stay collapsed so the preview shows the conversation itself
+    const showDocument = (document: TranscriptDocument) => setState(prev => ({ 
+      ...prev, 
+      preview: { key: previewKey, document, lines: document.getVisibleLines(new Set()), offset: 0 } 
+    }));
+
+    const cached = previews.current.get(previewKey);
+    if (cached) {
+      showDocument(cached);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const document = new TranscriptDocument(await renderPreview(selectedSession, state.redact));
+        previews.current.set(previewKey, document);
+        if (!cancelled) {
+          showDocument(document);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          showDocument(new TranscriptDocument(`Preview failed: ${error instanceof Error ? error.message : error}`));
+        }
+      }
+    }, PREVIEW_SETTINGS.DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [previewKey, showPreview]);
+
+  // Read further into the recent sessions as the selection nears the end of
+  // what has been loaded
+  useEffect(() => {
+    const recent = state.recent;
+    if (state.mode !== 'sessions' || !recent || !recent.hasMore() || loadingRecent.current ||
+        clampedIndex < filteredItems.length - RECENT_SESSIONS_SETTINGS.LOAD_AHEAD) {
+      return;
+    }
+
+    loadingRecent.current = true;
+    recent.loadMore().then(
+      sessions => {
+        loadingRecent.current = false;
+        setState(prev => prev.recent === recent ? { ...prev, sessions } : prev);
+      },
+      error => {
+        loadingRecent.current = false;
+        onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  }, [state.mode, state.recent, state.sessions, clampedIndex, filteredItems.length]);
+
+  // Ink doesn't pass Home and End on to useInput, so catch them in the raw input
+  useEffect(() => {
+    if ((state.mode !== 'projects' && state.mode !== 'sessions') || state.previewFocused) {
+      return;
+    }
+
+    const handleInput = (data: string | Buffer) => {
+      const sequence = String(data);
+      if (HOME_SEQUENCES.includes(sequence)) {
+        setState(prev => ({ ...prev, selectedIndex: 0 }));
+      } else if (END_SEQUENCES.includes(sequence)) {
+        setState(prev => ({ ...prev, selectedIndex: maxIndex }));
+      }
+    };
+
+    internal_eventEmitter.on('input', handleInput);
+    return () => {
+      internal_eventEmitter.removeListener('input', handleInput);
+    };
+  });
+
+  const readerLines = useMemo(
+    () => state.reader ? state.reader.document.getVisibleLines(state.reader.expanded) : [],
+    [state.reader?.document, state.reader?.expanded]
+  );
+
   useInput((input: string, key: any) => {
     if (key.ctrl && input === 'c') {
       exit();
       return;
     }
 
+    if (key.ctrl && input === 'r') {
+      setState(prev => ({ ...prev, redact: !prev.redact }));
+      return;
+    }
+
+    if (state.mode === 'reader' && state.reader) {
+      handleReaderInput(input, key, state.reader);
+      return;
+    }
+
+    if (state.mode === 'export' && state.export) {
+      handleExportInput(input, key, state.export);
+      return;
+    }
+
+    if (state.mode === 'actions' && state.actionMenu) {
+      handleActionInput(input, key, state.actionMenu);
+      return;
+    }
+
+    if (key.ctrl && input === 'f' && state.mode !== 'search') {
+      setState(prev => ({ 
+        ...prev, 
+        mode: 'search',
+        selectedIndex: 0,
+        statusMessage: undefined
+      }));
+      return;
+    }
+
+    if (state.mode === 'search') {
+      handleSearchInput(input, key);
+      return;
+    }
+
+    if (key.ctrl && input === 'o' && state.mode === 'sessions') {
+      setState(prev => ({ 
+        ...prev, 
+        sortBy: SESSION_SORT_KEYS[(SESSION_SORT_KEYS.indexOf(prev.sortBy) + 1) % SESSION_SORT_KEYS.length],
+        selectedIndex: 0
+      }));
+      return;
+    }
+
+    if (state.mode === 'sessions' && showPreview && (key.tab || state.previewFocused)) {
+      if (handlePreviewInput(key)) {
+        return;
+      }
+    }
+
     if (key.escape) {
       if (state.mode === 'sessions') {
         setState(prev => ({ 
@@ -259,6 +651,8 @@ const SessionBrowserApp: React.FC<{
           mode: 'projects',
           selectedIndex: 0,
           filter: '',
+          marked: new Set(),
+          recent: undefined,
           error: undefined
         }));
       } else {
@@ -268,16 +662,44 @@ const SessionBrowserApp: React.FC<{
     }
 
     if (key.return) {
-      if (state.mode === 'projects' && filteredItems.length > 0) {
-        const selectedProject = filteredItems[clampedIndex] as ProjectInfo;
+      if (state.mode === 'projects' && recentRow && clampedIndex === 0) {
+        loadRecentSessions();
+      } else if (state.mode === 'projects' && filteredItems.length > 0) {
+        const selectedProject = filteredItems[clampedIndex - recentRow] as ProjectInfo;
         loadSessions(selectedProject);
+      } else if (state.mode === 'sessions' && state.marked.size > 0) {
+        openExport();
       } else if (state.mode === 'sessions' && filteredItems.length > 0) {
         const selectedSession = filteredItems[clampedIndex] as SessionInfo;
-        processSession(selectedSession);
+        setState(prev => ({ 
+          ...prev, 
+          mode: 'actions', 
+          statusMessage: undefined,
+          actionMenu: { session: selectedSession, selectedIndex: 0 }
+        }));
       }
       return;
     }
 
+    // Space marks the session for a batch export and moves on to the next,
+    // unless it separates the terms of a filter being typed
+    if (input === ' ' && state.mode === 'sessions' && selectedSession && state.filter === '') {
+      const { sessionId } = selectedSession;
+      setState(prev => {
+        const marked = new Set(prev.marked);
+        if (!marked.delete(sessionId)) {
+          marked.add(sessionId);
+        }
+        return { ...prev, marked, selectedIndex: Math.min(maxIndex, clampedIndex + 1) };
+      });
+      return;
+    }
+
+    if (key.rightArrow && state.mode === 'sessions' && selectedSession) {
+      openReader(selectedSession.summary, selectedSession, 'sessions');
+      return;
+    }
+
     if (key.upArrow) {
       setState(prev => ({ 
         ...prev, 
@@ -294,6 +716,14 @@ const SessionBrowserApp: React.FC<{
       return;
     }
 
+    if ((key.pageUp || key.pageDown) && (state.mode === 'projects' || state.mode === 'sessions')) {
+      setState(prev => ({ 
+        ...prev, 
+        selectedIndex: Math.max(0, Math.min(maxIndex, clampedIndex + (key.pageUp ? -listHeight : listHeight)))
+      }));
+      return;
+    }
+
     if (key.backspace || key.delete) {
       setState(prev => ({ 
         ...prev, 
@@ -313,6 +743,284 @@ const SessionBrowserApp: React.FC<{
     }
   });
 
+  const handleSearchInput = (input: string, key: any) => {
+    if (key.escape) {
+      setState(prev => ({ 
+        ...prev, 
+        mode: prev.selectedProject || prev.recent ? 'sessions' : 'projects',
+        selectedIndex: 0,
+        statusMessage: undefined
+      }));
+      return;
+    }
+
+    if (key.return) {
+      const results = state.searchResults;
+      if (state.searchQuery === state.searchedQuery && results.length > 0) {
+        openSearchResult(results[clampedIndex]);
+      } else if (state.searchQuery.trim()) {
+        runSearch(state.searchQuery);
+      }
+      return;
+    }
+
+    if (key.upArrow || key.downArrow) {
+      setState(prev => ({ 
+        ...prev, 
+        selectedIndex: key.upArrow ? Math.max(0, prev.selectedIndex - 1) : Math.min(maxIndex, prev.selectedIndex + 1)
+      }));
+      return;
+    }
+
+    if (key.backspace || key.delete) {
+      setState(prev => ({ ...prev, searchQuery: prev.searchQuery.slice(0, -1) }));
+      return;
+    }
+
+    // Accept pasted text as well as single keystrokes
+    if (input && /^[ -~]+$/.test(input)) {
+      setState(prev => ({ ...prev, searchQuery: prev.searchQuery + input, statusMessage: undefined }));
+    }
+  };
+
+  /**
+   * The action menu: ↑/↓ or a number pick an action and Enter runs it. Save
+   * actions first ask for a path, suggesting one named after the session.
+   */
+  const handleActionInput = (input: string, key: any, menu: ActionMenuState) => {
+    const updateMenu = (changes: Partial<ActionMenuState>) => setState(prev => ({ 
+      ...prev, 
+      actionMenu: prev.actionMenu && { ...prev.actionMenu, ...changes }
+    }));
+    const action = SESSION_ACTIONS[menu.selectedIndex];
+
+    if (menu.path !== undefined) {
+      if (key.escape) {
+        updateMenu({ path: undefined });
+      } else if (key.return && menu.path.trim()) {
+        runSessionAction(menu.session, action, menu.path);
+      } else if (key.backspace || key.delete) {
+        updateMenu({ path: menu.path.slice(0, -1) });
+      } else if (input && /^[ -~]+$/.test(input)) {
+        updateMenu({ path: menu.path + input });
+      }
+      return;
+    }
+
+    const choose = (index: number) => {
+      const chosen = SESSION_ACTIONS[index];
+      if (chosen.id === 'save') {
+        const [name] = getExportFileNames([menu.session], getFormatExtension(chosen.format || 'markdown'));
+        updateMenu({ selectedIndex: index, path: path.resolve(name) });
+      } else {
+        runSessionAction(menu.session, chosen);
+      }
+    };
+
+    if (key.escape) {
+      setState(prev => ({ ...prev, mode: 'sessions', actionMenu: undefined }));
+    } else if (key.return) {
+      choose(menu.selectedIndex);
+    } else if (key.upArrow || key.downArrow) {
+      const step = key.upArrow ? -1 : 1;
+      updateMenu({ selectedIndex: Math.max(0, Math.min(SESSION_ACTIONS.length - 1, menu.selectedIndex + step)) });
+    } else if (/^[1-9]$/.test(input) && Number(input) <= SESSION_ACTIONS.length) {
+      choose(Number(input) - 1);
+    }
+  };
+
+  /**
+   * The export dialog: ↑/↓ pick the format, typing edits the destination and
+   * Enter starts the export. Keys are ignored while it runs.
+   */
+  const handleExportInput = (input: string, key: any, exportState: ExportState) => {
+    if (exportState.progress) {
+      return;
+    }
+
+    if (key.escape) {
+      setState(prev => ({ ...prev, mode: 'sessions', export: undefined, statusMessage: undefined }));
+      return;
+    }
+
+    if (key.return) {
+      if (exportState.destination.trim()) {
+        runExport(exportState);
+      }
+      return;
+    }
+
+    if (key.upArrow || key.downArrow || key.tab) {
+      // Each format has its own default name, so picking another one replaces the path
+      const current = BATCH_EXPORT_FORMATS.indexOf(exportState.format);
+      const step = key.upArrow || key.shift ? -1 : 1;
+      const format = BATCH_EXPORT_FORMATS[(current + step + BATCH_EXPORT_FORMATS.length) % BATCH_EXPORT_FORMATS.length];
+      setState(prev => ({ 
+        ...prev, 
+        statusMessage: undefined,
+        export: { format, destination: getDefaultExportPath(format) }
+      }));
+      return;
+    }
+
+    if (key.backspace || key.delete) {
+      setState(prev => ({ 
+        ...prev, 
+        export: prev.export && { ...prev.export, destination: prev.export.destination.slice(0, -1) }
+      }));
+      return;
+    }
+
+    if (input && /^[ -~]+$/.test(input)) {
+      setState(prev => ({ 
+        ...prev, 
+        statusMessage: undefined,
+        export: prev.export && { ...prev.export, destination: prev.export.destination + input }
+      }));
+    }
+  };
+
+  /**
+   * Tab moves focus between the session list and the preview; while the
+   * preview has focus the arrows and page keys scroll it. Returns false for
+   * keys the list should handle.
+   */
+  const handlePreviewInput = (key: any): boolean => {
+    const scrollBy = (delta: number) => setState(prev => {
+      if (!prev.preview) {
+        return prev;
+      }
+      const maxOffset = Math.max(0, prev.preview.lines.length - previewHeight);
+      const offset = Math.max(0, Math.min(maxOffset, prev.preview.offset + delta));
+      return { ...prev, preview: { ...prev.preview, offset } };
+    });
+
+    if (key.tab) {
+      setState(prev => ({ ...prev, previewFocused: !prev.previewFocused }));
+    } else if (key.escape) {
+      setState(prev => ({ ...prev, previewFocused: false }));
+    } else if (key.upArrow || key.downArrow) {
+      scrollBy(key.upArrow ? -1 : 1);
+    } else if (key.pageUp || key.pageDown) {
+      scrollBy(key.pageUp ? -previewHeight : previewHeight);
+    } else {
+      return false;
+    }
+    
+    return true;
+  };
+
+  const handleReaderInput = (input: string, key: any, reader: ReaderState) => {
+    const maxOffsetFor = (lines: TranscriptLine[]) => Math.max(0, lines.length - readerHeight);
+    const update = (changes: Partial<ReaderState>) => setState(prev => ({ 
+      ...prev, 
+      statusMessage: undefined,
+      reader: prev.reader && { ...prev.reader, ...changes }
+    }));
+    const scrollTo = (offset: number) => update({ offset: Math.max(0, Math.min(maxOffsetFor(readerLines), offset)) });
+    const setExpanded = (expanded: Set<number>, selectedBlock = reader.selectedBlock) => {
+      const lines = reader.document.getVisibleLines(expanded);
+      update({ expanded, selectedBlock, offset: Math.min(reader.offset, maxOffsetFor(lines)) });
+    };
+
+    if (reader.searchInput !== undefined) {
+      handleReaderSearchInput(input, key, reader);
+      return;
+    }
+
+    if (key.escape) {
+      setState(prev => ({ ...prev, mode: reader.returnMode, reader: undefined, statusMessage: undefined }));
+    } else if (key.return) {
+      copyReaderSession(reader.markdown);
+    } else if (key.upArrow || input === 'k') {
+      scrollTo(reader.offset - 1);
+    } else if (key.downArrow || input === 'j') {
+      scrollTo(reader.offset + 1);
+    } else if (key.pageUp || input === 'b') {
+      scrollTo(reader.offset - readerHeight);
+    } else if (key.pageDown || input === ' ') {
+      scrollTo(reader.offset + readerHeight);
+    } else if (input === 'g' || input === 'G') {
+      scrollTo(input === 'g' ? 0 : readerLines.length);
+    } else if (input === 'n' || input === 'p') {
+      const turns = new Set(reader.document.turns);
+      const index = findVisibleLine(readerLines, reader.offset, input === 'n' ? 1 : -1, line => turns.has(line.source));
+      if (index !== undefined) {
+        scrollTo(index);
+      }
+    } else if (key.tab) {
+      // Select the next (Shift+Tab: previous) tool block, starting from the selection if it is on screen
+      const selected = readerLines.findIndex(line => line.block !== undefined && line.block === reader.selectedBlock);
+      const onScreen = selected >= reader.offset && selected < reader.offset + readerHeight;
+      const from = onScreen ? selected : (key.shift ? reader.offset + readerHeight : reader.offset - 1);
+      const index = findVisibleLine(readerLines, from, key.shift ? -1 : 1, line => line.block !== undefined);
+      if (index !== undefined) {
+        const offset = index < reader.offset || index >= reader.offset + readerHeight ? index - 2 : reader.offset;
+        update({ selectedBlock: readerLines[index].block, offset: Math.max(0, Math.min(maxOffsetFor(readerLines), offset)) });
+      }
+    } else if ((key.rightArrow || key.leftArrow) && reader.selectedBlock !== undefined) {
+      const block = reader.selectedBlock;
+      const expanded = new Set(reader.expanded);
+      if (key.rightArrow) {
+        expanded.add(block);
+        setExpanded(expanded);
+      } else if (expanded.has(block)) {
+        expanded.delete(block);
+        setExpanded(expanded);
+      } else {
+        // Already collapsed: collapse the block around it instead
+        const parent = reader.document.blocks[block].parent;
+        if (parent !== undefined) {
+          expanded.delete(parent);
+          setExpanded(expanded, parent);
+        }
+      }
+    } else if (input === 'o') {
+      setExpanded(reader.expanded.size > 0 ? new Set() : new Set(reader.document.blocks.keys()));
+    } else if (input === '/') {
+      update({ searchInput: '' });
+    }
+  };
+
+  /**
+   * Typing a query after `/`. Enter jumps to the next match, expanding the
+   * blocks around it; an empty query repeats the last search.
+   */
+  const handleReaderSearchInput = (input: string, key: any, reader: ReaderState) => {
+    const update = (changes: Partial<ReaderState>, statusMessage?: string) => setState(prev => ({ 
+      ...prev, 
+      statusMessage,
+      reader: prev.reader && { ...prev.reader, ...changes }
+    }));
+
+    if (key.escape) {
+      update({ searchInput: undefined });
+    } else if (key.return) {
+      const query = reader.searchInput || reader.lastSearch;
+      if (!query) {
+        update({ searchInput: undefined });
+        return;
+      }
+
+      const current = readerLines[reader.offset]?.source ?? 0;
+      const from = query === reader.lastSearch && reader.match !== undefined ? reader.match + 1 : current;
+      const match = reader.document.search(query, from);
+      if (match === undefined) {
+        update({ searchInput: undefined, lastSearch: query }, `No match for "${query}"`);
+        return;
+      }
+
+      const expanded = reader.document.reveal(reader.expanded, match);
+      const lines = reader.document.getVisibleLines(expanded);
+      const offset = Math.max(0, Math.min(lines.length - readerHeight, findVisibleIndex(lines, match) - 2));
+      update({ searchInput: undefined, lastSearch: query, match, expanded, offset });
+    } else if (key.backspace || key.delete) {
+      update({ searchInput: reader.searchInput!.slice(0, -1) });
+    } else if (input && /^[ -~]+$/.test(input)) {
+      update({ searchInput: reader.searchInput + input });
+    }
+  };
+
   if (state.mode === 'loading') {
     return <LoadingScreen />;
   }
@@ -325,8 +1033,50 @@ const SessionBrowserApp: React.FC<{
     return (
       <ProjectList 
         projects={filteredItems as ProjectInfo[]} 
+        showRecent={recentRow > 0}
         selectedIndex={clampedIndex}
+        height={listHeight}
         filter={state.filter}
+        redact={state.redact}
+      />
+    );
+  }
+
+  if (state.mode === 'search') {
+    return (
+      <SearchView
+        query={state.searchQuery}
+        results={state.searchResults}
+        selectedIndex={clampedIndex}
+        stale={state.searchQuery !== state.searchedQuery}
+        statusMessage={state.statusMessage}
+      />
+    );
+  }
+
+  if (state.mode === 'reader' && state.reader) {
+    return (
+      <ReaderView 
+        reader={state.reader} 
+        lines={readerLines}
+        height={readerHeight} 
+        statusMessage={state.statusMessage} 
+        statusError={state.statusError}
+      />
+    );
+  }
+
+  if (state.mode === 'actions' && state.actionMenu) {
+    return <ActionMenuView menu={state.actionMenu} redact={state.redact} />;
+  }
+
+  if (state.mode === 'export' && state.export) {
+    return (
+      <ExportView 
+        exportState={state.export} 
+        sessionCount={state.marked.size} 
+        redact={state.redact} 
+        statusMessage={state.statusMessage} 
       />
     );
   }
@@ -335,10 +1085,21 @@ const SessionBrowserApp: React.FC<{
     return (
       <SessionList 
         sessions={filteredItems as SessionInfo[]} 
+        marked={state.marked}
         selectedIndex={clampedIndex}
+        height={listHeight}
         filter={state.filter}
-        project={state.selectedProject!}
+        invalidFilterTerms={sessionFilter.invalid}
+        sortBy={state.sortBy}
+        title={state.recent ? 'Recent sessions in all projects' : `Sessions in ${state.selectedProject?.displayName}`}
+        showProjects={state.recent !== undefined}
+        hasMore={state.recent?.hasMore() || false}
         statusMessage={state.statusMessage}
+        statusError={state.statusError}
+        redact={state.redact}
+        preview={showPreview ? (state.preview?.key === previewKey ? state.preview : LOADING_PREVIEW) : undefined}
+        previewHeight={previewHeight}
+        previewFocused={state.previewFocused}
       />
     );
   }
@@ -369,77 +1130,445 @@ const ErrorScreen: React.FC<{ error: string; onExit: () => void }> = ({ error, o
 
 const ProjectList: React.FC<{
   projects: ProjectInfo[];
+  showRecent: boolean;
   selectedIndex: number;
+  height: number;
   filter: string;
-}> = ({ projects, selectedIndex, filter }) => (
-  <Box flexDirection="column">
-    <TitleHeader />
-    <Box flexDirection="column" marginY={1}>
-      <Text color="cyan" bold>Select a project:</Text>
-      <Box flexDirection="column" marginTop={1}>
-        {projects.map((project, index) => (
-          <Box key={project.name}>
-            <Text color={index === selectedIndex ? "black" : "white"} 
-                  backgroundColor={index === selectedIndex ? "cyan" : undefined}>
-              {index === selectedIndex ? "❯ " : "  "}
-              {project.displayName}
-            </Text>
-          </Box>
-        ))}
+  redact: boolean;
+}> = ({ projects, showRecent, selectedIndex, height, filter, redact }) => {
+  // The recent sessions entry scrolls with the projects below it
+  const rows = showRecent ? [undefined, ...projects] : projects;
+  const window = useListWindow(selectedIndex, rows.length, height);
+
+  return (
+    <Box flexDirection="column">
+      <TitleHeader />
+      <Box flexDirection="column" marginY={1}>
+        <Text color="cyan" bold>Select a project:</Text>
+        <Box flexDirection="column" marginTop={1}>
+          {rows.slice(window.start, window.end).map((project, offset) => {
+            const selected = window.start + offset === selectedIndex;
+            return (
+              <Box key={project?.name || 'recent'}>
+                <Text color={selected ? "black" : project ? "white" : "yellow"} 
+                      backgroundColor={selected ? "cyan" : undefined}>
+                  {selected ? "❯ " : "  "}
+                  {project ? project.displayName : 'All recent sessions'}
+                </Text>
+              </Box>
+            );
+          })}
+          <ListPosition window={window} length={rows.length} />
+        </Box>
       </Box>
+      <FooterControls filter={filter} itemCount={projects.length} redact={redact} />
     </Box>
-    <FooterControls filter={filter} itemCount={projects.length} />
-  </Box>
-);
+  );
+};
+
+const EXTRA_COLUMNS: Partial<Record<SessionSortKey, { title: string; value: (session: SessionInfo) => string }>> = {
+  tokens: { title: 'Tokens', value: session => formatTokenCount(session.tokens) },
+  duration: { title: 'Duration', value: session => formatDuration(getSessionDuration(session)) }
+};
 
 const SessionList: React.FC<{
   sessions: SessionInfo[];
+  marked: ReadonlySet<string>;
   selectedIndex: number;
+  height: number;
   filter: string;
-  project: ProjectInfo;
+  invalidFilterTerms: string[];
+  sortBy: SessionSortKey;
+  title: string;
+  showProjects: boolean;
+  // More recent sessions are read as the selection nears the end
+  hasMore: boolean;
   statusMessage?: string;
-}> = ({ sessions, selectedIndex, filter, project, statusMessage }) => {
+  statusError?: boolean;
+  redact: boolean;
+  preview?: PreviewState;
+  previewHeight: number;
+  previewFocused: boolean;
+}> = ({ sessions, marked, selectedIndex, height, filter, invalidFilterTerms, sortBy, title, showProjects, hasMore, statusMessage, statusError, redact, preview, previewHeight, previewFocused }) => {
+  const window = useListWindow(selectedIndex, sessions.length, height);
+
+  // Sorting by tokens or duration adds a column showing them
+  const extraColumn = EXTRA_COLUMNS[sortBy];
+
   // Calculate maximum width for each column to ensure proper alignment
   const modifiedWidth = Math.max(8, ...sessions.map(s => formatRelativeTime(s.modified).length));
   const createdWidth = Math.max(7, ...sessions.map(s => formatRelativeTime(s.created).length));
   const messagesWidth = Math.max(8, ...sessions.map(s => s.messageCount.toString().length));
+  const extraWidth = extraColumn 
+    ? Math.max(extraColumn.title.length, ...sessions.map(s => extraColumn.value(s).length)) 
+    : 0;
+  const extraCell = (text: string) => extraColumn ? ` ${text.padStart(extraWidth)}` : '';
+  const projectWidth = showProjects 
+    ? Math.min(RECENT_SESSIONS_SETTINGS.MAX_PROJECT_WIDTH, Math.max(7, ...sessions.map(s => (s.project || '').length))) 
+    : 0;
+  // Project paths are cut from the left, keeping the part that names them
+  const projectCell = (text: string) => showProjects 
+    ? `${(text.length > projectWidth ? '…' + text.slice(text.length - projectWidth + 1) : text).padEnd(projectWidth)}  ` 
+    : '';
   
   return (
     <Box flexDirection="column">
       <TitleHeader />
       <Box marginY={1}>
-        <Text color="cyan" bold>Sessions in {project.displayName}:</Text>
+        <Text color="cyan" bold>{title}:</Text>
       </Box>
-      <Box flexDirection="column">
-        <Box>
-          <Text color="gray" bold>
-            {" "} {"Modified".padEnd(modifiedWidth)} {"Created".padEnd(createdWidth)} {"Messages".padStart(messagesWidth)}  Summary
-          </Text>
+      <Box>
+        <Box flexDirection="column" width={preview ? "50%" : undefined}>
+          <Box>
+            <Text color="gray" bold wrap="truncate">
+              {"   "} {"Modified".padEnd(modifiedWidth)} {"Created".padEnd(createdWidth)} {"Messages".padStart(messagesWidth)}{extraCell(extraColumn?.title || '')}  {projectCell('Project')}Summary
+            </Text>
+          </Box>
+          {sessions.slice(window.start, window.end).map((session, offset) => {
+            const index = window.start + offset;
+            return (
+              <Box key={session.sessionId}>
+                <Text 
+                  color={index === selectedIndex ? "black" : "white"} 
+                  backgroundColor={index === selectedIndex ? "cyan" : undefined}
+                  wrap="truncate"
+                >
+                  {index === selectedIndex ? "❯ " : "  "}
+                  {marked.has(session.sessionId) ? "● " : "  "}
+                  {formatRelativeTime(session.modified).padEnd(modifiedWidth)} {formatRelativeTime(session.created).padEnd(createdWidth)} {session.messageCount.toString().padStart(messagesWidth)}{extraCell(extraColumn?.value(session) || '')}  {projectCell(session.project || '')}{session.summary}
+                </Text>
+              </Box>
+            );
+          })}
+          <ListPosition window={window} length={sessions.length} />
         </Box>
-        {sessions.map((session, index) => (
-          <Box key={session.sessionId}>
-            <Text 
-              color={index === selectedIndex ? "black" : "white"} 
-              backgroundColor={index === selectedIndex ? "cyan" : undefined}
-              wrap="truncate"
-            >
-              {index === selectedIndex ? "❯ " : "  "}
-              {formatRelativeTime(session.modified).padEnd(modifiedWidth)} {formatRelativeTime(session.created).padEnd(createdWidth)} {session.messageCount.toString().padStart(messagesWidth)}  {session.summary}
+        {preview && (
+          <Box 
+            flexDirection="column" 
+            width="50%" 
+            borderStyle="round" 
+            borderColor={previewFocused ? "cyan" : "gray"} 
+            paddingX={1}
+          >
+            <Text color="gray" wrap="truncate">
+              Preview · first {PREVIEW_SETTINGS.TURNS} turns · line {Math.min(preview.offset + 1, preview.lines.length)} of {preview.lines.length}
             </Text>
+            <Box flexDirection="column" height={previewHeight}>
+              <TranscriptLines document={preview.document} lines={preview.lines} offset={preview.offset} height={previewHeight} />
+            </Box>
           </Box>
-        ))}
+        )}
       </Box>
       {statusMessage ? (
         <Box justifyContent="center" marginTop={1}>
-          <Text color="green" bold>{statusMessage}</Text>
+          <Text color={statusError ? "red" : "green"} bold>{statusMessage}</Text>
         </Box>
       ) : (
-        <FooterControls filter={filter} itemCount={sessions.length} showBackOption />
+        <FooterControls 
+          filter={filter} 
+          invalidFilterTerms={invalidFilterTerms}
+          itemCount={sessions.length} 
+          hasMore={hasMore}
+          markedCount={marked.size}
+          sortBy={sortBy}
+          redact={redact} 
+          showBackOption 
+          showSessionOptions
+          showPreviewOption={preview !== undefined} 
+        />
       )}
     </Box>
   );
 };
 
+const SearchView: React.FC<{
+  query: string;
+  results: SearchResult[];
+  selectedIndex: number;
+  stale: boolean;
+  statusMessage?: string;
+}> = ({ query, results, selectedIndex, stale, statusMessage }) => (
+  <Box flexDirection="column">
+    <TitleHeader />
+    <Box>
+      <Text color="cyan" bold>Search all sessions: </Text>
+      <Text>{query}</Text>
+      <Text color="gray">█</Text>
+    </Box>
+    <Text color="gray">Plain text, /regex/i, tool:Bash, file:src/foo.ts</Text>
+    <Box flexDirection="column" marginTop={1}>
+      {!stale && results.map((result, index) => {
+        const selected = index === selectedIndex;
+        const { snippet, highlight } = result;
+        return (
+          <Box key={`${result.file}-${result.uuid}-${index}`} flexDirection="column">
+            <Text color={selected ? "black" : "gray"} backgroundColor={selected ? "cyan" : undefined} wrap="truncate">
+              {selected ? "❯ " : "  "}
+              {result.project} · {result.timestamp ? formatTimestamp(result.timestamp) : 'Unknown'} · {result.toolName || result.field}
+            </Text>
+            <Text wrap="truncate">
+              {"    "}
+              {snippet.slice(0, highlight.start)}
+              <Text color="yellow" bold>{snippet.slice(highlight.start, highlight.end)}</Text>
+              {snippet.slice(highlight.end)}
+            </Text>
+          </Box>
+        );
+      })}
+    </Box>
+    <Box flexDirection="column" marginTop={1}>
+      {statusMessage && <Text color="yellow">{statusMessage}</Text>}
+      <Text color="gray">
+        {stale ? "Enter to search" : "↑/↓ to navigate, Enter to open at the match, edit the query and Enter to search again"}, Esc to go back
+      </Text>
+      {!stale && <Text color="gray">{results.length} matches</Text>}
+    </Box>
+  </Box>
+);
+
+const ActionMenuView: React.FC<{
+  menu: ActionMenuState;
+  redact: boolean;
+}> = ({ menu, redact }) => {
+  // Name the programs the pager and editor actions would start
+  const commands: Partial<Record<SessionAction['id'], string>> = {
+    pager: getPagerCommand(),
+    editor: getEditorCommand()
+  };
+  
+  return (
+    <Box flexDirection="column">
+      <TitleHeader />
+      <Text color="cyan" bold wrap="truncate">{menu.session.summary}</Text>
+      <Text color="gray">{redact ? 'Secrets will be redacted' : 'Ctrl+R in the list turns on redaction'}</Text>
+      <Box flexDirection="column" marginY={1}>
+        {SESSION_ACTIONS.map((action, index) => {
+          const selected = index === menu.selectedIndex;
+          return (
+            <Text 
+              key={action.label} 
+              color={selected ? "black" : "white"} 
+              backgroundColor={selected ? "cyan" : undefined}
+            >
+              {selected ? "❯ " : "  "}
+              {index + 1}. {action.label}
+              {commands[action.id] && <Text color={selected ? "black" : "gray"}> ({commands[action.id]})</Text>}
+            </Text>
+          );
+        })}
+      </Box>
+      {menu.path !== undefined ? (
+        <Box flexDirection="column">
+          <Box>
+            <Text color="cyan" bold>Save to: </Text>
+            <Text wrap="truncate-start">{menu.path}</Text>
+            <Text color="gray">█</Text>
+          </Box>
+          <Text color="gray">Type to edit the path, Enter to save, Esc to pick another action</Text>
+        </Box>
+      ) : (
+        <Text color="gray">↑/↓ or 1-{SESSION_ACTIONS.length} to choose, Enter to run, Esc to go back</Text>
+      )}
+    </Box>
+  );
+};
+
+const EXPORT_FORMAT_DESCRIPTIONS: Record<BatchExportFormat, string> = {
+  combined: 'One markdown document with every session',
+  directory: 'A directory with a markdown file per session, named from its date and summary',
+  zip: 'The per-session files in a zip archive'
+};
+
+const ExportView: React.FC<{
+  exportState: ExportState;
+  sessionCount: number;
+  redact: boolean;
+  statusMessage?: string;
+}> = ({ exportState, sessionCount, redact, statusMessage }) => {
+  const { format, destination, progress } = exportState;
+  const barWidth = 30;
+  const filled = progress ? Math.round(barWidth * progress.done / Math.max(1, progress.total)) : 0;
+  
+  return (
+    <Box flexDirection="column">
+      <TitleHeader />
+      <Text color="cyan" bold>Export {sessionCount} marked sessions{redact ? ' with secrets redacted' : ''}:</Text>
+      <Box flexDirection="column" marginY={1}>
+        {BATCH_EXPORT_FORMATS.map(option => (
+          <Text 
+            key={option} 
+            color={option === format ? "black" : "white"} 
+            backgroundColor={option === format ? "cyan" : undefined}
+          >
+            {option === format ? "❯ " : "  "}
+            {EXPORT_FORMAT_DESCRIPTIONS[option]}
+          </Text>
+        ))}
+      </Box>
+      <Box>
+        <Text color="cyan" bold>To: </Text>
+        <Text wrap="truncate-start">{destination}</Text>
+        {!progress && <Text color="gray">█</Text>}
+      </Box>
+      <Box flexDirection="column" marginTop={1}>
+        {progress ? (
+          <>
+            <Text>
+              <Text color="green">{'█'.repeat(filled)}</Text>
+              <Text color="gray">{'░'.repeat(barWidth - filled)}</Text>
+              {" "}{progress.done} of {progress.total}
+            </Text>
+            <Text color="gray" wrap="truncate">{progress.done < progress.total ? 'Rendering' : 'Writing'} {progress.session.summary}</Text>
+          </>
+        ) : (
+          <>
+            {statusMessage && <Text color="red">{statusMessage}</Text>}
+            <Text color="gray">↑/↓ to choose the format, type to edit the path, Enter to export, Esc to cancel</Text>
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+const ReaderView: React.FC<{
+  reader: ReaderState;
+  lines: TranscriptLine[];
+  height: number;
+  statusMessage?: string;
+  statusError?: boolean;
+}> = ({ reader, lines, height, statusMessage, statusError }) => (
+  <Box flexDirection="column">
+    <Text color="cyan" bold wrap="truncate">{reader.title}</Text>
+    <Box flexDirection="column" height={height}>
+      <TranscriptLines 
+        document={reader.document} 
+        lines={lines} 
+        offset={reader.offset} 
+        height={height} 
+        selectedBlock={reader.selectedBlock} 
+        match={reader.match} 
+      />
+    </Box>
+    {reader.searchInput !== undefined ? (
+      <Text>
+        <Text color="cyan">/</Text>{reader.searchInput}<Text color="gray">█</Text>
+      </Text>
+    ) : statusMessage ? (
+      <Text color={statusError ? "red" : "green"} bold>{statusMessage}</Text>
+    ) : (
+      <Text color="gray" wrap="truncate">
+        ↑/↓ PgUp/PgDn scroll, n/p turns, Tab tool, →/← expand, o all, / search, Enter copy, Esc back · line {reader.offset + 1} of {lines.length}
+      </Text>
+    )}
+  </Box>
+);
+
+const LOADING_PREVIEW_DOCUMENT = new TranscriptDocument('Loading preview…');
+const LOADING_PREVIEW: PreviewState = {
+  key: '',
+  document: LOADING_PREVIEW_DOCUMENT,
+  lines: LOADING_PREVIEW_DOCUMENT.getVisibleLines(new Set()),
+  offset: 0
+};
+
+interface LineStyle {
+  color?: string;
+  backgroundColor?: string;
+  bold?: boolean;
+  dimColor?: boolean;
+}
+
+/**
+ * A window of a transcript, with headings, code and collapsible blocks
+ * told apart by color
+ */
+const TranscriptLines: React.FC<{
+  document: TranscriptDocument;
+  lines: TranscriptLine[];
+  offset: number;
+  height: number;
+  selectedBlock?: number;
+  match?: number;
+}> = ({ document, lines, offset, height, selectedBlock, match }) => {
+  const styles = useMemo(() => getLineStyles(document.lines), [document]);
+  
+  return (
+    <>
+      {lines.slice(offset, offset + height).map((line, index) => {
+        let style = line.block !== undefined ? { color: 'magenta' } : styles[line.source];
+        if (line.block !== undefined && line.block === selectedBlock) {
+          style = { color: 'black', backgroundColor: 'cyan' };
+        } else if (line.source === match) {
+          style = { color: 'black', backgroundColor: 'yellow' };
+        }
+        
+        return (
+          <Text key={offset + index} wrap="truncate" {...style}>
+            {'  '.repeat(line.depth)}{line.text || ' '}
+          </Text>
+        );
+      })}
+    </>
+  );
+};
+
+function getLineStyles(lines: string[]): LineStyle[] {
+  let inCode = false;
+  
+  return lines.map(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCode = !inCode;
+      return { color: 'gray', dimColor: true };
+    }
+    if (inCode) {
+      return { color: 'green' };
+    }
+    if (/^#{1,6} /.test(line)) {
+      return { color: 'cyan', bold: true };
+    }
+    return {};
+  });
+}
+
+/**
+ * Word a clipboard result for the status line, naming the backend used
+ */
+function describeCopy(result: ClipboardResult, lineCount: number): ActionResult {
+  if (!result.success) {
+    return { success: false, message: `Copy failed: ${result.error}` };
+  }
+  if (result.file) {
+    return { success: true, message: `📋 No clipboard found, saved ${lineCount} lines to ${makeRelativeToHome(result.file)}` };
+  }
+  return { success: true, message: `📋 Copied ${lineCount} lines to clipboard with ${result.backend}` };
+}
+
+/**
+ * Find the rendered line holding a search match, trying the match with some
+ * of its context first so a common word lands on the right message
+ */
+function findResultLine(lines: string[], result: SearchResult): number {
+  const { snippet, highlight } = result;
+  const around = (before: number, after: number) => snippet
+    .slice(Math.max(0, highlight.start - before), highlight.end + after)
+    .replace(/^…|…$/g, '')
+    .trim();
+  const needles = [around(30, 30), around(0, 30), around(0, 0)]
+    .filter(Boolean)
+    .map(needle => needle.toLowerCase());
+
+  const collapsed = lines.map(line => line.replace(/\s+/g, ' ').toLowerCase());
+  for (const needle of needles) {
+    const index = collapsed.findIndex(line => line.includes(needle));
+    if (index !== -1) {
+      return index;
+    }
+  }
+
+  return 0;
+}
+
 const TitleHeader: React.FC = () => (
   <Box flexDirection="column" marginBottom={1}>
     <Text color="cyan">
@@ -464,21 +1593,46 @@ const TitleHeader: React.FC = () => (
   </Box>
 );
 
+const ListPosition: React.FC<{ window: ListWindow; length: number }> = ({ window, length }) => (
+  window.end - window.start < length ? (
+    <Text color="gray">
+      Showing {window.start + 1}–{window.end} of {length} · PgUp/PgDn, Home/End
+    </Text>
+  ) : null
+);
+
 const FooterControls: React.FC<{
   filter: string;
   itemCount: number;
+  redact: boolean;
+  invalidFilterTerms?: string[];
+  hasMore?: boolean;
+  markedCount?: number;
+  sortBy?: SessionSortKey;
   showBackOption?: boolean;
-}> = ({ filter, itemCount, showBackOption = false }) => (
+  showSessionOptions?: boolean;
+  showPreviewOption?: boolean;
+}> = ({ filter, itemCount, redact, invalidFilterTerms = [], hasMore = false, markedCount = 0, sortBy, showBackOption = false, showSessionOptions = false, showPreviewOption = false }) => (
   <Box flexDirection="column" marginTop={1}>
     {filter && (
-      <Text color="yellow">Filter: {filter}</Text>
+      <Text color="yellow">
+        Filter: {filter}
+        {invalidFilterTerms.length > 0 && <Text color="red"> · not understood: {invalidFilterTerms.join(' ')}</Text>}
+      </Text>
     )}
     <Text color="gray">
-      Use ↑/↓ arrows to navigate, type to filter, Enter to select
+      Use ↑/↓ arrows to navigate, type to filter, Enter to select, Ctrl+F to search all sessions
+      {showSessionOptions && ", Space to mark for export, → to read, Ctrl+O to sort"}
+      {showPreviewOption && ", Tab to scroll the preview"}
       {showBackOption && ", Esc to go back"}
       {!showBackOption && ", Esc to quit"}
     </Text>
-    <Text color="gray">{itemCount} items</Text>
+    <Text color="gray">
+      {itemCount} items{hasMore && ", more load as you scroll"}
+      {markedCount > 0 && <Text color="yellow"> · {markedCount} marked, Enter to export</Text>}
+      {sortBy && <> · sorted by {sortBy}</>}
+      {" "}· Ctrl+R redaction: {redact ? <Text color="green">on</Text> : 'off'}
+    </Text>
   </Box>
 );
 
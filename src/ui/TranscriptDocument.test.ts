@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { TranscriptDocument, findVisibleIndex, findVisibleLine } from './TranscriptDocument.js';
+
+describe('TranscriptDocument', () => {
+  const markdown = [
+    '### User',
+    'Run the tests',
+    '### Assistant',
+    '<details><summary>Bash: npm test</summary>',
+    '',
+    '```',
+    '<details>not a block</details>',
+    '### User',
+    '```',
+    '<details><summary>Output &amp; errors</summary>',
+    '3 failed',
+    '</details>',
+    '</details>',
+    '### User',
+    'Fix them'
+  ].join('\n');
+
+  const document = new TranscriptDocument(markdown);
+
+  it('should find blocks and their nesting', () => {
+    expect(document.blocks).toEqual([
+      { start: 3, end: 12, title: 'Bash: npm test', parent: undefined },
+      { start: 9, end: 11, title: 'Output & errors', parent: 0 }
+    ]);
+  });
+
+  it('should only count user headings outside blocks and code as turns', () => {
+    expect(document.turns).toEqual([0, 13]);
+  });
+
+  it('should show collapsed blocks as a single line', () => {
+    const lines = document.getVisibleLines(new Set());
+
+    expect(lines.map(line => line.text)).toEqual([
+      '### User',
+      'Run the tests',
+      '### Assistant',
+      '▸ Bash: npm test (8 lines)',
+      '### User',
+      'Fix them'
+    ]);
+    expect(lines[3]).toMatchObject({ source: 3, depth: 0, block: 0 });
+  });
+
+  it('should indent the content of expanded blocks', () => {
+    const lines = document.getVisibleLines(new Set([0, 1]));
+
+    expect(lines.find(line => line.text === '▾ Output & errors')).toMatchObject({ depth: 1, block: 1 });
+    expect(lines.find(line => line.text === '3 failed')).toMatchObject({ source: 10, depth: 2 });
+    expect(lines.some(line => line.text === '</details>')).toBe(false);
+    expect(lines[lines.length - 1]).toMatchObject({ text: 'Fix them', depth: 0 });
+  });
+
+  it('should expand every block around a line', () => {
+    expect([...document.reveal(new Set(), 10)].sort()).toEqual([0, 1]);
+    expect([...document.reveal(new Set([1]), 14)]).toEqual([1]);
+  });
+
+  it('should search case-insensitively and wrap around', () => {
+    expect(document.search('FAILED')).toBe(10);
+    expect(document.search('run the', 5)).toBe(1);
+    expect(document.search('missing')).toBeUndefined();
+  });
+});
+
+describe('findVisibleIndex', () => {
+  const document = new TranscriptDocument('a\n<details><summary>Block</summary>\nhidden\n</details>\nb');
+
+  it('should point at the collapsed block hiding a line', () => {
+    const lines = document.getVisibleLines(new Set());
+
+    expect(findVisibleIndex(lines, 2)).toBe(1);
+    expect(findVisibleIndex(lines, 4)).toBe(2);
+  });
+});
+
+describe('findVisibleLine', () => {
+  const lines = new TranscriptDocument('### User\na\n### User\nb').getVisibleLines(new Set());
+  const isTurn = (line: { text: string }) => line.text === '### User';
+
+  it('should search forwards and backwards from a line', () => {
+    expect(findVisibleLine(lines, 0, 1, isTurn)).toBe(2);
+    expect(findVisibleLine(lines, 3, -1, isTurn)).toBe(2);
+    expect(findVisibleLine(lines, 2, 1, isTurn)).toBeUndefined();
+  });
+});
\ No newline at end of file
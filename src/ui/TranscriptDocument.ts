@@ -0,0 +1,183 @@
+const DETAILS_OPEN = /^<details>/;
+const DETAILS_CLOSE = /^<\/details>/;
+const SUMMARY = /<summary>(.*?)(?:<\/summary>|$)/;
+const USER_HEADING = /^#+ User$/;
+const FENCE = /^(`{3,}|~{3,})/;
+
+export interface TranscriptBlock {
+  // Lines of the opening `<details>` and the closing `</details>`
+  start: number;
+  end: number;
+  title: string;
+  parent?: number;
+}
+
+export interface TranscriptLine {
+  text: string;
+  // Line of the markdown this was taken from
+  source: number;
+  depth: number;
+  // Set on the line standing in for a block's `<details><summary>`
+  block?: number;
+}
+
+/**
+ * Rendered session markdown, split into lines with the collapsible
+ * `<details>` blocks (tool results, subagent transcripts, alternate paths)
+ * and the user turns located, so it can be read a screen at a time.
+ */
+export class TranscriptDocument {
+  public readonly lines: string[];
+  public readonly blocks: TranscriptBlock[] = [];
+  public readonly turns: number[] = [];
+  private blockStarts: Map<number, number> = new Map();
+  private blockEnds: Set<number> = new Set();
+
+  constructor(markdown: string) {
+    this.lines = markdown.split('\n');
+
+    const open: number[] = [];
+    let fence: string | undefined;
+
+    this.lines.forEach((line, index) => {
+      // Tool output can contain anything, including `<details>`, so only
+      // markup outside code fences counts
+      if (fence) {
+        const closing = line.trim();
+        if (closing.length >= fence.length && closing === fence[0].repeat(closing.length)) {
+          fence = undefined;
+        }
+        return;
+      }
+
+      const opening = line.match(FENCE);
+      if (opening) {
+        fence = opening[1];
+        return;
+      }
+
+      if (DETAILS_OPEN.test(line)) {
+        this.blockStarts.set(index, this.blocks.length);
+        open.push(this.blocks.length);
+        this.blocks.push({
+          start: index,
+          end: this.lines.length - 1,
+          title: getSummaryTitle(line),
+          parent: open.length > 1 ? open[open.length - 2] : undefined
+        });
+      } else if (DETAILS_CLOSE.test(line) && open.length > 0) {
+        this.blocks[open.pop()!].end = index;
+        this.blockEnds.add(index);
+      } else if (open.length === 0 && USER_HEADING.test(line)) {
+        this.turns.push(index);
+      }
+    });
+  }
+
+  /**
+   * The lines to show with the given blocks expanded. A collapsed block is a
+   * single line with its title; an expanded one shows its title and content.
+   */
+  public getVisibleLines(expanded: ReadonlySet<number>): TranscriptLine[] {
+    const visible: TranscriptLine[] = [];
+    let depth = 0;
+
+    for (let index = 0; index < this.lines.length; index++) {
+      const block = this.blockStarts.get(index);
+
+      if (block !== undefined) {
+        const { title, end } = this.blocks[block];
+        if (expanded.has(block)) {
+          visible.push({ text: `▾ ${title}`, source: index, depth, block });
+          depth++;
+        } else {
+          visible.push({ text: `▸ ${title} (${end - index - 1} lines)`, source: index, depth, block });
+          index = end;
+        }
+        continue;
+      }
+
+      if (this.blockEnds.has(index)) {
+        depth = Math.max(0, depth - 1);
+        continue;
+      }
+
+      visible.push({ text: this.lines[index], source: index, depth });
+    }
+
+    return visible;
+  }
+
+  /**
+   * Expand whatever hides a line, keeping the blocks already expanded
+   */
+  public reveal(expanded: ReadonlySet<number>, source: number): Set<number> {
+    const revealed = new Set(expanded);
+    this.blocks.forEach((block, index) => {
+      if (block.start < source && source <= block.end) {
+        revealed.add(index);
+      }
+    });
+    return revealed;
+  }
+
+  /**
+   * Find the next line containing `query`, case-insensitively, starting at
+   * `from` and wrapping around to the top
+   */
+  public search(query: string, from: number = 0): number | undefined {
+    const needle = query.toLowerCase();
+    const start = Math.max(0, Math.min(from, this.lines.length));
+
+    for (let step = 0; step < this.lines.length; step++) {
+      const index = (start + step) % this.lines.length;
+      if (this.lines[index].toLowerCase().includes(needle)) {
+        return index;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Index of the visible line showing `source`, or of the collapsed block
+ * hiding it
+ */
+export function findVisibleIndex(lines: TranscriptLine[], source: number): number {
+  let found = 0;
+  for (let index = 0; index < lines.length && lines[index].source <= source; index++) {
+    found = index;
+  }
+  return found;
+}
+
+/**
+ * Index of the next (or, with `direction` -1, previous) visible line after
+ * `from` that satisfies `predicate`
+ */
+export function findVisibleLine(
+  lines: TranscriptLine[],
+  from: number,
+  direction: 1 | -1,
+  predicate: (line: TranscriptLine) => boolean
+): number | undefined {
+  for (let index = from + direction; index >= 0 && index < lines.length; index += direction) {
+    if (predicate(lines[index])) {
+      return index;
+    }
+  }
+  return undefined;
+}
+
+function getSummaryTitle(line: string): string {
+  const summary = line.match(SUMMARY)?.[1] || 'Details';
+  return summary
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
\ No newline at end of file
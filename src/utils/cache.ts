@@ -0,0 +1,35 @@
+/**
+ * A map that holds at most `capacity` entries, dropping the one used least
+ * recently when a new one is added
+ */
+export class LruCache<K, V> {
+  private capacity: number;
+  private entries: Map<K, V> = new Map();
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  public get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Maps keep insertion order, so the first key is the least recent
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  public set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { copyToClipboard, copyWithOsc52, getClipboardType, isClipboardAvailable, registerClipboardBackend } from './clipboard.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('clipboard utilities', () => {
+  let tmpDir: string;
+  let binDir: string;
+
+  const terminal = (isTTY = true) => {
+    const written: string[] = [];
+    return { written, isTTY, write: (data: string) => written.push(data) };
+  };
+
+  // A stand-in for a clipboard program that records its arguments and input
+  const stub = (name: string, exitCode = 0) => {
+    const script = `#!/bin/sh\necho "$@" > "${tmpDir}/${name}.args"\n/bin/cat > "${tmpDir}/${name}.in"\nexit ${exitCode}\n`;
+    fs.writeFileSync(path.join(binDir, name), script, { mode: 0o755 });
+  };
+  const received = (name: string) => fs.readFileSync(path.join(tmpDir, `${name}.in`), 'utf8');
+
+  const options = (env: NodeJS.ProcessEnv = {}, output = terminal(false)) => ({
+    env: { PATH: binDir, CC2MD_CLIPBOARD_FILE: path.join(tmpDir, 'clipboard.md'), ...env },
+    output
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-clipboard-'));
+    binDir = path.join(tmpDir, 'bin');
+    fs.mkdirSync(binDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('copyToClipboard', () => {
+    it('should use the first detected backend', async () => {
+      stub('xsel');
+      stub('xclip');
+
+      const result = await copyToClipboard('hello', options({ DISPLAY: ':0' }));
+
+      expect(result).toEqual({ success: true, backend: 'xsel' });
+      expect(received('xsel')).toBe('hello');
+      expect(fs.readFileSync(path.join(tmpDir, 'xsel.args'), 'utf8').trim()).toBe('--clipboard --input');
+    });
+
+    it('should only detect programs whose display is set', async () => {
+      stub('wl-copy');
+      stub('xsel');
+
+      expect((await copyToClipboard('hello', options({ WAYLAND_DISPLAY: 'wayland-0' }))).backend).toBe('wl-copy');
+      expect((await copyToClipboard('hello', options({ DISPLAY: ':0' }))).backend).toBe('xsel');
+    });
+
+    it('should fall through to the next backend when one fails', async () => {
+      stub('xsel', 1);
+      stub('xclip');
+
+      const result = await copyToClipboard('hello', options({ DISPLAY: ':0' }));
+
+      expect(result).toEqual({ success: true, backend: 'xclip' });
+      expect(received('xclip')).toBe('hello');
+    });
+
+    it('should load the tmux buffer inside tmux', async () => {
+      stub('tmux');
+
+      const result = await copyToClipboard('hello', options({ TMUX: '/tmp/tmux-0/default,1,0' }));
+
+      expect(result.backend).toBe('tmux');
+      expect(fs.readFileSync(path.join(tmpDir, 'tmux.args'), 'utf8').trim()).toBe('load-buffer -w -');
+    });
+
+    it('should use OSC 52 over SSH when there is no other clipboard', async () => {
+      const output = terminal();
+
+      const result = await copyToClipboard('hi', options({ SSH_TTY: '/dev/pts/0' }, output));
+
+      expect(result).toEqual({ success: true, backend: 'osc52' });
+      expect(output.written).toEqual(['\x1b]52;c;aGk=\x07']);
+    });
+
+    it('should write the fallback file when nothing else is available', async () => {
+      const file = path.join(tmpDir, 'clipboard.md');
+
+      const result = await copyToClipboard('hello', options({ DISPLAY: ':0' }));
+
+      expect(result).toEqual({ success: true, backend: 'file', file });
+      expect(fs.readFileSync(file, 'utf8')).toBe('hello');
+    });
+
+    it('should use the backend named in CC2MD_CLIPBOARD', async () => {
+      stub('xsel');
+      stub('tmux');
+
+      const result = await copyToClipboard('hello', options({ DISPLAY: ':0', CC2MD_CLIPBOARD: 'tmux' }));
+
+      expect(result.backend).toBe('tmux');
+      expect(received('tmux')).toBe('hello');
+    });
+
+    it('should report a failure of the chosen backend instead of falling back', async () => {
+      const result = await copyToClipboard('hello', { ...options(), backend: 'xsel' });
+
+      expect(result.success).toBe(false);
+      expect(result.backend).toBe('xsel');
+    });
+
+    it('should reject unknown backends', async () => {
+      const result = await copyToClipboard('hello', options({ CC2MD_CLIPBOARD: 'carrier-pigeon' }));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unknown clipboard backend 'carrier-pigeon'");
+    });
+
+    it('should try registered backends before the file', async () => {
+      const copied: string[] = [];
+      registerClipboardBackend({
+        name: 'test-backend',
+        detect: ({ env }) => env.TEST_CLIPBOARD === '1',
+        copy: async (text) => {
+          copied.push(text);
+          return { success: true, backend: 'test-backend' };
+        }
+      });
+
+      const result = await copyToClipboard('hello', options({ TEST_CLIPBOARD: '1' }));
+
+      expect(result.backend).toBe('test-backend');
+      expect(copied).toEqual(['hello']);
+    });
+  });
+
+  describe('getClipboardType', () => {
+    it('should name the backend that would be used', async () => {
+      stub('wl-copy');
+
+      expect(getClipboardType(options({ WAYLAND_DISPLAY: 'wayland-0' }))).toBe('wl-copy');
+      expect(getClipboardType(options({ CC2MD_CLIPBOARD: 'osc52' }))).toBe('osc52');
+      expect(getClipboardType(options())).toBe('file');
+      expect(await isClipboardAvailable(options())).toBe(false);
+    });
+  });
+
+  describe('copyWithOsc52', () => {
+    it('should send the text base64 encoded', () => {
+      const output = terminal();
+
+      expect(copyWithOsc52('héllo', output, {})).toEqual({ success: true });
+      expect(output.written).toEqual([`\x1b]52;c;${Buffer.from('héllo').toString('base64')}\x07`]);
+    });
+
+    it('should wrap the sequence for tmux', () => {
+      const output = terminal();
+
+      copyWithOsc52('hi', output, { TMUX: '/tmp/tmux-0/default,1,0' });
+
+      expect(output.written[0]).toBe('\x1bPtmux;\x1b\x1b]52;c;aGk=\x07\x1b\\');
+    });
+
+    it('should fail when stdout is not a terminal', () => {
+      const output = terminal(false);
+
+      expect(copyWithOsc52('hi', output).success).toBe(false);
+      expect(output.written).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
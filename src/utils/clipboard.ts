@@ -1,142 +1,231 @@
 import { ClipboardResult } from '../types/index.js';
+import { CLIPBOARD_SETTINGS } from '../types/constants.js';
+import Debug from 'debug';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const debug = Debug('session-to-md:clipboard');
 
 /**
- * Copy text to clipboard using system clipboard
+ * Where a backend runs: the environment to detect programs in (and run them
+ * with) and the terminal OSC 52 writes to
  */
-export async function copyToClipboard(text: string): Promise<ClipboardResult> {
-  try {
-    // Try to use clipboardy module
-    const clipboardy = await import('clipboardy');
-    await clipboardy.default.write(text);
-    return { success: true };
-  } catch (error) {
-    // If clipboardy fails, try using child_process with pbcopy (macOS)
-    try {
-      const { spawn } = await import('child_process');
-      const pbcopy = spawn('pbcopy');
-      
-      return new Promise((resolve) => {
-        pbcopy.stdin.write(text);
-        pbcopy.stdin.end();
-        
-        pbcopy.on('close', (code) => {
-          if (code === 0) {
-            resolve({ success: true });
-          } else {
-            resolve({ 
-              success: false, 
-              error: `pbcopy exited with code ${code}` 
-            });
-          }
-        });
-        
-        pbcopy.on('error', (err) => {
-          resolve({ 
-            success: false, 
-            error: `pbcopy error: ${err.message}` 
-          });
-        });
-      });
-    } catch (pbcopyError) {
-      // If pbcopy fails, try xclip (Linux)
+export interface ClipboardContext {
+  env: NodeJS.ProcessEnv;
+  output: { write(data: string): unknown; isTTY?: boolean };
+}
+
+export interface ClipboardBackend {
+  name: string;
+  // Whether to try this backend when none is chosen explicitly
+  detect(context: ClipboardContext): boolean;
+  copy(text: string, context: ClipboardContext): Promise<ClipboardResult>;
+}
+
+export interface ClipboardOptions extends Partial<ClipboardContext> {
+  // Use this backend instead of detecting one; overrides $CC2MD_CLIPBOARD
+  backend?: string;
+}
+
+/**
+ * Backends in the order they are tried. Native clipboards come first; over
+ * SSH none of them are detected, so tmux and then OSC 52 take over, and the
+ * file always works.
+ */
+const backends: ClipboardBackend[] = [
+  commandBackend('pbcopy', [], () => process.platform === 'darwin'),
+  commandBackend('wl-copy', [], env => !!env.WAYLAND_DISPLAY),
+  commandBackend('xsel', ['--clipboard', '--input'], env => !!env.DISPLAY),
+  commandBackend('xclip', ['-selection', 'clipboard'], env => !!env.DISPLAY),
+  {
+    name: 'clipboardy',
+    detect: () => process.platform === 'win32',
+    copy: async (text) => {
       try {
-        const { spawn } = await import('child_process');
-        const xclip = spawn('xclip', ['-selection', 'clipboard']);
-        
-        return new Promise((resolve) => {
-          xclip.stdin.write(text);
-          xclip.stdin.end();
-          
-          xclip.on('close', (code) => {
-            if (code === 0) {
-              resolve({ success: true });
-            } else {
-              resolve({ 
-                success: false, 
-                error: `xclip exited with code ${code}` 
-              });
-            }
-          });
-          
-          xclip.on('error', (err) => {
-            resolve({ 
-              success: false, 
-              error: `xclip error: ${err.message}` 
-            });
-          });
-        });
-      } catch (xclipError) {
-        // If all clipboard methods fail, return error
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return { 
-          success: false, 
-          error: `Unable to copy to clipboard: ${errorMessage}` 
-        };
+        const clipboardy = await import('clipboardy');
+        await clipboardy.default.write(text);
+        return { success: true, backend: 'clipboardy' };
+      } catch (error) {
+        return { success: false, backend: 'clipboardy', error: error instanceof Error ? error.message : String(error) };
       }
     }
+  },
+  // -w also hands the buffer to the outer terminal's clipboard when tmux's set-clipboard allows it
+  commandBackend('tmux', ['load-buffer', '-w', '-'], env => !!env.TMUX),
+  {
+    name: 'osc52',
+    detect: ({ env, output }) => !!output.isTTY && !!(env.SSH_TTY || env.SSH_CONNECTION),
+    copy: async (text, { env, output }) => ({ ...copyWithOsc52(text, output, env), backend: 'osc52' })
+  },
+  {
+    name: 'file',
+    detect: () => true,
+    copy: async (text, { env }) => {
+      const file = getClipboardFile(env);
+      try {
+        await fs.promises.writeFile(file, text, 'utf8');
+        return { success: true, backend: 'file', file };
+      } catch (error) {
+        return { success: false, backend: 'file', error: `Could not write ${file}: ${error instanceof Error ? error.message : error}` };
+      }
+    }
+  }
+];
+
+/**
+ * Add a backend, tried before the file fallback
+ */
+export function registerClipboardBackend(backend: ClipboardBackend): void {
+  const existing = backends.findIndex(candidate => candidate.name === backend.name);
+  if (existing !== -1) {
+    backends.splice(existing, 1);
   }
+  backends.splice(backends.length - 1, 0, backend);
+}
+
+export function getClipboardBackends(): readonly ClipboardBackend[] {
+  return backends;
 }
 
 /**
- * Check if clipboard functionality is available
+ * Copy text with the backend named in `options.backend` or $CC2MD_CLIPBOARD,
+ * or else with the first detected backend that works. The result names the
+ * backend that was used.
  */
-export async function isClipboardAvailable(): Promise<boolean> {
-  try {
-    // Try clipboardy
-    await import('clipboardy');
-    return true;
-  } catch {
-    // Try pbcopy (macOS)
-    try {
-      const { spawn } = await import('child_process');
-      const pbcopy = spawn('which', ['pbcopy']);
-      
-      return new Promise((resolve) => {
-        pbcopy.on('close', (code) => {
-          if (code === 0) {
-            resolve(true);
-          } else {
-            // Try xclip (Linux)
-            const xclip = spawn('which', ['xclip']);
-            xclip.on('close', (code) => {
-              resolve(code === 0);
-            });
-            xclip.on('error', () => {
-              resolve(false);
-            });
-          }
-        });
-        
-        pbcopy.on('error', () => {
-          resolve(false);
-        });
-      });
-    } catch {
-      return false;
+export async function copyToClipboard(text: string, options: ClipboardOptions = {}): Promise<ClipboardResult> {
+  const context = getContext(options);
+  const requested = options.backend || context.env[CLIPBOARD_SETTINGS.BACKEND_VARIABLE];
+
+  if (requested) {
+    const backend = backends.find(candidate => candidate.name === requested);
+    if (!backend) {
+      return { 
+        success: false, 
+        error: `Unknown clipboard backend '${requested}'. Expected one of: ${backends.map(candidate => candidate.name).join(', ')}` 
+      };
     }
+    return backend.copy(text, context);
   }
+
+  const errors: string[] = [];
+  for (const backend of backends.filter(candidate => candidate.detect(context))) {
+    const result = await backend.copy(text, context);
+    if (result.success) {
+      return result;
+    }
+
+    debug(`Clipboard backend ${backend.name} failed: ${result.error}`);
+    errors.push(`${backend.name}: ${result.error}`);
+  }
+
+  return { success: false, error: errors.join('; ') };
 }
 
 /**
- * Get system clipboard type
+ * Ask the terminal to set the clipboard with an OSC 52 escape sequence. This
+ * works over SSH, but terminals may ignore it, so success only means the
+ * sequence was sent.
  */
-export function getClipboardType(): 'clipboardy' | 'pbcopy' | 'xclip' | 'none' {
-  try {
-    require('clipboardy');
-    return 'clipboardy';
-  } catch {
-    // Check for pbcopy (macOS)
-    if (process.platform === 'darwin') {
-      return 'pbcopy';
-    }
-    
-    // Check for xclip (Linux)
-    if (process.platform === 'linux') {
-      return 'xclip';
+export function copyWithOsc52(
+  text: string,
+  output: ClipboardContext['output'] = process.stdout,
+  env: NodeJS.ProcessEnv = process.env
+): ClipboardResult {
+  if (!output.isTTY) {
+    return { success: false, error: 'OSC 52 needs a terminal on stdout' };
+  }
+
+  const sequence = `\x1b]52;c;${Buffer.from(text, 'utf8').toString('base64')}\x07`;
+  // tmux only passes a sequence on to the outer terminal when it is wrapped, with each ESC doubled
+  output.write(env.TMUX ? `\x1bPtmux;${sequence.replace(/\x1b/g, '\x1b\x1b')}\x1b\\` : sequence);
+  
+  return { success: true };
+}
+
+/**
+ * Check if a real clipboard (anything but the file fallback) is available
+ */
+export async function isClipboardAvailable(options: ClipboardOptions = {}): Promise<boolean> {
+  return getClipboardType(options) !== 'file';
+}
+
+/**
+ * Name the backend copyToClipboard would try first
+ */
+export function getClipboardType(options: ClipboardOptions = {}): string {
+  const context = getContext(options);
+  const requested = options.backend || context.env[CLIPBOARD_SETTINGS.BACKEND_VARIABLE];
+  if (requested) {
+    return requested;
+  }
+
+  return backends.find(backend => backend.detect(context))!.name;
+}
+
+/**
+ * The file the fallback backend writes: $CC2MD_CLIPBOARD_FILE, or one in the
+ * temp directory
+ */
+export function getClipboardFile(env: NodeJS.ProcessEnv = process.env): string {
+  return env[CLIPBOARD_SETTINGS.FILE_VARIABLE] || path.join(os.tmpdir(), CLIPBOARD_SETTINGS.FILE_NAME);
+}
+
+function getContext(options: ClipboardOptions): ClipboardContext {
+  return {
+    env: options.env || process.env,
+    output: options.output || process.stdout
+  };
+}
+
+/**
+ * A backend that pipes the text into a program, detected when the program is
+ * on the PATH and `detect` agrees
+ */
+function commandBackend(
+  command: string,
+  args: string[],
+  detect: (env: NodeJS.ProcessEnv) => boolean
+): ClipboardBackend {
+  return {
+    name: command,
+    detect: ({ env }) => detect(env) && findExecutable(command, env) !== undefined,
+    copy: (text, { env }) => new Promise(resolve => {
+      // xclip and wl-copy stay running to serve the selection, so don't wait
+      // for their output to close, only for the command to exit
+      const child = spawn(command, args, { env, stdio: ['pipe', 'ignore', 'ignore'] });
+      
+      child.on('error', error => resolve({ success: false, backend: command, error: error.message }));
+      child.on('exit', code => resolve(code === 0 
+        ? { success: true, backend: command } 
+        : { success: false, backend: command, error: `${command} exited with code ${code}` }));
+      
+      // A command that exits early would otherwise raise EPIPE here
+      child.stdin.on('error', error => debug(`Writing to ${command}: ${error.message}`));
+      child.stdin.end(text);
+    })
+  };
+}
+
+function findExecutable(command: string, env: NodeJS.ProcessEnv): string | undefined {
+  const extensions = process.platform === 'win32' ? (env.PATHEXT || '.EXE;.CMD;.BAT').split(';') : [''];
+  
+  for (const dir of (env.PATH || '').split(path.delimiter).filter(Boolean)) {
+    for (const extension of extensions) {
+      const candidate = path.join(dir, command + extension);
+      try {
+        fs.accessSync(candidate, fs.constants.X_OK);
+        if (fs.statSync(candidate).isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not in this directory
+      }
     }
-    
-    return 'none';
   }
+  
+  return undefined;
 }
 
 /**
@@ -157,9 +246,6 @@ export async function copyToClipboardWithFallback(text: string): Promise<void> {
  * Write text to a file as a fallback to clipboard
  */
 export async function writeToFile(text: string, filename: string): Promise<void> {
-  const fs = await import('fs');
-  const path = await import('path');
-  
   const outputPath = path.resolve(filename);
   fs.writeFileSync(outputPath, text, 'utf8');
   console.log(`Output written to: ${outputPath}`);
@@ -172,7 +258,9 @@ export async function smartCopy(text: string, fallbackFile?: string): Promise<vo
   const clipboardResult = await copyToClipboard(text);
   
   if (clipboardResult.success) {
-    console.log('📋 Copied to clipboard');
+    console.log(clipboardResult.file 
+      ? `📋 No clipboard found, wrote ${clipboardResult.file}` 
+      : `📋 Copied to clipboard with ${clipboardResult.backend}`);
     return;
   }
   
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createStructuredPatch, formatHunkHeader } from './diff.js';
+
+const lines = (count: number, change?: number) =>
+  Array.from({ length: count }, (_, index) => index === change ? `changed ${index + 1}` : `line ${index + 1}`).join('\n') + '\n';
+
+describe('createStructuredPatch', () => {
+  it('should return no hunks for equal texts', () => {
+    expect(createStructuredPatch('a\nb\n', 'a\nb\n')).toEqual([]);
+  });
+
+  it('should surround a change with context lines', () => {
+    expect(createStructuredPatch(lines(10), lines(10, 4))).toEqual([{
+      oldStart: 2,
+      oldLines: 7,
+      newStart: 2,
+      newLines: 7,
+      lines: [' line 2', ' line 3', ' line 4', '-line 5', '+changed 5', ' line 6', ' line 7', ' line 8']
+    }]);
+  });
+
+  it('should split changes far apart into separate hunks', () => {
+    const oldText = lines(20);
+    const newText = lines(20, 1).replace('line 18\n', 'changed 18\n');
+
+    const hunks = createStructuredPatch(oldText, newText);
+
+    expect(hunks.map(hunk => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines])).toEqual([
+      [1, 5, 1, 5],
+      [15, 6, 15, 6]
+    ]);
+  });
+
+  it('should count added and removed lines on their own side only', () => {
+    const [hunk] = createStructuredPatch('a\nb\nc\n', 'a\nb\nx\ny\nc\n');
+
+    expect(hunk).toEqual({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 5, lines: [' a', ' b', '+x', '+y', ' c'] });
+  });
+
+  it('should keep lines that moved between changes as context', () => {
+    const [hunk] = createStructuredPatch('a\nb\nc\nd\n', 'x\nb\nc\ny\n');
+
+    expect(hunk.lines).toEqual(['-a', '+x', ' b', ' c', '-d', '+y']);
+  });
+
+  it('should start an empty side at the line before it', () => {
+    expect(createStructuredPatch('', 'a\nb\n')).toEqual([{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2, lines: ['+a', '+b'] }]);
+    expect(createStructuredPatch('a\nb\n', '')).toEqual([{ oldStart: 1, oldLines: 2, newStart: 0, newLines: 0, lines: ['-a', '-b'] }]);
+  });
+
+  it('should mark a last line that has no newline', () => {
+    expect(createStructuredPatch('a\nb', 'a\nb\n')).toEqual([{
+      oldStart: 1,
+      oldLines: 2,
+      newStart: 1,
+      newLines: 2,
+      lines: [' a', '-b', '\\ No newline at end of file', '+b']
+    }]);
+  });
+});
+
+describe('formatHunkHeader', () => {
+  it('should give the start and length of both sides', () => {
+    expect(formatHunkHeader({ oldStart: 3, oldLines: 7, newStart: 3, newLines: 8, lines: [] })).toBe('@@ -3,7 +3,8 @@');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { StructuredPatch } from '../types/index.js';
+import { DIFF_SETTINGS } from '../types/constants.js';
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+interface DiffLine {
+  // ' ' for unchanged lines, '-' for removed and '+' for added ones
+  op: ' ' | '-' | '+';
+  // The line with its newline, so a last line without one differs from the
+  // same text with one
+  text: string;
+}
+
+/**
+ * Split text into lines, each keeping its newline
+ */
+function splitLines(text: string): string[] {
+  return text ? text.split(/(?<=\n)/) : [];
+}
+
+/**
+ * Line by line differences between two texts, matching the longest run of
+ * common lines
+ */
+function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ op: ' ' as const, text })),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ op: ' ' as const, text }))
+  ];
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const removed = oldLines.map(text => ({ op: '-' as const, text }));
+  const added = newLines.map(text => ({ op: '+' as const, text }));
+  if (oldLines.length === 0 || newLines.length === 0 || oldLines.length * newLines.length > DIFF_SETTINGS.MAX_COMPARISONS) {
+    return [...removed, ...added];
+  }
+
+  // common[i * width + j] is the length of the longest common run of
+  // oldLines from i and newLines from j
+  const width = newLines.length + 1;
+  const common = new Uint32Array((oldLines.length + 1) * width);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i * width + j] = oldLines[i] === newLines[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ op: ' ', text: oldLines[i++] });
+      j++;
+    } else if (common[(i + 1) * width + j] >= common[i * width + j + 1]) {
+      result.push(removed[i++]);
+    } else {
+      result.push(added[j++]);
+    }
+  }
+  return [...result, ...removed.slice(i), ...added.slice(j)];
+}
+
+/**
+ * The changes between two texts as unified diff hunks, in the shape Claude
+ * Code records for edits. A last line without a newline is followed by the
+ * marker unified diffs use for it.
+ */
+export function createStructuredPatch(
+  oldText: string,
+  newText: string,
+  context: number = DIFF_SETTINGS.CONTEXT_LINES
+): StructuredPatch[] {
+  const lines = diffLines(oldText, newText);
+  const changes = lines.flatMap((line, index) => line.op === ' ' ? [] : [index]);
+  const hunks: StructuredPatch[] = [];
+
+  let index = 0;
+  while (index < changes.length) {
+    // Changes separated by no more than twice the context share a hunk
+    let last = index;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= context * 2 + 1) {
+      last++;
+    }
+
+    const start = Math.max(0, changes[index] - context);
+    const end = Math.min(lines.length, changes[last] + context + 1);
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const oldLines = hunk.filter(line => line.op !== '+').length;
+    const newLines = hunk.filter(line => line.op !== '-').length;
+    const oldBefore = before.filter(line => line.op !== '+').length;
+    const newBefore = before.filter(line => line.op !== '-').length;
+
+    hunks.push({
+      // An empty side starts at the line before it, as in unified diffs
+      oldStart: oldLines === 0 ? oldBefore : oldBefore + 1,
+      oldLines,
+      newStart: newLines === 0 ? newBefore : newBefore + 1,
+      newLines,
+      lines: hunk.flatMap(line => line.text.endsWith('\n')
+        ? [line.op + line.text.slice(0, -1)]
+        : [line.op + line.text, NO_NEWLINE_MARKER])
+    });
+    index = last + 1;
+  }
+
+  return hunks;
+}
+
+/**
+ * The `@@ -a,b +c,d @@` line that starts a hunk in a unified diff
+ */
+export function formatHunkHeader(hunk: StructuredPatch): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { pipeToPager, openInEditor, saveToFile } from './external.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('external programs', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-external-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('pipeToPager', () => {
+    it('should feed the text to the pager on stdin', () => {
+      const output = path.join(tmpDir, 'paged.md');
+
+      const result = pipeToPager('# Title\nBody', `cat > '${output}'`);
+
+      expect(result).toEqual({ success: true, message: 'Viewed 2 lines in cat' });
+      expect(fs.readFileSync(output, 'utf8')).toBe('# Title\nBody');
+    });
+
+    it('should not mind a pager quit before the end', () => {
+      expect(pipeToPager('line\n'.repeat(100000), 'head -1 > /dev/null').success).toBe(true);
+    });
+
+    it('should report a pager that fails', () => {
+      expect(pipeToPager('text', 'sh -c "cat > /dev/null; exit 3"')).toEqual({ success: false, message: 'sh exited with code 3' });
+    });
+
+    it('should report a pager that does not exist', () => {
+      expect(pipeToPager('text', 'cc2md-no-such-pager')).toEqual({ success: false, message: 'cc2md-no-such-pager not found' });
+    });
+  });
+
+  describe('openInEditor', () => {
+    it('should write the file and pass it to the editor', () => {
+      const file = path.join(tmpDir, "it's a session.md");
+      const log = path.join(tmpDir, 'editor.log');
+
+      const result = openInEditor('# Title', file, `sh -c 'cat "$0" > ${log}'`);
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(file, 'utf8')).toBe('# Title');
+      expect(fs.readFileSync(log, 'utf8')).toBe('# Title');
+    });
+
+    it('should report a file that cannot be written', () => {
+      const result = openInEditor('# Title', path.join(tmpDir, 'missing', 'session.md'), 'true');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Could not write');
+    });
+  });
+
+  describe('saveToFile', () => {
+    it('should create missing directories', async () => {
+      const file = path.join(tmpDir, 'nested', 'session.md');
+
+      const result = await saveToFile('a\nb\nc', file);
+
+      expect(result).toMatchObject({ success: true });
+      expect(result.message).toMatch(/^Saved 3 lines to /);
+      expect(fs.readFileSync(file, 'utf8')).toBe('a\nb\nc');
+    });
+
+    it('should report a failed write', async () => {
+      const result = await saveToFile('text', tmpDir);
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { ActionResult } from '../types/index.js';
+import { makeRelativeToHome } from './paths.js';
+import { spawnSync, SpawnSyncReturns } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The pager to show a session in: `$PAGER`, or less
+ */
+export function getPagerCommand(): string {
+  return process.env.PAGER || 'less';
+}
+
+/**
+ * The editor to open a session in: `$VISUAL`, `$EDITOR`, or vi
+ */
+export function getEditorCommand(): string {
+  return process.env.VISUAL || process.env.EDITOR || 'vi';
+}
+
+/**
+ * Feed text to the pager on stdin. This blocks until the pager exits, so the
+ * caller has to hand the terminal over first.
+ */
+export function pipeToPager(text: string, command: string = getPagerCommand()): ActionResult {
+  const result = spawnSync(command, { shell: true, input: text, stdio: ['pipe', 'inherit', 'inherit'] });
+  return describeExit(command, result, `Viewed ${countLines(text)} lines in ${getProgramName(command)}`);
+}
+
+/**
+ * Write text to `file` and open it in the editor, blocking until the editor
+ * exits. The file is left behind so edits aren't lost.
+ */
+export function openInEditor(text: string, file: string, command: string = getEditorCommand()): ActionResult {
+  try {
+    fs.writeFileSync(file, text, 'utf8');
+  } catch (error) {
+    return { success: false, message: `Could not write ${file}: ${error instanceof Error ? error.message : error}` };
+  }
+
+  const result = spawnSync(`${command} ${quoteShellArgument(file)}`, { shell: true, stdio: 'inherit' });
+  return describeExit(command, result, `Opened ${makeRelativeToHome(file)} in ${getProgramName(command)}`);
+}
+
+/**
+ * Write text to a file, creating its directory if needed
+ */
+export async function saveToFile(text: string, file: string): Promise<ActionResult> {
+  try {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, text, 'utf8');
+    return { success: true, message: `Saved ${countLines(text)} lines to ${makeRelativeToHome(file)}` };
+  } catch (error) {
+    return { success: false, message: `Could not save ${file}: ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+function describeExit(command: string, result: SpawnSyncReturns<Buffer>, success: string): ActionResult {
+  const program = getProgramName(command);
+
+  // A pager that is quit before reading everything closes its stdin early
+  const error = result.error as NodeJS.ErrnoException | undefined;
+  if (error && error.code !== 'EPIPE') {
+    return { success: false, message: `${program} failed: ${error.message}` };
+  }
+  if (result.signal) {
+    return { success: false, message: `${program} was stopped by ${result.signal}` };
+  }
+  // The shell's code for a command it couldn't find
+  if (result.status === 127) {
+    return { success: false, message: `${program} not found` };
+  }
+  if (result.status !== 0) {
+    return { success: false, message: `${program} exited with code ${result.status}` };
+  }
+
+  return { success: true, message: success };
+}
+
+function getProgramName(command: string): string {
+  return path.basename(command.trim().split(/\s+/)[0] || command);
+}
+
+function quoteShellArgument(argument: string): string {
+  return process.platform === 'win32'
+    ? `"${argument}"`
+    : `'${argument.replace(/'/g, `'\\''`)}'`;
+}
+
+function countLines(text: string): number {
+  return text.split('\n').length;
+}
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  listProjectDirectories,
+  findProjectCwd,
+  getProjectDisplayName,
+  findSessionFile,
+  findProjectForDirectory,
+  findLatestSessionFile
+} from './projects.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('projects utilities', () => {
+  let projectsDir: string;
+
+  beforeEach(() => {
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc2md-projects-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectsDir, { recursive: true, force: true });
+  });
+
+  describe('listProjectDirectories', () => {
+    it('should list directories that contain session files', () => {
+      fs.mkdirSync(path.join(projectsDir, '-home-user-app'));
+      fs.writeFileSync(path.join(projectsDir, '-home-user-app', 'a.jsonl'), '');
+      fs.writeFileSync(path.join(projectsDir, '-home-user-app', 'notes.txt'), '');
+      fs.mkdirSync(path.join(projectsDir, '-home-user-empty'));
+      fs.mkdirSync(path.join(projectsDir, '.hidden'));
+
+      const projects = listProjectDirectories(projectsDir);
+
+      expect(projects).toHaveLength(1);
+      expect(projects[0].name).toBe('-home-user-app');
+      expect(projects[0].files).toEqual([path.join(projectsDir, '-home-user-app', 'a.jsonl')]);
+    });
+
+    it('should throw when the projects directory is missing', () => {
+      expect(() => listProjectDirectories(path.join(projectsDir, 'missing'))).toThrow('not found');
+    });
+  });
+
+  describe('findProjectCwd', () => {
+    it('should return the first recorded working directory', async () => {
+      const first = path.join(projectsDir, 'a.jsonl');
+      const second = path.join(projectsDir, 'b.jsonl');
+      fs.writeFileSync(first, '{"type": "summary", "summary": "No cwd here"}\n');
+      fs.writeFileSync(second, '{"type": "user", "cwd": "/work/app"}\n{"type": "user", "cwd": "/work/other"}\n');
+
+      expect(await findProjectCwd([first, second])).toBe('/work/app');
+    });
+
+    it('should return undefined when no message has a cwd', async () => {
+      const file = path.join(projectsDir, 'a.jsonl');
+      fs.writeFileSync(file, '{"type": "summary", "summary": "No cwd here"}\n');
+
+      expect(await findProjectCwd([file])).toBeUndefined();
+    });
+  });
+
+  describe('getProjectDisplayName', () => {
+    it('should prefer the working directory relative to home', () => {
+      expect(getProjectDisplayName('-x', path.join(os.homedir(), 'code', 'app'))).toBe('~/code/app');
+    });
+
+    it('should fall back to decoding the directory name', () => {
+      expect(getProjectDisplayName('-work-my_app')).toBe('/work/my app');
+    });
+  });
+
+  describe('findSessionFile', () => {
+    beforeEach(() => {
+      fs.mkdirSync(path.join(projectsDir, '-home-user-app'));
+      fs.mkdirSync(path.join(projectsDir, '-home-user-other'));
+      for (const id of ['abc123', 'abc456']) {
+        fs.writeFileSync(path.join(projectsDir, '-home-user-app', `${id}.jsonl`), '');
+      }
+      fs.writeFileSync(path.join(projectsDir, '-home-user-other', 'def789.jsonl'), '');
+    });
+
+    it('should find a session by its full id in any project', () => {
+      expect(findSessionFile(projectsDir, 'def789')).toBe(path.join(projectsDir, '-home-user-other', 'def789.jsonl'));
+    });
+
+    it('should accept a prefix that only one session starts with', () => {
+      expect(findSessionFile(projectsDir, 'abc4')).toBe(path.join(projectsDir, '-home-user-app', 'abc456.jsonl'));
+    });
+
+    it('should reject an unknown or ambiguous id', () => {
+      expect(() => findSessionFile(projectsDir, 'xyz')).toThrow('No session found');
+      expect(() => findSessionFile(projectsDir, 'abc')).toThrow('matches 2 sessions');
+    });
+  });
+
+  describe('findProjectForDirectory', () => {
+    beforeEach(() => {
+      fs.mkdirSync(path.join(projectsDir, '-work-app'));
+      fs.writeFileSync(path.join(projectsDir, '-work-app', 'a.jsonl'), '');
+      fs.mkdirSync(path.join(projectsDir, 'renamed'));
+      fs.writeFileSync(path.join(projectsDir, 'renamed', 'b.jsonl'), '{"type": "user", "cwd": "/work/my.site"}\n');
+    });
+
+    it('should find a project by the name derived from the directory', async () => {
+      expect((await findProjectForDirectory(projectsDir, '/work/app')).name).toBe('-work-app');
+    });
+
+    it('should find a project by the working directory its sessions recorded', async () => {
+      expect((await findProjectForDirectory(projectsDir, '/work/my.site')).name).toBe('renamed');
+    });
+
+    it('should look in parent directories only when asked', async () => {
+      expect((await findProjectForDirectory(projectsDir, '/work/app/src', { parents: true })).name).toBe('-work-app');
+      await expect(findProjectForDirectory(projectsDir, '/work/app/src')).rejects.toThrow('No Claude Code sessions');
+    });
+  });
+
+  describe('findLatestSessionFile', () => {
+    it('should pick the file written to most recently', () => {
+      const older = path.join(projectsDir, 'older.jsonl');
+      const newer = path.join(projectsDir, 'newer.jsonl');
+      fs.writeFileSync(older, '');
+      fs.writeFileSync(newer, '');
+      fs.utimesSync(older, new Date('2024-01-02'), new Date('2024-01-02'));
+      fs.utimesSync(newer, new Date('2024-01-03'), new Date('2024-01-03'));
+
+      expect(findLatestSessionFile([newer, older])).toBe(newer);
+      expect(findLatestSessionFile([older, newer])).toBe(newer);
+    });
+
+    it('should throw when there are no sessions', () => {
+      expect(() => findLatestSessionFile([])).toThrow('No sessions found');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { makeRelativeToHome, normalizePath } from './paths.js';
+import { readJsonlFile } from '../parsers/JsonlReader.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ProjectDirectory {
+  name: string;
+  path: string;
+  files: string[];
+}
+
+/**
+ * List the project directories under the Claude projects directory that
+ * contain session files
+ */
+export function listProjectDirectories(projectsDir: string): ProjectDirectory[] {
+  if (!fs.existsSync(projectsDir)) {
+    throw new Error(`Claude projects directory not found: ${projectsDir}`);
+  }
+
+  return fs.readdirSync(projectsDir)
+    .filter(dir => !dir.startsWith('.'))
+    .map(dir => path.join(projectsDir, dir))
+    .filter(dir => fs.statSync(dir).isDirectory())
+    .map(dir => ({
+      name: path.basename(dir),
+      path: dir,
+      files: fs.readdirSync(dir)
+        .filter(file => file.endsWith('.jsonl'))
+        .map(file => path.join(dir, file))
+    }))
+    .filter(project => project.files.length > 0);
+}
+
+/**
+ * Find the working directory a project's sessions ran in, reading only as
+ * far as the first message that records one
+ */
+export async function findProjectCwd(files: string[]): Promise<string | undefined> {
+  for (const file of files) {
+    for await (const data of readJsonlFile(file)) {
+      if (data.cwd) {
+        return data.cwd;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Name to show for a project: its working directory when known, otherwise
+ * the directory name Claude Code derived from it
+ */
+export function getProjectDisplayName(dirName: string, cwd?: string | null): string {
+  return cwd
+    ? makeRelativeToHome(cwd)
+    : dirName.replace(/-/g, '/').replace(/_/g, ' ');
+}
+/**
+ * Find the session file for a session id, or for a prefix of one that only
+ * a single session starts with
+ */
+export function findSessionFile(projectsDir: string, sessionId: string): string {
+  const matches = listProjectDirectories(projectsDir)
+    .flatMap(project => project.files)
+    .filter(file => path.basename(file, '.jsonl').startsWith(sessionId));
+
+  const exact = matches.find(file => path.basename(file, '.jsonl') === sessionId);
+  if (exact) {
+    return exact;
+  }
+  if (matches.length === 0) {
+    throw new Error(`No session found with id ${sessionId}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Session id ${sessionId} matches ${matches.length} sessions, give more of it`);
+  }
+  return matches[0];
+}
+/**
+ * Find the project whose sessions ran in a directory, by the directory name
+ * Claude Code derives from the path or by the working directory its sessions
+ * recorded. With `parents`, the closest enclosing directory that has a
+ * project is used, so a subdirectory of a repository finds the repository's
+ * project.
+ */
+export async function findProjectForDirectory(
+  projectsDir: string,
+  dir: string,
+  options: { parents?: boolean } = {}
+): Promise<ProjectDirectory> {
+  const projects = listProjectDirectories(projectsDir);
+  const cwds = new Map<ProjectDirectory, string | undefined>();
+
+  for (let current = path.resolve(normalizePath(dir)); ; current = path.dirname(current)) {
+    const encoded = current.replace(/[^a-zA-Z0-9]/g, '-');
+    const byName = projects.find(project => project.name === encoded);
+    if (byName) {
+      return byName;
+    }
+
+    for (const project of projects) {
+      if (!cwds.has(project)) {
+        cwds.set(project, await findProjectCwd(project.files));
+      }
+      if (cwds.get(project) === current) {
+        return project;
+      }
+    }
+
+    if (!options.parents || path.dirname(current) === current) {
+      break;
+    }
+  }
+
+  throw new Error(`No Claude Code sessions found for ${dir}`);
+}
+
+/**
+ * The session file written to most recently
+ */
+export function findLatestSessionFile(files: string[]): string {
+  if (files.length === 0) {
+    throw new Error('No sessions found');
+  }
+
+  return files
+    .map(file => ({ file, modified: fs.statSync(file).mtimeMs }))
+    .reduce((latest, candidate) => candidate.modified > latest.modified ? candidate : latest)
+    .file;
+}
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { parseSessionFilter, matchesFilter, sortSessions, formatTokenCount, formatDuration } from './sessions.js';
+import { SessionInfo } from '../types/index.js';
+
+describe('session utilities', () => {
+  const now = new Date(2025, 6, 10, 12, 0, 0);
+
+  const session = (sessionId: string, values: Partial<SessionInfo> = {}): SessionInfo => ({
+    sessionId,
+    file: `/tmp/${sessionId}.jsonl`,
+    timestamp: '',
+    summary: `Session ${sessionId}`,
+    messageCount: 10,
+    modified: new Date(2025, 6, 9),
+    created: new Date(2025, 6, 9),
+    tokens: 0,
+    models: ['claude-sonnet-4-20250514'],
+    ...values
+  });
+
+  describe('parseSessionFilter', () => {
+    it('should keep plain words as the summary query', () => {
+      expect(parseSessionFilter('  login   form ', now)).toEqual({ options: { query: 'login form' }, invalid: [] });
+    });
+
+    it('should read relative and absolute dates', () => {
+      const { options } = parseSessionFilter('since:7d until:2025-07-09', now);
+
+      expect(options.dateRange).toEqual({
+        start: new Date(2025, 6, 3, 12, 0, 0),
+        end: new Date(2025, 6, 9, 23, 59, 59, 999)
+      });
+      expect(parseSessionFilter('since:2025-07-01', now).options.dateRange).toEqual({ start: new Date(2025, 6, 1) });
+      expect(parseSessionFilter('since:3h', now).options.dateRange).toEqual({ start: new Date(2025, 6, 10, 9, 0, 0) });
+    });
+
+    it('should read message count comparisons and ranges', () => {
+      const range = (text: string) => parseSessionFilter(text, now).options.messageCountRange;
+
+      expect(range('msgs:>50')).toEqual({ min: 51 });
+      expect(range('msgs:>=50')).toEqual({ min: 50 });
+      expect(range('msgs:<10')).toEqual({ max: 9 });
+      expect(range('msgs:10..20')).toEqual({ min: 10, max: 20 });
+      expect(range('msgs:>5 msgs:<=8')).toEqual({ min: 6, max: 8 });
+      expect(range('msgs:12')).toEqual({ min: 12, max: 12 });
+    });
+
+    it('should collect models and report terms it cannot read', () => {
+      expect(parseSessionFilter('model:Opus model:haiku since:soon msgs: fix', now)).toEqual({
+        options: { models: ['opus', 'haiku'], query: 'fix' },
+        invalid: ['since:soon', 'msgs:']
+      });
+    });
+
+    it('should leave unknown prefixes in the query', () => {
+      expect(parseSessionFilter('http://localhost', now).options).toEqual({ query: 'http://localhost' });
+    });
+  });
+
+  describe('matchesFilter', () => {
+    const filter = (text: string) => parseSessionFilter(text, now).options;
+
+    it('should match every session against an empty filter', () => {
+      expect(matchesFilter(session('a'), filter(''))).toBe(true);
+    });
+
+    it('should require every part to match', () => {
+      const busy = session('a', { summary: 'Fix login', messageCount: 80, models: ['claude-opus-4-20250514'] });
+
+      expect(matchesFilter(busy, filter('login since:7d msgs:>50 model:opus'))).toBe(true);
+      expect(matchesFilter(busy, filter('signup since:7d'))).toBe(false);
+      expect(matchesFilter(busy, filter('since:12h'))).toBe(false);
+      expect(matchesFilter(busy, filter('until:2025-07-08'))).toBe(false);
+      expect(matchesFilter(busy, filter('msgs:<50'))).toBe(false);
+      expect(matchesFilter(busy, filter('model:haiku'))).toBe(false);
+      expect(matchesFilter(busy, filter('model:haiku model:opus'))).toBe(true);
+    });
+
+    it('should match words against the project name too', () => {
+      const listed = session('a', { summary: 'Fix login', project: '~/work/billing' });
+
+      expect(matchesFilter(listed, filter('billing'))).toBe(true);
+      expect(matchesFilter(session('b'), filter('billing'))).toBe(false);
+    });
+  });
+
+  describe('sortSessions', () => {
+    const sessions = [
+      session('a', { created: new Date(2025, 6, 1), modified: new Date(2025, 6, 8), messageCount: 5, tokens: 900 }),
+      session('b', { created: new Date(2025, 6, 7), modified: new Date(2025, 6, 7, 1), messageCount: 50, tokens: 100 }),
+      session('c', { created: new Date(2025, 6, 5), modified: new Date(2025, 6, 9), messageCount: 20, tokens: 500 })
+    ];
+    const order = (key: Parameters<typeof sortSessions>[1]) => sortSessions(sessions, key).map(s => s.sessionId);
+
+    it('should put the largest or most recent first', () => {
+      expect(order('modified')).toEqual(['c', 'a', 'b']);
+      expect(order('created')).toEqual(['b', 'c', 'a']);
+      expect(order('messages')).toEqual(['b', 'c', 'a']);
+      expect(order('tokens')).toEqual(['a', 'c', 'b']);
+      expect(order('duration')).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should not reorder the list it was given', () => {
+      order('tokens');
+      expect(sessions.map(s => s.sessionId)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should shorten token counts', () => {
+      expect([950, 1234, 12_345, 4_120_000].map(formatTokenCount)).toEqual(['950', '1.2k', '12k', '4.1M']);
+    });
+
+    it('should shorten durations', () => {
+      expect([45_000, 12 * 60_000, 185 * 60_000, 52 * 3600_000].map(formatDuration)).toEqual(['45s', '12m', '3h 05m', '2d 4h']);
+    });
+  });
+});
\ No newline at end of file
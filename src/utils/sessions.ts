@@ -0,0 +1,216 @@
+import { SessionInfo, FilterOptions, SessionSortKey } from '../types/index.js';
+
+export interface ParsedSessionFilter {
+  options: FilterOptions;
+  // Terms that looked like expressions but couldn't be read, e.g. `since:soon`
+  invalid: string[];
+}
+
+const RELATIVE_TIME = /^(\d+)([hdw])$/;
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MESSAGE_COUNT = /^(>=|<=|>|<)?(\d+)$/;
+const MESSAGE_COUNT_RANGE = /^(\d+)\.\.(\d+)$/;
+
+const UNIT_MS: Record<string, number> = {
+  h: 3600_000,
+  d: 86400_000,
+  w: 604800_000
+};
+
+/**
+ * Read the browser's filter text. Besides plain words, which must appear in
+ * the summary or project name, it understands:
+ *
+ *   since:7d  since:2025-07-01   modified within the last 7 days, or on or after a date
+ *   until:2d  until:2025-07-31   modified before 2 days ago, or on or before a date
+ *   msgs:>50  msgs:<=10  msgs:10..50  msgs:12
+ *   model:opus                   used a model whose id contains "opus"
+ */
+export function parseSessionFilter(text: string, now: Date = new Date()): ParsedSessionFilter {
+  const options: FilterOptions = {};
+  const invalid: string[] = [];
+  const words: string[] = [];
+
+  for (const term of text.trim().split(/\s+/).filter(Boolean)) {
+    const separator = term.indexOf(':');
+    const key = separator > 0 ? term.slice(0, separator).toLowerCase() : '';
+    const value = term.slice(separator + 1);
+
+    switch (key) {
+      case 'since':
+      case 'until': {
+        const date = parseFilterDate(value, key, now);
+        if (!date) {
+          invalid.push(term);
+        } else if (key === 'since') {
+          options.dateRange = { ...options.dateRange, start: date };
+        } else {
+          options.dateRange = { ...options.dateRange, end: date };
+        }
+        break;
+      }
+
+      case 'msgs': {
+        const range = parseMessageCountRange(value);
+        if (range) {
+          options.messageCountRange = { ...options.messageCountRange, ...range };
+        } else {
+          invalid.push(term);
+        }
+        break;
+      }
+
+      case 'model':
+        if (value) {
+          options.models = [...(options.models || []), value.toLowerCase()];
+        } else {
+          invalid.push(term);
+        }
+        break;
+
+      default:
+        words.push(term);
+    }
+  }
+
+  if (words.length > 0) {
+    options.query = words.join(' ');
+  }
+
+  return { options, invalid };
+}
+
+/**
+ * Whether a session passes every part of a filter
+ */
+export function matchesFilter(session: SessionInfo, options: FilterOptions): boolean {
+  if (options.query) {
+    const query = options.query.toLowerCase();
+    if (!session.summary.toLowerCase().includes(query) && !session.project?.toLowerCase().includes(query)) {
+      return false;
+    }
+  }
+
+  const { start, end } = options.dateRange || {};
+  if ((start && session.modified < start) || (end && session.modified > end)) {
+    return false;
+  }
+
+  const { min, max } = options.messageCountRange || {};
+  if ((min !== undefined && session.messageCount < min) || (max !== undefined && session.messageCount > max)) {
+    return false;
+  }
+
+  if (options.models && !options.models.some(name =>
+    session.models.some(model => model.toLowerCase().includes(name))
+  )) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Sort sessions for the browser; every key puts the largest or most recent
+ * first. Ties keep their existing order.
+ */
+export function sortSessions(sessions: SessionInfo[], key: SessionSortKey): SessionInfo[] {
+  const value = (session: SessionInfo): number => {
+    switch (key) {
+      case 'modified':
+        return session.modified.getTime();
+      case 'created':
+        return session.created.getTime();
+      case 'messages':
+        return session.messageCount;
+      case 'tokens':
+        return session.tokens;
+      case 'duration':
+        return getSessionDuration(session);
+    }
+  };
+
+  return [...sessions].sort((a, b) => value(b) - value(a));
+}
+
+/**
+ * Time from the first message to the last, in milliseconds
+ */
+export function getSessionDuration(session: SessionInfo): number {
+  return Math.max(0, session.modified.getTime() - session.created.getTime());
+}
+
+/**
+ * Short token counts for narrow columns: 950, 12.3k, 4.1M
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) {
+    return String(tokens);
+  }
+  if (tokens < 1_000_000) {
+    return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  }
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * Short durations for narrow columns: 45s, 12m, 3h 05m, 2d 4h
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) {
+    return `${Math.floor(ms / 1000)}s`;
+  }
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  if (minutes < 1440) {
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+  }
+  return `${Math.floor(minutes / 1440)}d ${Math.floor(minutes % 1440 / 60)}h`;
+}
+
+function parseFilterDate(value: string, key: 'since' | 'until', now: Date): Date | undefined {
+  const relative = value.match(RELATIVE_TIME);
+  if (relative) {
+    return new Date(now.getTime() - parseInt(relative[1], 10) * UNIT_MS[relative[2]]);
+  }
+
+  const date = value.match(DATE);
+  if (date) {
+    const [year, month, day] = [date[1], date[2], date[3]].map(part => parseInt(part, 10));
+    // Dates are whole local days, so `until:` includes the day it names
+    const parsed = key === 'since'
+      ? new Date(year, month - 1, day)
+      : new Date(year, month - 1, day, 23, 59, 59, 999);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+
+  return undefined;
+}
+
+function parseMessageCountRange(value: string): FilterOptions['messageCountRange'] | undefined {
+  const range = value.match(MESSAGE_COUNT_RANGE);
+  if (range) {
+    return { min: parseInt(range[1], 10), max: parseInt(range[2], 10) };
+  }
+
+  const count = value.match(MESSAGE_COUNT);
+  if (!count) {
+    return undefined;
+  }
+
+  const n = parseInt(count[2], 10);
+  switch (count[1]) {
+    case '>':
+      return { min: n + 1 };
+    case '>=':
+      return { min: n };
+    case '<':
+      return { max: n - 1 };
+    case '<=':
+      return { max: n };
+    default:
+      return { min: n, max: n };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32 } from './zip.js';
+import * as zlib from 'zlib';
+
+describe('zip utilities', () => {
+  describe('crc32', () => {
+    it('should match the standard check value', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    });
+  });
+
+  describe('createZip', () => {
+    const readEntries = (zip: Buffer) => {
+      const end = zip.length - 22;
+      expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+
+      const entries: { name: string; data: string }[] = [];
+      let record = zip.readUInt32LE(end + 16);
+      for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+        expect(zip.readUInt32LE(record)).toBe(0x02014b50);
+        const nameLength = zip.readUInt16LE(record + 28);
+        const name = zip.subarray(record + 46, record + 46 + nameLength).toString('utf8');
+        const local = zip.readUInt32LE(record + 42);
+        const start = local + 30 + zip.readUInt16LE(local + 26);
+        const compressed = zip.subarray(start, start + zip.readUInt32LE(record + 20));
+        const data = zlib.inflateRawSync(compressed);
+
+        expect(crc32(data)).toBe(zip.readUInt32LE(record + 16));
+        entries.push({ name, data: data.toString('utf8') });
+        record += 46 + nameLength;
+      }
+      return entries;
+    };
+
+    it('should store each entry so it can be read back', () => {
+      const zip = createZip([
+        { name: 'sessions/first.md', data: '# First\n' },
+        { name: 'sessions/ünïcode.md', data: Buffer.from('# Second\n'.repeat(100)) }
+      ]);
+
+      expect(readEntries(zip)).toEqual([
+        { name: 'sessions/first.md', data: '# First\n' },
+        { name: 'sessions/ünïcode.md', data: '# Second\n'.repeat(100) }
+      ]);
+    });
+
+    it('should write an empty archive', () => {
+      expect(readEntries(createZip([]))).toEqual([]);
+    });
+  });
+});
\ No newline at end of file